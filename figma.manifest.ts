@@ -5,7 +5,48 @@ export default {
   api: "1.0.0",
   main: "plugin.js",
   ui: "index.html",
-  capabilities: [],
+  capabilities: ["codegen"],
+  permissions: ["teamlibrary"],
   enableProposedApi: false,
-  editorType: ["figma", "figjam"],
+  editorType: ["figma", "dev"],
+  // Dev Mode codegen: one language per output format (see src/plugin/plugin.codegen.ts)
+  codegenLanguages: [
+    { label: "CSS", value: "css" },
+    { label: "Tailwind", value: "tailwind" },
+    { label: "Raw JSON", value: "raw" },
+  ],
+  codegenPreferences: [
+    {
+      itemType: "select",
+      propertyName: "annotationFormat",
+      label: "Annotations",
+      options: [
+        { label: "HTML", value: "html", isDefault: true },
+        { label: "TSX", value: "tsx" },
+        { label: "None", value: "none" },
+      ],
+      includedLanguages: ["css", "tailwind"],
+    },
+    {
+      itemType: "select",
+      propertyName: "cssStyles",
+      label: "Styles",
+      options: [
+        { label: "Inline", value: "inline", isDefault: true },
+        { label: "BEM classes", value: "bem" },
+        { label: "Type classes", value: "type" },
+        { label: "Hashed classes", value: "hash" },
+      ],
+      includedLanguages: ["css"],
+    },
+    {
+      itemType: "select",
+      propertyName: "prettify",
+      label: "Prettify",
+      options: [
+        { label: "On", value: "true", isDefault: true },
+        { label: "Off", value: "false" },
+      ],
+    },
+  ],
 };
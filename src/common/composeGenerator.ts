@@ -0,0 +1,648 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import { figmaVariableToCSSVariable, collectVariableModes, getSVGColorBindings } from "./cssGenerator";
+import { formatAnnotation, nodeNameToComponentName } from "./generatorHelpers";
+
+export interface GeneratedCompose {
+  kotlin: string;
+  theme: string; // Theme object (one constant per variable, plus the values of the other modes)
+  themeFileName: string; // "AppTheme.kt"
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * Kotlin type of a theme constant, deciding how its values are written.
+ */
+type ComposeValueKind = "color" | "dp" | "sp" | "float" | "weight";
+
+/**
+ * Constant of the AppTheme object holding a Figma variable.
+ */
+interface ComposeToken {
+  name: string; // Constant name (e.g., "fillPrimary")
+  kind: ComposeValueKind;
+  value: string; // Default-mode value as Kotlin code (e.g., "Color(0xFF2563EB)", "16.dp")
+}
+
+/**
+ * State shared while generating the composables of the selected nodes.
+ */
+interface ComposeContext {
+  tokens: { [figmaVarName: string]: ComposeToken }; // Theme constants keyed by Figma variable name
+  componentNames: Set<string>; // Names of the generated composables
+  imports: Set<string>; // Imported Kotlin symbols
+}
+
+const INDENT = "    ";
+
+/**
+ * Imports of the Compose symbols the generated code may use.
+ */
+const IMPORTS: { [symbol: string]: string } = {
+  Alignment: "androidx.compose.ui.Alignment",
+  Arrangement: "androidx.compose.foundation.layout.Arrangement",
+  Box: "androidx.compose.foundation.layout.Box",
+  Color: "androidx.compose.ui.graphics.Color",
+  ColorFilter: "androidx.compose.ui.graphics.ColorFilter",
+  Column: "androidx.compose.foundation.layout.Column",
+  Composable: "androidx.compose.runtime.Composable",
+  ContentScale: "androidx.compose.ui.layout.ContentScale",
+  FontWeight: "androidx.compose.ui.text.font.FontWeight",
+  Image: "androidx.compose.foundation.Image",
+  Modifier: "androidx.compose.ui.Modifier",
+  R: "R",
+  RoundedCornerShape: "androidx.compose.foundation.shape.RoundedCornerShape",
+  Row: "androidx.compose.foundation.layout.Row",
+  Text: "androidx.compose.material3.Text",
+  TextAlign: "androidx.compose.ui.text.style.TextAlign",
+  TextDecoration: "androidx.compose.ui.text.style.TextDecoration",
+  TextStyle: "androidx.compose.ui.text.TextStyle",
+  alpha: "androidx.compose.ui.draw.alpha",
+  background: "androidx.compose.foundation.background",
+  border: "androidx.compose.foundation.border",
+  dp: "androidx.compose.ui.unit.dp",
+  fillMaxHeight: "androidx.compose.foundation.layout.fillMaxHeight",
+  fillMaxWidth: "androidx.compose.foundation.layout.fillMaxWidth",
+  height: "androidx.compose.foundation.layout.height",
+  padding: "androidx.compose.foundation.layout.padding",
+  paint: "androidx.compose.ui.draw.paint",
+  painterResource: "androidx.compose.ui.res.painterResource",
+  shadow: "androidx.compose.ui.draw.shadow",
+  sp: "androidx.compose.ui.unit.sp",
+  width: "androidx.compose.foundation.layout.width",
+};
+
+/**
+ * Converts a name to a camelCase Kotlin identifier (theme constants).
+ * Examples: "--spacing-4" → "spacing4", "Dark" → "dark"
+ */
+function nameToIdentifier(name: string, fallback: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word);
+  const identifier = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}${identifier}` : identifier;
+}
+
+/**
+ * Converts a name to an Android resource name (lowercase snake_case).
+ * Examples: ("Arrow Right", "ic") → "ic_arrow_right", ("assets/4f2a.png", "image") → "image_4f2a"
+ */
+function nameToResourceName(name: string, prefix: string): string {
+  const base = name
+    .replace(/^assets\//, "")
+    .replace(/\.[a-z0-9]+$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return base ? `${prefix}_${base}` : prefix;
+}
+
+/**
+ * Escapes text for a Kotlin string literal ($ starts a string template).
+ */
+function escapeKotlinString(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats a number for Kotlin (integers stay integers, decimals are rounded to two places).
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Converts a hex color and opacity to a Compose Color literal (ARGB).
+ * Examples: ("#2563eb", 1) → "Color(0xFF2563EB)", ("#000000", 0.5) → "Color(0x80000000)"
+ */
+function colorToCompose(color: string, opacity: number = 1): string {
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, "0");
+  return `Color(0x${(alpha + color.replace("#", "")).toUpperCase()})`;
+}
+
+/**
+ * Writes a number as a Kotlin value of the given kind (e.g., 16 → "16.dp").
+ */
+function numberToKind(value: number, kind: ComposeValueKind): string {
+  if (kind === "dp") return `${formatNumber(value)}.dp`;
+  if (kind === "sp") return `${formatNumber(value)}.sp`;
+  if (kind === "weight") return `FontWeight(${Math.round(value)})`;
+  return `${formatNumber(value)}f`;
+}
+
+/**
+ * Returns the Kotlin code of a value, replaced with its AppTheme constant when the value is
+ * bound to a Figma variable. The first use of a variable records its kind and default value.
+ *
+ * @param value - Value as Kotlin code (e.g., "16.dp")
+ * @param kind - Kotlin type of the value
+ * @param figmaVarName - Name of the bound Figma variable, if any
+ * @param context - Compose context (collects the theme constants)
+ * @returns "AppTheme.<name>", or the value itself
+ */
+function themeOrValue(value: string, kind: ComposeValueKind, figmaVarName: string | undefined, context: ComposeContext): string {
+  if (!figmaVarName) return value;
+  if (!context.tokens[figmaVarName]) {
+    const usedNames = new Set(Object.values(context.tokens).map((token) => token.name));
+    const baseName = nameToIdentifier(figmaVariableToCSSVariable(figmaVarName), "token");
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.tokens[figmaVarName] = { name, kind, value };
+  }
+  return `AppTheme.${context.tokens[figmaVarName].name}`;
+}
+
+/**
+ * Records the Compose symbols used by a piece of code so they get imported.
+ */
+function useSymbols(context: ComposeContext, ...symbols: string[]) {
+  symbols.forEach((symbol) => context.imports.add(symbol));
+}
+
+/**
+ * Returns the shape of a layer's corner radius, or null when its corners are square.
+ */
+function layoutToShape(layout: any, context: ComposeContext): string | null {
+  if (!layout) return null;
+  if (typeof layout.cornerRadius === "number" && (layout.cornerRadius > 0 || layout.cornerRadiusVariable)) {
+    useSymbols(context, "RoundedCornerShape", "dp");
+    return `RoundedCornerShape(${themeOrValue(numberToKind(layout.cornerRadius, "dp"), "dp", layout.cornerRadiusVariable, context)})`;
+  }
+  if (layout.cornerRadius && typeof layout.cornerRadius === "object") {
+    const { topLeft, topRight, bottomRight, bottomLeft } = layout.cornerRadius;
+    useSymbols(context, "RoundedCornerShape", "dp");
+    return `RoundedCornerShape(topStart = ${formatNumber(topLeft)}.dp, topEnd = ${formatNumber(topRight)}.dp, ` +
+      `bottomEnd = ${formatNumber(bottomRight)}.dp, bottomStart = ${formatNumber(bottomLeft)}.dp)`;
+  }
+  return null;
+}
+
+/**
+ * Converts the four paddings of a layer to a padding modifier.
+ * Examples: all 16 → .padding(16.dp), 8/16/8/16 → .padding(horizontal = 16.dp, vertical = 8.dp)
+ */
+function paddingToModifier(top: string, end: string, bottom: string, start: string): string | null {
+  const zero = "0.dp";
+  if (top === end && top === bottom && top === start) {
+    return top === zero ? null : `.padding(${top})`;
+  }
+  if (top === bottom && start === end) {
+    return `.padding(horizontal = ${start}, vertical = ${top})`;
+  }
+  const sides = [["start", start], ["top", top], ["end", end], ["bottom", bottom]]
+    .filter(([, value]) => value !== zero)
+    .map(([side, value]) => `${side} = ${value}`);
+  return `.padding(${sides.join(", ")})`;
+}
+
+/**
+ * Builds the modifier chain of a layer, in the order Compose applies them: size, shadow,
+ * background, border, padding (inside the background) and alpha.
+ *
+ * FILL sizing depends on the parent: `weight(1f)` along a Row/Column, `fillMaxWidth()` /
+ * `fillMaxHeight()` across it or outside auto layout.
+ *
+ * @param node - The extracted node with styles
+ * @param parentLayoutMode - layoutMode of the parent ("HORIZONTAL", "VERTICAL" or undefined)
+ * @param context - Compose context (collects the theme constants and imports)
+ * @param drawsFill - Whether the fill is a background (false for text, images and vectors)
+ * @returns Array of modifier calls (e.g., [".width(100.dp)", ".padding(16.dp)"])
+ */
+function nodeToModifiers(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: ComposeContext,
+  drawsFill: boolean
+): string[] {
+  const styles = node.styles;
+  if (!styles) return [];
+
+  const modifiers: string[] = [];
+  const layout = styles.layout || {};
+  const fillWidth = layout.layoutSizingHorizontal === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "HORIZONTAL");
+  const fillHeight = layout.layoutSizingVertical === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "VERTICAL");
+
+  if (fillWidth) {
+    if (parentLayoutMode === "HORIZONTAL") {
+      modifiers.push(".weight(1f)");
+    } else {
+      useSymbols(context, "fillMaxWidth");
+      modifiers.push(".fillMaxWidth()");
+    }
+  } else if (layout.layoutSizingHorizontal !== "HUG" && layout.width !== undefined) {
+    useSymbols(context, "width", "dp");
+    modifiers.push(`.width(${themeOrValue(numberToKind(layout.width, "dp"), "dp", layout.widthVariable, context)})`);
+  }
+  if (fillHeight) {
+    if (parentLayoutMode === "VERTICAL") {
+      modifiers.push(".weight(1f)");
+    } else {
+      useSymbols(context, "fillMaxHeight");
+      modifiers.push(".fillMaxHeight()");
+    }
+  } else if (layout.layoutSizingVertical !== "HUG" && layout.height !== undefined) {
+    useSymbols(context, "height", "dp");
+    modifiers.push(`.height(${themeOrValue(numberToKind(layout.height, "dp"), "dp", layout.heightVariable, context)})`);
+  }
+
+  const shape = layoutToShape(layout, context);
+  const shapeArgument = shape ? `, ${shape}` : "";
+
+  // Compose shadows have no offset or blur: the elevation approximates the Figma blur
+  const shadow = (styles.effects || []).find((effect: any) => effect.type === "DROP_SHADOW");
+  if (shadow) {
+    useSymbols(context, "shadow", "dp");
+    modifiers.push(`.shadow(${formatNumber(Math.max(1, shadow.radius / 2))}.dp${shapeArgument})`);
+  }
+
+  const fill = styles.fills?.[0];
+  if (drawsFill && fill?.type === "SOLID") {
+    useSymbols(context, "background", "Color");
+    const color = themeOrValue(colorToCompose(fill.color, fill.opacity), "color", fill.variable, context);
+    modifiers.push(`.background(${color}${shapeArgument})`);
+  } else if (drawsFill && fill?.type === "IMAGE" && fill.src) {
+    // An image behind the children is painted by the container
+    useSymbols(context, "paint", "painterResource", "R", "ContentScale");
+    const resource = nameToResourceName(fill.src, "image");
+    modifiers.push(`.paint(painterResource(R.drawable.${resource}), contentScale = ContentScale.${fill.scaleMode === "FIT" ? "Fit" : "Crop"})`);
+  }
+
+  const stroke = styles.strokes?.strokes?.[0];
+  if (stroke?.type === "SOLID") {
+    useSymbols(context, "border", "Color", "dp");
+    const width = themeOrValue(numberToKind(styles.strokes.strokeWeight || 1, "dp"), "dp", styles.strokes.strokeWeightVariable, context);
+    const color = themeOrValue(colorToCompose(stroke.color, stroke.opacity), "color", stroke.variable, context);
+    modifiers.push(`.border(${width}, ${color}${shapeArgument})`);
+  }
+
+  if (layout.layoutMode) {
+    const padding = (side: string) => themeOrValue(
+      numberToKind(layout[`padding${side}`] || 0, "dp"), "dp", layout[`padding${side}Variable`], context
+    );
+    const paddingModifier = paddingToModifier(padding("Top"), padding("Right"), padding("Bottom"), padding("Left"));
+    if (paddingModifier) {
+      useSymbols(context, "padding", "dp");
+      modifiers.push(paddingModifier);
+    }
+  }
+
+  if (layout.opacity !== undefined && layout.opacity < 1) {
+    useSymbols(context, "alpha");
+    modifiers.push(`.alpha(${themeOrValue(numberToKind(layout.opacity, "float"), "float", layout.opacityVariable, context)})`);
+  }
+
+  return modifiers;
+}
+
+/**
+ * Formats the modifier argument of a composable call.
+ * The root composable chains onto its `modifier` parameter, other layers start from Modifier.
+ */
+function formatModifier(modifiers: string[], isRoot: boolean, context: ComposeContext, indent: string): string | null {
+  if (modifiers.length === 0) {
+    return isRoot ? "modifier = modifier" : null;
+  }
+  useSymbols(context, "Modifier");
+  const receiver = isRoot ? "modifier" : "Modifier";
+  if (modifiers.length === 1) {
+    return `modifier = ${receiver}${modifiers[0]}`;
+  }
+  return `modifier = ${receiver}\n${modifiers.map((modifier) => `${indent}${INDENT}${modifier}`).join("\n")}`;
+}
+
+/**
+ * Formats a composable call with named arguments and an optional content lambda.
+ */
+function formatCall(name: string, args: string[], content: string | null, indent: string): string {
+  const argumentList = args.length > 0
+    ? `(\n${args.map((arg) => `${indent}${INDENT}${arg},`).join("\n")}\n${indent})`
+    : "";
+  if (content === null) {
+    return `${indent}${name}${argumentList || "()"}`;
+  }
+  return `${indent}${name}${argumentList} {\n${content}\n${indent}}`;
+}
+
+/**
+ * Converts typography properties and the text color to a TextStyle.
+ * Line height and letter spacing percentages are resolved against the font size.
+ */
+function typographyToTextStyle(node: ExtractedNode & { styles?: ExtractedStyles }, context: ComposeContext, indent: string): string | null {
+  const typography = node.styles?.typography;
+  const entries: string[] = [];
+
+  if (typography) {
+    const fontSize = Number(typography.fontSize) || 0;
+    if (typography.fontFamily) {
+      entries.push(`// fontFamily: "${escapeKotlinString(typography.fontFamily)}" (add the font to res/font)`);
+    }
+    if (fontSize) {
+      useSymbols(context, "sp");
+      entries.push(`fontSize = ${themeOrValue(numberToKind(fontSize, "sp"), "sp", typography.fontSizeVariable, context)},`);
+    }
+    const weights: { [style: string]: number } = {
+      thin: 100, extralight: 200, light: 300, regular: 400, medium: 500, semibold: 600, bold: 700, extrabold: 800, black: 900,
+    };
+    const fontWeight = typography.fontWeightValue || weights[String(typography.fontWeight || "").toLowerCase().replace(/\s+/g, "")];
+    if (fontWeight) {
+      useSymbols(context, "FontWeight");
+      entries.push(`fontWeight = ${themeOrValue(numberToKind(fontWeight, "weight"), "weight", typography.fontWeightVariable, context)},`);
+    }
+    const lineHeight = Number(typography.lineHeight) || 0;
+    if (lineHeight && typography.lineHeightUnit !== "AUTO") {
+      const value = typography.lineHeightUnit === "PERCENT" ? (fontSize * lineHeight) / 100 : lineHeight;
+      useSymbols(context, "sp");
+      entries.push(`lineHeight = ${themeOrValue(numberToKind(value, "sp"), "sp", typography.lineHeightVariable, context)},`);
+    }
+    const letterSpacing = Number(typography.letterSpacing) || 0;
+    if (letterSpacing || typography.letterSpacingVariable) {
+      const value = typography.letterSpacingUnit === "PERCENT" ? (fontSize * letterSpacing) / 100 : letterSpacing;
+      useSymbols(context, "sp");
+      entries.push(`letterSpacing = ${themeOrValue(numberToKind(value, "sp"), "sp", typography.letterSpacingVariable, context)},`);
+    }
+    const decorations: { [decoration: string]: string } = { UNDERLINE: "Underline", STRIKETHROUGH: "LineThrough" };
+    if (decorations[typography.textDecoration]) {
+      useSymbols(context, "TextDecoration");
+      entries.push(`textDecoration = TextDecoration.${decorations[typography.textDecoration]},`);
+    }
+    const aligns: { [align: string]: string } = { LEFT: "Start", CENTER: "Center", RIGHT: "End", JUSTIFIED: "Justify" };
+    if (aligns[typography.textAlignHorizontal]) {
+      useSymbols(context, "TextAlign");
+      entries.push(`textAlign = TextAlign.${aligns[typography.textAlignHorizontal]},`);
+    }
+  }
+
+  const fill = node.styles?.fills?.[0];
+  if (fill?.type === "SOLID") {
+    useSymbols(context, "Color");
+    entries.push(`color = ${themeOrValue(colorToCompose(fill.color, fill.opacity), "color", fill.variable, context)},`);
+  }
+
+  if (entries.length === 0) return null;
+  useSymbols(context, "TextStyle");
+  return `style = TextStyle(\n${entries.map((entry) => `${indent}${INDENT}${INDENT}${entry}`).join("\n")}\n${indent}${INDENT})`;
+}
+
+/**
+ * Applies the Figma text case to the text, since TextStyle has no text transform.
+ */
+function applyTextCase(text: string, textCase?: string): string {
+  if (textCase === "UPPER") return text.toUpperCase();
+  if (textCase === "LOWER") return text.toLowerCase();
+  if (textCase === "TITLE") return text.replace(/\b\w/g, (char) => char.toUpperCase());
+  return text;
+}
+
+/**
+ * Recursively generates Compose code from an extracted node tree.
+ *
+ * Auto layout frames become Row (HORIZONTAL) or Column (VERTICAL) with their gap as
+ * `Arrangement.spacedBy` and their alignment as the arrangement/alignment arguments. Other
+ * layers become Box, TEXT nodes Text, image fills and vectors Image (from drawable resources).
+ * Layers hidden in the design are left as a comment.
+ *
+ * @param node - The extracted node with optional styles
+ * @param parentLayoutMode - layoutMode of the parent
+ * @param context - Compose context (collects the theme constants and imports)
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @param indent - Current indentation
+ * @param isRoot - Whether the node is the composable's root
+ * @returns Kotlin code for this node and its children
+ */
+function generateComposableRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: ComposeContext,
+  annotationFormat: AnnotationFormat,
+  indent: string,
+  isRoot: boolean = false
+): string {
+  let code = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      code += formatAnnotation(annotation, annotationFormat, indent, "line");
+    });
+  }
+
+  if (node.styles?.visible === false) {
+    return `${code}${indent}// "${node.name}" is hidden in the design`;
+  }
+
+  const layout = node.styles?.layout || {};
+  const fill = node.styles?.fills?.[0];
+
+  // Vectors are vector drawables, imported from the exported SVG (single color variables tint them)
+  if (node.svg) {
+    const modifier = formatModifier(nodeToModifiers(node, parentLayoutMode, context, false), isRoot, context, indent + INDENT);
+    const resource = nameToResourceName(node.name, "ic");
+    const colors: { [figmaVarName: string]: string } = {};
+    const variables = [...new Set(getSVGColorBindings(node.styles, colors).map((binding) => binding.variable))];
+    const args = [`painter = painterResource(R.drawable.${resource})`, `contentDescription = "${escapeKotlinString(node.name)}"`];
+    if (modifier) args.push(modifier);
+    if (variables.length === 1) {
+      useSymbols(context, "ColorFilter");
+      args.push(`colorFilter = ColorFilter.tint(${themeOrValue(colorToCompose(colors[variables[0]]), "color", variables[0], context)})`);
+    }
+    useSymbols(context, "Image", "painterResource", "R");
+    return `${code}${indent}// Import the SVG of "${node.name}" as the vector drawable ${resource}\n${formatCall("Image", args, null, indent)}`;
+  }
+
+  if (node.type === "TEXT") {
+    const characters = applyTextCase((node as any).characters || node.name || "", node.styles?.typography?.textCase);
+    const args = [`text = "${escapeKotlinString(characters)}"`];
+    const modifier = formatModifier(nodeToModifiers(node, parentLayoutMode, context, false), isRoot, context, indent + INDENT);
+    if (modifier) args.push(modifier);
+    const style = typographyToTextStyle(node, context, indent);
+    if (style) args.push(style);
+    useSymbols(context, "Text");
+    return code + formatCall("Text", args, null, indent);
+  }
+
+  // Leaf image fills are the Image itself, the asset being copied to res/drawable
+  const hasChildren = !!node.children && node.children.length > 0;
+  if (fill?.type === "IMAGE" && fill.src && !hasChildren) {
+    const resource = nameToResourceName(fill.src, "image");
+    const modifier = formatModifier(nodeToModifiers(node, parentLayoutMode, context, false), isRoot, context, indent + INDENT);
+    useSymbols(context, "Image", "painterResource", "R", "ContentScale");
+    const args = [
+      `painter = painterResource(R.drawable.${resource})`,
+      `contentDescription = "${escapeKotlinString(node.name)}"`,
+      ...(modifier ? [modifier] : []),
+      `contentScale = ContentScale.${fill.scaleMode === "FIT" ? "Fit" : "Crop"}`,
+    ];
+    return `${code}${indent}// ${fill.src} → res/drawable/${resource}\n${formatCall("Image", args, null, indent)}`;
+  }
+
+  const modifier = formatModifier(nodeToModifiers(node, parentLayoutMode, context, true), isRoot, context, indent + INDENT);
+  const args = modifier ? [modifier] : [];
+  let container = "Box";
+  if (layout.layoutMode === "HORIZONTAL" || layout.layoutMode === "VERTICAL") {
+    const horizontal = layout.layoutMode === "HORIZONTAL";
+    container = horizontal ? "Row" : "Column";
+    const spaceBetween = layout.primaryAxisAlignItems === "SPACE_BETWEEN";
+    const mainAlignments: { [align: string]: string } = horizontal
+      ? { MIN: "Start", CENTER: "CenterHorizontally", MAX: "End" }
+      : { MIN: "Top", CENTER: "CenterVertically", MAX: "Bottom" };
+    const arrangements: { [align: string]: string } = horizontal
+      ? { MIN: "Start", CENTER: "Center", MAX: "End" }
+      : { MIN: "Top", CENTER: "Center", MAX: "Bottom" };
+    const hasGap = !spaceBetween && (layout.itemSpacing || layout.itemSpacingVariable);
+    let arrangement: string | null = null;
+    if (spaceBetween) {
+      arrangement = "Arrangement.SpaceBetween";
+    } else if (hasGap) {
+      useSymbols(context, "dp");
+      const gap = themeOrValue(numberToKind(layout.itemSpacing || 0, "dp"), "dp", layout.itemSpacingVariable, context);
+      const alignment = layout.primaryAxisAlignItems && layout.primaryAxisAlignItems !== "MIN"
+        ? `, Alignment.${mainAlignments[layout.primaryAxisAlignItems] || "Start"}`
+        : "";
+      if (alignment) useSymbols(context, "Alignment");
+      arrangement = `Arrangement.spacedBy(${gap}${alignment})`;
+    } else if (layout.primaryAxisAlignItems && layout.primaryAxisAlignItems !== "MIN") {
+      arrangement = `Arrangement.${arrangements[layout.primaryAxisAlignItems] || "Start"}`;
+    }
+    if (arrangement) {
+      useSymbols(context, "Arrangement");
+      args.push(`${horizontal ? "horizontalArrangement" : "verticalArrangement"} = ${arrangement}`);
+    }
+    const crossAlignments: { [align: string]: string } = horizontal
+      ? { MIN: "Top", CENTER: "CenterVertically", MAX: "Bottom" }
+      : { MIN: "Start", CENTER: "CenterHorizontally", MAX: "End" };
+    if (layout.counterAxisAlignItems && crossAlignments[layout.counterAxisAlignItems] && layout.counterAxisAlignItems !== "MIN") {
+      useSymbols(context, "Alignment");
+      args.push(`${horizontal ? "verticalAlignment" : "horizontalAlignment"} = Alignment.${crossAlignments[layout.counterAxisAlignItems]}`);
+    }
+  }
+  useSymbols(context, container);
+
+  const childIndent = indent + INDENT;
+  const children: string[] = [];
+  if (fill?.type === "GRADIENT_LINEAR" || fill?.type === "GRADIENT_RADIAL") {
+    children.push(`${childIndent}// Gradient fill: set Modifier.background(Brush.linearGradient(...))`);
+  }
+  (node.children || []).forEach((child) => {
+    children.push(generateComposableRecursive(child, layout.layoutMode, context, annotationFormat, childIndent));
+  });
+
+  return code + formatCall(container, args, children.length > 0 ? children.join("\n") : null, indent);
+}
+
+/**
+ * Converts a Figma variable value of another mode to Kotlin code of the constant's kind.
+ */
+function modeValueToCompose(value: any, kind: ComposeValueKind): string {
+  if (value && typeof value === "object" && "r" in value && "g" in value && "b" in value) {
+    const hex = [value.r, value.g, value.b].map((channel: number) => Math.round(channel * 255).toString(16).padStart(2, "0")).join("");
+    return colorToCompose(`#${hex}`, value.a !== undefined ? value.a : 1);
+  }
+  if (typeof value === "number") return numberToKind(value, kind);
+  if (value && typeof value === "object" && "value" in value) return numberToKind(Number(value.value), kind);
+  return JSON.stringify(String(value));
+}
+
+/**
+ * Generates the theme file: an AppTheme object holding the default-mode value of every
+ * variable used by the composables, plus one object per other variable mode holding the
+ * values that differ.
+ */
+function generateThemeFile(nodes: (ExtractedNode & { styles?: ExtractedStyles })[], context: ComposeContext): string {
+  const tokens = Object.entries(context.tokens);
+  const kindImports: { [kind: string]: string } = { color: "Color", dp: "dp", sp: "sp", weight: "FontWeight" };
+  const imports = [...new Set(tokens.map(([, token]) => kindImports[token.kind]).filter((symbol) => symbol))]
+    .map((symbol) => IMPORTS[symbol])
+    .sort()
+    .map((path) => `import ${path}`);
+  const header = imports.length > 0 ? `${imports.join("\n")}\n\n` : "";
+
+  const constants = tokens.map(([, token]) => `${INDENT}val ${token.name} = ${token.value}`);
+  const sections = [`object AppTheme {${constants.length > 0 ? `\n${constants.join("\n")}\n` : ""}}`];
+
+  const variableModes = collectVariableModes(nodes);
+  const modes: { [modeName: string]: string[] } = {};
+  tokens.forEach(([figmaVarName, token]) => {
+    const modeValues = variableModes[figmaVarName];
+    if (!modeValues) return;
+    Object.entries(modeValues.valuesByMode).forEach(([modeName, value]) => {
+      if (modeName === modeValues.defaultMode) return;
+      const code = modeValueToCompose(value, token.kind);
+      if (code === token.value) return;
+      (modes[modeName] = modes[modeName] || []).push(`${INDENT}val ${token.name} = ${code}`);
+    });
+  });
+  Object.entries(modes).forEach(([modeName, constantsOfMode]) => {
+    const objectName = `AppTheme${nodeNameToComponentName(modeName)}`;
+    sections.push(`// Values of the "${modeName}" mode that differ from the default\nobject ${objectName} {\n${constantsOfMode.join("\n")}\n}`);
+  });
+
+  return `${header}${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Generates Jetpack Compose composables from extracted nodes.
+ *
+ * Each selected node becomes a @Composable function taking a `modifier` parameter. Auto
+ * layout maps to Row/Column with `Modifier.padding` and `Arrangement.spacedBy`, text to
+ * Text with a TextStyle, and visual styles to a modifier chain (size, shadow, background,
+ * border, padding, alpha). Values bound to Figma variables are read from the AppTheme
+ * object of the theme file (AppTheme.kt).
+ *
+ * Merged COMPONENT_SETs are rendered with the styles of their default variant.
+ * The output is always indented, so `prettify` is accepted for a consistent signature only.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @param prettify - Unused: Kotlin output is always indented
+ * @returns GeneratedCompose object with the Kotlin file, the theme file and used variables
+ */
+export function generateCompose(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedCompose {
+  const context: ComposeContext = { tokens: {}, componentNames: new Set(), imports: new Set(["Composable", "Modifier"]) };
+
+  const functions = nodes.map((node) => {
+    const baseName = nodeNameToComponentName(node.name);
+    let name = baseName;
+    for (let suffix = 2; context.componentNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.componentNames.add(name);
+
+    const body = generateComposableRecursive({ ...node, annotations: undefined }, undefined, context, annotationFormat, INDENT, true);
+    const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+      ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+      : "";
+    return `${docComment}@Composable\nfun ${name}(modifier: Modifier = Modifier) {\n${body}\n}`;
+  });
+
+  const imports = [...context.imports]
+    .map((symbol) => IMPORTS[symbol])
+    .filter((path) => path && path !== "R")
+    .sort()
+    .map((path) => `import ${path}`);
+  const resourceNote = context.imports.has("R") ? "\n\n// R is the R class of your app module (e.g., com.example.app.R)" : "";
+  const kotlin = `${imports.join("\n")}${resourceNote}\n\n${functions.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(context.tokens)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    kotlin,
+    theme: generateThemeFile(nodes, context),
+    themeFileName: "AppTheme.kt",
+    stylesheet: kotlin,
+    usedVariables: usedVariables,
+  };
+}
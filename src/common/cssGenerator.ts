@@ -1,4 +1,5 @@
-import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { ExtractedStyles, VariableModeMap } from "@plugin/extractors/styleExtractor";
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
 
 export interface CSSRule {
   selector: string;
@@ -30,17 +31,28 @@ export function figmaVariableToCSSVariable(figmaName: string): string {
  * Converts a Figma variable value to a CSS-compatible string.
  * 
  * Handles different value types:
- * - Numbers: converted to pixels (e.g., 16 -> "16px")
+ * - Numbers: converted to pixels (e.g., 16 -> "16px"), unless the default-mode CSS value
+ *   shows the variable is unitless (e.g., font-weight "700", opacity "0.5")
  * - RGB color objects: converted to rgb() or rgba() format
  * - Objects with value and unit: converted with appropriate unit (px or %)
+ * - Strings: quoted when the default-mode CSS value is quoted (font families)
  * - Other types: converted to string
  * 
  * @param value - The variable value from Figma (can be number, RGB object, or unit object)
+ * @param defaultCSSValue - Optional CSS value already generated for the default mode, used as a unit hint
  * @returns CSS-compatible string representation
  */
-function variableValueToCSS(value: any): string {
+function variableValueToCSS(value: any, defaultCSSValue?: string): string {
   if (typeof value === "number") {
+    if (defaultCSSValue !== undefined && !defaultCSSValue.endsWith("px")) {
+      return String(value);
+    }
     return `${value}px`;
+  } else if (typeof value === "string") {
+    if (defaultCSSValue !== undefined && defaultCSSValue.startsWith('"')) {
+      return `"${value}"`;
+    }
+    return value;
   } else if (typeof value === "object" && value !== null) {
     // Handle RGB color objects
     if ("r" in value && "g" in value && "b" in value) {
@@ -61,6 +73,179 @@ function variableValueToCSS(value: any): string {
   return String(value);
 }
 
+/**
+ * Converts a Figma mode name to a value usable in a data-theme attribute.
+ * Examples: "Light" → "light", "Brand A / Dark" → "brand-a-dark"
+ * 
+ * @param modeName - The Figma mode name
+ * @returns Kebab-case theme name
+ */
+export function modeNameToThemeName(modeName: string): string {
+  return modeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Recursively collects the per-mode variable values recorded on extracted nodes.
+ * 
+ * @param nodes - Array of extracted nodes with styles
+ * @returns Combined map of variable name to its values per mode
+ */
+export function collectVariableModes(nodes: (ExtractedNode & { styles?: ExtractedStyles })[]): VariableModeMap {
+  const variableModes: VariableModeMap = {};
+
+  const collect = (node: ExtractedNode & { styles?: ExtractedStyles }) => {
+    if (node.styles?.variableModes) {
+      Object.assign(variableModes, node.styles.variableModes);
+    }
+    // Layers of a merged COMPONENT_SET: variables used in any variant
+    node.variantStyles?.forEach((styles) => {
+      if (styles?.variableModes) {
+        Object.assign(variableModes, styles.variableModes);
+      }
+    });
+    node.children?.forEach((child) => collect(child as ExtractedNode & { styles?: ExtractedStyles }));
+  };
+
+  nodes.forEach(collect);
+  return variableModes;
+}
+
+/**
+ * CSS custom property declarations of the used variables (e.g., { name: "--color-bg", value: "#ffffff" }).
+ */
+export interface VariableDeclarations {
+  root: { [library: string]: { name: string; value: string }[] }; // Default mode, grouped by library ("" for local variables)
+  themes: { [themeName: string]: { name: string; value: string }[] }; // Values of other modes that differ from the default
+}
+
+/**
+ * Collects the CSS custom property declarations of all used variables.
+ * 
+ * THEME BLOCKS:
+ * - :root holds every variable with its default-mode value (as stored in variableMap)
+ * - [data-theme="<mode>"] holds overrides for each non-default mode, containing only
+ *   the variables whose value differs from the default
+ * 
+ * LIBRARY VARIABLES:
+ * Variables from team libraries are grouped at the end of :root under a
+ * "Library: <name>" comment, so local tokens can be told apart from library ones.
+ * 
+ * ALIASES:
+ * A variable that aliases another one is declared as a reference to it
+ * (e.g., --color-button-bg: var(--color-blue-500)), and the aliased variable is
+ * declared as well, so semantic tokens stay linked to their primitives.
+ * 
+ * @param variableMap - Map of variable names to default-mode CSS values
+ * @param variableModes - Optional map of variable names to their values per mode
+ * @returns Declarations of :root (grouped by library) and of each theme, by CSS variable name
+ */
+export function collectVariableDeclarations(variableMap: VariableMap, variableModes: VariableModeMap = {}): VariableDeclarations {
+  const result: VariableDeclarations = { root: {}, themes: {} };
+  if (Object.keys(variableMap).length === 0) {
+    return result;
+  }
+
+  // Concrete default-mode value for every declared variable: used variables first,
+  // then the variables they alias (transitively), converted with the referencing variable's unit hint
+  const declarations: VariableMap = { ...variableMap };
+  const queue = Object.keys(variableMap);
+  while (queue.length > 0) {
+    const figmaVarName = queue.shift() as string;
+    const aliasesByMode = variableModes[figmaVarName]?.aliasesByMode || {};
+    for (const aliases of Object.values(aliasesByMode)) {
+      const target = aliases[0];
+      const targetModes = variableModes[target];
+      if (!target || !targetModes || target in declarations) continue;
+      declarations[target] = variableValueToCSS(
+        targetModes.valuesByMode[targetModes.defaultMode],
+        declarations[figmaVarName]
+      );
+      queue.push(target);
+    }
+  }
+
+  // CSS value of a variable in a mode: a var() reference when it aliases a declared variable
+  const valueForMode = (figmaVarName: string, modeName: string): string | undefined => {
+    const modes = variableModes[figmaVarName];
+    const target = modes?.aliasesByMode?.[modeName]?.[0];
+    if (target && target in declarations) {
+      return `var(${figmaVariableToCSSVariable(target)})`;
+    }
+    const modeValue = modes?.valuesByMode[modeName];
+    return modeValue === undefined ? undefined : variableValueToCSS(modeValue, declarations[figmaVarName]);
+  };
+
+  // :root declarations grouped by library ("" for local variables)
+  result.root[""] = [];
+  for (const figmaVarName of Object.keys(declarations)) {
+    const cssVarName = figmaVariableToCSSVariable(figmaVarName);
+    const modes = variableModes[figmaVarName];
+    // Keep the generator's own default value unless the default mode is an alias
+    const defaultValue = modes ? valueForMode(figmaVarName, modes.defaultMode) : undefined;
+    const rootValue = defaultValue?.startsWith("var(") ? defaultValue : declarations[figmaVarName];
+    const library = modes?.remote ? (modes.library || modes.collection) : "";
+    (result.root[library] = result.root[library] || []).push({ name: cssVarName, value: rootValue });
+
+    if (!modes) continue;
+    for (const modeName of Object.keys(modes.valuesByMode)) {
+      if (modeName === modes.defaultMode) continue;
+      const modeCSSValue = valueForMode(figmaVarName, modeName);
+      // The root value may be written differently (e.g., #ffffff for rgb(255, 255, 255))
+      if (modeCSSValue === undefined || modeCSSValue === rootValue || modeCSSValue === defaultValue) continue;
+      const themeName = modeNameToThemeName(modeName);
+      (result.themes[themeName] = result.themes[themeName] || []).push({ name: cssVarName, value: modeCSSValue });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Generates the CSS custom property blocks for all used variables
+ * (see collectVariableDeclarations for the themes, library groups and aliases).
+ * 
+ * @param variableMap - Map of variable names to default-mode CSS values
+ * @param variableModes - Optional map of variable names to their values per mode
+ * @returns CSS blocks indented by two spaces (ready to be wrapped in <style>), or empty string
+ */
+function generateVariableBlocks(variableMap: VariableMap, variableModes: VariableModeMap = {}): string {
+  if (Object.keys(variableMap).length === 0) {
+    return "";
+  }
+
+  const { root, themes } = collectVariableDeclarations(variableMap, variableModes);
+  const rootLines = Object.entries(root).map(([library, declarations]) => {
+    const lines = declarations.map(({ name, value }) => `    ${name}: ${value};\n`).join("");
+    return library ? `    /* Library: ${library} */\n${lines}` : lines;
+  });
+  const rootSection = `  :root {\n${rootLines.filter((lines) => lines).join("\n")}  }\n`;
+
+  const themeSections = Object.entries(themes).map(([themeName, declarations]) => {
+    return `  [data-theme="${themeName}"] {\n${declarations.map(({ name, value }) => `    ${name}: ${value};\n`).join("")}  }\n`;
+  });
+
+  return [rootSection, ...themeSections].join("\n");
+}
+
+/**
+ * Generates a <style> block declaring all used CSS variables, with one theme block per mode.
+ * 
+ * Output shape:
+ *   :root { --color-bg: #ffffff; }
+ *   [data-theme="dark"] { --color-bg: rgb(0, 0, 0); }
+ * 
+ * @param variableMap - Map of variable names to default-mode CSS values
+ * @param variableModes - Map of variable names to their values per mode
+ * @returns <style> block string, or empty string when no variables are used
+ */
+export function generateThemeStylesheet(variableMap: VariableMap, variableModes: VariableModeMap = {}): string {
+  const blocks = generateVariableBlocks(variableMap, variableModes);
+  return blocks ? `<style>\n${blocks}</style>` : "";
+}
+
 /**
  * Generates a unique, valid CSS class name from a Figma node name and type.
  * 
@@ -165,11 +350,53 @@ export function fillsToCSS(fills: any, variableMap: VariableMap): string[] {
       })
       .join(", ");
     properties.push(`background: radial-gradient(${gradientStops})`);
+  } else if (fill.type === "IMAGE" && fill.src) {
+    // Image fills reference the exported asset (src is set by the plugin)
+    properties.push(`background-image: url('${fill.src}')`);
+    if (fill.scaleMode === "TILE") {
+      properties.push("background-repeat: repeat");
+    } else {
+      properties.push(`background-size: ${imageScaleModeToObjectFit(fill.scaleMode)}`);
+      properties.push("background-position: center");
+      properties.push("background-repeat: no-repeat");
+    }
   }
 
   return properties;
 }
 
+/**
+ * Maps a Figma image scaleMode to an object-fit / background-size keyword.
+ * FILL and CROP cover the node (the crop itself is not reproduced), FIT keeps
+ * the whole image visible.
+ * 
+ * @param scaleMode - The IMAGE paint scaleMode ("FILL", "FIT", "CROP", "TILE")
+ * @returns "cover" or "contain"
+ */
+export function imageScaleModeToObjectFit(scaleMode?: string): string {
+  return scaleMode === "FIT" ? "contain" : "cover";
+}
+
+/**
+ * Returns the image fill of a node that should be output as an <img> element.
+ * 
+ * Leaf nodes whose first fill is an exported image become <img>; nodes with children
+ * and tiled images keep the image as a background-image instead.
+ * 
+ * @param node - Extracted node with styles
+ * @returns The IMAGE fill (with src), or null if the node is not an image element
+ */
+export function getImageElementFill(node: ExtractedNode & { styles?: ExtractedStyles }): any {
+  if (node.type === "TEXT" || node.svg || (node.children && node.children.length > 0)) {
+    return null;
+  }
+  const fill = node.styles?.fills?.[0];
+  if (!fill || fill.type !== "IMAGE" || !fill.src || fill.scaleMode === "TILE") {
+    return null;
+  }
+  return fill;
+}
+
 /**
  * Converts stroke (border) properties to CSS border properties.
  * 
@@ -253,6 +480,68 @@ export function strokesToCSS(strokes: any, variableMap: VariableMap): string[] {
   return properties;
 }
 
+/**
+ * A color inside exported SVG markup that is bound to a Figma variable.
+ */
+export interface SVGColorBinding {
+  attribute: "fill" | "stroke";
+  color: string; // Hex color as written by the SVG export (e.g., "#2563eb")
+  variable: string; // Figma variable name (e.g., "color/icon/default")
+}
+
+/**
+ * Collects the solid fills and strokes of a vector node that are bound to variables.
+ * 
+ * The SVG export only contains the resolved colors, so these bindings are used to
+ * put the variables back into the markup (see rewriteSVGColors). The resolved colors
+ * are stored in the variableMap for the :root block.
+ * 
+ * @param styles - Extracted styles of the vector node
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @returns Array of color bindings (empty if no paint uses a variable)
+ */
+export function getSVGColorBindings(styles: ExtractedStyles | undefined, variableMap: VariableMap): SVGColorBinding[] {
+  if (!styles) return [];
+
+  const bindings: SVGColorBinding[] = [];
+  const addBindings = (paints: any[] | undefined, attribute: "fill" | "stroke") => {
+    (paints || []).forEach((paint: any) => {
+      if (paint.type !== "SOLID" || !paint.variable || !paint.color) return;
+      // Paint opacity is exported separately (fill-opacity), so the variable keeps the plain color
+      if (!variableMap[paint.variable]) {
+        variableMap[paint.variable] = paint.color;
+      }
+      bindings.push({ attribute, color: paint.color, variable: paint.variable });
+    });
+  };
+
+  addBindings(styles.fills, "fill");
+  addBindings(styles.strokes?.strokes, "stroke");
+  return bindings;
+}
+
+/**
+ * Rewrites the variable-bound colors of exported SVG markup.
+ * 
+ * Every `fill="#hex"` / `stroke="#hex"` attribute matching a binding is replaced with
+ * the markup returned by `replacement` (e.g., `fill="currentColor"`).
+ * 
+ * @param svg - SVG markup from the Figma export
+ * @param bindings - Variable-bound colors (from getSVGColorBindings)
+ * @param replacement - Returns the attribute markup to use for a binding
+ * @returns The rewritten SVG markup
+ */
+export function rewriteSVGColors(
+  svg: string,
+  bindings: SVGColorBinding[],
+  replacement: (binding: SVGColorBinding) => string
+): string {
+  return bindings.reduce((markup, binding) => {
+    const pattern = new RegExp(`${binding.attribute}="${binding.color}"`, "gi");
+    return markup.replace(pattern, replacement(binding));
+  }, svg);
+}
+
 /**
  * Converts visual effects (shadows, blurs) to CSS box-shadow and filter properties.
  * 
@@ -718,24 +1007,19 @@ export function generateCSSRules(
 /**
  * Generates a complete CSS stylesheet from multiple CSS rules.
  * 
- * Creates a :root block with all CSS custom properties from variableMap,
- * followed by all CSS rules. This is used for the standalone CSS output.
+ * Creates a :root block with all CSS custom properties from variableMap (plus
+ * [data-theme] blocks for other modes), followed by all CSS rules.
+ * This is used for the standalone CSS output.
  * 
  * @param rules - Array of CSSRule objects to include in the stylesheet
  * @param variableMap - Map of variable names to CSS values for the :root block
+ * @param variableModes - Optional map of variable names to their values per mode
  * @returns Complete CSS stylesheet string wrapped in <style> tags
  */
-export function generateStylesheet(rules: CSSRule[], variableMap: VariableMap): string {
-  // Generate :root section with CSS custom properties
-  let rootSection = "";
-  if (Object.keys(variableMap).length > 0) {
-    rootSection = "  :root {\n";
-    for (const [figmaVarName, cssValue] of Object.entries(variableMap)) {
-      const cssVarName = figmaVariableToCSSVariable(figmaVarName);
-      rootSection += `    ${cssVarName}: ${cssValue};\n`;
-    }
-    rootSection += "  }\n\n";
-  }
+export function generateStylesheet(rules: CSSRule[], variableMap: VariableMap, variableModes?: VariableModeMap): string {
+  // Generate :root and theme sections with CSS custom properties
+  const variableBlocks = generateVariableBlocks(variableMap, variableModes);
+  const rootSection = variableBlocks ? `${variableBlocks}\n` : "";
 
   // Generate regular CSS rules
   const cssRules = rules.map((rule) => {
@@ -756,3 +1040,19 @@ export function generateStylesheet(rules: CSSRule[], variableMap: VariableMap):
   return `<style>\n${rootSection}${cssRules.join("\n")}</style>`;
 }
 
+/**
+ * Converts a <style> block (from generateStylesheet or generateThemeStylesheet) to the
+ * contents of a standalone .css file: the <style> tags are removed and rules are outdented.
+ * 
+ * @param styleBlock - <style> block string
+ * @returns CSS file contents, or empty string for an empty block
+ */
+export function styleBlockToCSSFile(styleBlock: string): string {
+  const css = styleBlock
+    .replace(/^<style>\n?/, "")
+    .replace(/<\/style>$/, "")
+    .split("\n")
+    .map((line) => line.replace(/^ {2}/, ""))
+    .join("\n");
+  return css.trim() ? css : "";
+}
@@ -0,0 +1,283 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat, ExtractionWarning } from "@common/networkSides";
+import {
+  CSSRule,
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateStylesheet,
+  generateThemeStylesheet,
+  styleBlockToCSSFile,
+  getImageElementFill,
+} from "./cssGenerator";
+import { filterUselessProperties, generateVariantRules, nodeToCSSProperties } from "./domGenerator";
+import {
+  propertyNameToPropName,
+  escapeAttribute,
+  escapeJSXText,
+  createRichTextWarning,
+  formatAnnotation,
+  generateInlineSVG,
+  nodeNameToComponentName,
+} from "./generatorHelpers";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+
+export interface GeneratedCSSModules {
+  tsx: string;
+  css: string; // Contents of the .module.css file
+  tsxFileName: string; // e.g., "Button.tsx"
+  cssFileName: string; // e.g., "Button.module.css", imported by the TSX module
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+  warnings: ExtractionWarning[]; // Rich text layers output with the style of the whole layer
+}
+
+/**
+ * State shared by the layers of the module while generating the components.
+ */
+interface ModuleContext {
+  classNames: Set<string>; // Classes already used in the .module.css file
+  rules: CSSRule[]; // Rules of the .module.css file, in document order
+  variableMap: VariableMap;
+  warnings: ExtractionWarning[];
+}
+
+/**
+ * Converts a node name to a camelCase class name, usable as `styles.<name>`.
+ * Examples: "Label" → "label", "Icon / Leading" → "iconLeading", "2 Col" → "layer2Col"
+ */
+function nodeNameToModuleClass(nodeName: string): string {
+  const name = nodeName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((word) => word)
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!name) return "layer";
+  return /^[0-9]/.test(name) ? `layer${name}` : name;
+}
+
+/**
+ * Reserves a class name in the module (e.g., "label", "label2").
+ */
+function uniqueModuleClass(baseName: string, context: ModuleContext): string {
+  let className = baseName;
+  for (let suffix = 2; context.classNames.has(className); suffix++) {
+    className = `${baseName}${suffix}`;
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Recursively generates JSX from an extracted node tree with CSS Modules classes.
+ *
+ * Every layer with styles gets its own class (className={styles.label}) and a rule in the
+ * module. Layers without styles (e.g., plain groups) get no className. For a merged
+ * COMPONENT_SET, styles that differ between variants become modifier rules on the root's
+ * data attributes (e.g., .root[data-size="lg"] .label), and the root passes the variant
+ * props as data attributes.
+ *
+ * @param node - The extracted node with optional styles
+ * @param rootClass - Class of the component root (modifier rules are scoped to it)
+ * @param propNames - Prop names of the variant properties, keyed by Figma property name
+ * @param context - Module context (collects the class rules)
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root (it gets the root class)
+ * @returns JSX string for this node and its children
+ */
+function generateJSXRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  rootClass: string,
+  propNames: { [property: string]: string },
+  context: ModuleContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+
+  let jsx = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      jsx += formatAnnotation(annotation, annotationFormat, indentStr, "jsx");
+    });
+  }
+
+  // Base rule of the layer, plus modifier rules for the styles that differ between variants
+  const componentVariants = node.variants || variants;
+  let className = isRoot ? rootClass : "";
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+      return styles ? filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap)) : null;
+    });
+    const groups = groupVariantTokens(tokensByVariant, componentVariants, "display: none");
+    className = className || uniqueModuleClass(nodeNameToModuleClass(node.name), context);
+    if (groups.base.length > 0) {
+      context.rules.push({ selector: `.${className}`, properties: groups.base });
+    }
+    context.rules.push(...generateVariantRules(rootClass, isRoot ? null : className, groups));
+  } else {
+    const properties = filterUselessProperties(nodeToCSSProperties(node, context.variableMap));
+    if (properties.length > 0) {
+      className = className || uniqueModuleClass(nodeNameToModuleClass(node.name), context);
+      context.rules.push({ selector: `.${className}`, properties });
+    }
+  }
+
+  const imageFill = getImageElementFill(node);
+  const attrs: string[] = [];
+  if (className) {
+    attrs.push(`className={styles.${className}}`);
+  }
+  if (node.variants) {
+    // Variant props select the modifier rules through data attributes
+    Object.keys(node.variants[0] || {}).forEach((property) => {
+      attrs.push(`${variantPropertyToDataAttribute(property)}={${propNames[property]}}`);
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+  if (node.svg) {
+    return jsx + generateInlineSVG(node, context.variableMap, attributes, indentStr, prettify, {
+      shapeColor: (binding) => `style={{ ${binding.attribute}: "var(${figmaVariableToCSSVariable(binding.variable)})" }}`,
+      jsx: true,
+    });
+  }
+
+  const tag = imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+  if (node.type === "TEXT") {
+    const richTextWarning = createRichTextWarning(node, "CSS Modules");
+    if (richTextWarning) {
+      context.warnings.push(richTextWarning);
+    }
+    const content = escapeJSXText((node as any).characters || node.name || "");
+    return `${jsx}${indentStr}<${tag}${attributes}>${content}</${tag}>`;
+  }
+
+  if (node.children && node.children.length > 0) {
+    const children = node.children
+      .map((child) => generateJSXRecursive(child, rootClass, propNames, context, annotationFormat, prettify, indent + 1, componentVariants))
+      .join(newline);
+    return `${jsx}${indentStr}<${tag}${attributes}>${newline}${children}${newline}${indentStr}</${tag}>`;
+  }
+
+  return `${jsx}${indentStr}<${tag}${attributes} />`;
+}
+
+/**
+ * Generates a React function component whose layers use the classes of the CSS module.
+ * Variant properties of a merged COMPONENT_SET become typed props defaulting to the default variant.
+ */
+function generateComponent(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  componentName: string,
+  context: ModuleContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): string {
+  const rootClass = uniqueModuleClass("root", context);
+  const propNames: { [property: string]: string } = {};
+  Object.keys(node.variants?.[0] || {}).forEach((property) => {
+    propNames[property] = propertyNameToPropName(property);
+  });
+
+  // Annotations of the root node document the component (a comment next to the root element is not valid JSX)
+  const jsx = generateJSXRecursive({ ...node, annotations: undefined }, rootClass, propNames, context, annotationFormat, prettify, 2, undefined, true);
+  const body = prettify ? `  return (\n${jsx}\n  );` : `  return (${jsx});`;
+  const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+    ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+    : "";
+
+  const properties = Object.keys(propNames);
+  if (!node.variants || properties.length === 0) {
+    return `${docComment}export function ${componentName}() {\n${body}\n}`;
+  }
+
+  // Variant props: a union of the values of each property, defaulting to the default variant
+  const members = properties.map((property) => {
+    const values = [...new Set(node.variants!.map((variant: VariantCondition) => variant[property]))];
+    return `  ${propNames[property]}?: ${values.map((value) => JSON.stringify(value)).join(" | ")};`;
+  });
+  const parameters = properties
+    .map((property) => `${propNames[property]} = ${JSON.stringify(node.variants![0][property])}`)
+    .join(", ");
+
+  return [
+    `export interface ${componentName}Props {\n${members.join("\n")}\n}`,
+    "",
+    `${docComment}export function ${componentName}({ ${parameters} }: ${componentName}Props) {\n${body}\n}`,
+  ].join("\n");
+}
+
+/**
+ * Generates React components styled with a CSS Module from extracted nodes.
+ *
+ * The output is a pair of files with matching names:
+ * - Component.module.css: one class per layer with styles (root, label, iconLeading, ...),
+ *   built from the same CSS properties as the CSS output, after the CSS variables block
+ *   (wrapped in :global(), as :root and [data-theme] have no local class)
+ * - Component.tsx: `import styles from "./Component.module.css"` and one exported function
+ *   component per selected node, using className={styles.root}
+ *
+ * Merged COMPONENT_SETs get typed variant props, passed to the root as data attributes
+ * and matched by modifier rules in the module (e.g., .root[data-size="lg"] .label).
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format the JSX with indentation (true) or keep it compact (false)
+ * @returns GeneratedCSSModules object with the TSX module, the CSS module, their file names and used variables
+ */
+export function generateCSSModules(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "tsx",
+  prettify: boolean = true
+): GeneratedCSSModules {
+  const context: ModuleContext = { classNames: new Set(), rules: [], variableMap: {}, warnings: [] };
+  const usedNames = new Set<string>();
+
+  const components = nodes.map((node) => {
+    const baseName = nodeNameToComponentName(node.name);
+    let componentName = baseName;
+    for (let suffix = 2; usedNames.has(componentName); suffix++) {
+      componentName = `${baseName}${suffix}`;
+    }
+    usedNames.add(componentName);
+    return generateComponent(node, componentName, context, annotationFormat, prettify);
+  });
+
+  const moduleName = nodeNameToComponentName(nodes[0]?.name || "");
+  const tsxFileName = `${moduleName}.tsx`;
+  const cssFileName = `${moduleName}.module.css`;
+
+  const tsx = `import styles from "./${cssFileName}";\n\n${components.join("\n\n")}\n`;
+  // Variable blocks are global: pure CSS Modules only accept selectors with a local class
+  const variables = styleBlockToCSSFile(generateThemeStylesheet(context.variableMap, collectVariableModes(nodes)))
+    .replace(/^(\S[^\n]*) \{$/gm, (_, selector: string) => `:global(${selector}) {`);
+  const rules = styleBlockToCSSFile(generateStylesheet(context.rules, {}));
+  const css = [variables, rules].filter((part) => part).join("\n");
+
+  const usedVariables = Object.keys(context.variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    tsx,
+    css,
+    tsxFileName,
+    cssFileName,
+    stylesheet: tsx,
+    usedVariables: usedVariables,
+    warnings: context.warnings,
+  };
+}
@@ -0,0 +1,254 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import { VariableMap, figmaVariableToCSSVariable } from "./cssGenerator";
+import { nodeToTailwindClasses, nodeNameToTailwindClass } from "./tailwindDomGenerator";
+import { nodeNameToComponentName, propertyNameToPropName } from "./generatorHelpers";
+import { VariantCondition, groupVariantTokens } from "./variantStyles";
+
+export interface GeneratedCva {
+  ts: string;
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * cva() config of a layer: base classes plus the classes selected by the variant props.
+ */
+interface CvaConfig {
+  base: string[];
+  variants: { [prop: string]: { [value: string]: string[] } };
+  compoundVariants: { condition: { [prop: string]: string }; classes: string[] }[];
+  defaultVariants: { [prop: string]: string };
+  hasDefaultVariants: boolean; // Whether the classes depend on a variant prop (variants and defaultVariants are emitted)
+}
+
+/**
+ * cva() constants of a layer and its children, the layer's first.
+ */
+interface CvaDeclarations {
+  declarations: string[];
+  hasDefaultVariants: boolean; // Whether the layer's config has variants (see CvaConfig)
+}
+
+/**
+ * Quotes an object key when it is not a valid identifier.
+ * Examples: "sm" → sm, "Extra large" → "Extra large"
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Builds the cva() config of a layer.
+ *
+ * Classes shared by every variant form the base. Classes explained by one variant
+ * property go under variants[prop][value], the others become compoundVariants. A
+ * property is only declared on layers whose classes depend on it, with all its values
+ * (an empty string where the value adds no class), so every variant prop is accepted.
+ *
+ * @param node - The layer (node.variantStyles holds its styles per variant when they differ)
+ * @param variants - Variant values of each variant (default first), if part of a merged COMPONENT_SET
+ * @param propNames - Prop names of the variant properties, keyed by Figma property name
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ */
+function buildCvaConfig(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  variants: VariantCondition[] | undefined,
+  propNames: { [property: string]: string },
+  variableMap: VariableMap
+): CvaConfig {
+  const nameClass = nodeNameToTailwindClass(node.name);
+  const config: CvaConfig = { base: [], variants: {}, compoundVariants: [], defaultVariants: {}, hasDefaultVariants: false };
+
+  if (!variants || !node.variantStyles) {
+    config.base = [nameClass, ...nodeToTailwindClasses(node, variableMap)].filter((c) => c);
+    return config;
+  }
+
+  const classesByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+    return styles ? nodeToTailwindClasses({ ...node, styles }, variableMap) : null;
+  });
+  const groups = groupVariantTokens(classesByVariant, variants, "hidden");
+  config.base = [nameClass, ...groups.base].filter((c) => c);
+
+  // Properties the classes depend on, declared with all their values
+  const properties = Object.keys(variants[0] || {}).filter((property) => {
+    return [...groups.variants, ...groups.compoundVariants].some((group) => property in group.condition);
+  });
+  properties.forEach((property) => {
+    const prop = propNames[property];
+    config.variants[prop] = {};
+    variants.forEach((variant) => {
+      if (!(variant[property] in config.variants[prop])) {
+        config.variants[prop][variant[property]] = [];
+      }
+    });
+    config.defaultVariants[prop] = variants[0][property];
+  });
+  config.hasDefaultVariants = properties.length > 0;
+
+  groups.variants.forEach((group) => {
+    const [property, value] = Object.entries(group.condition)[0];
+    config.variants[propNames[property]][value].push(...group.tokens);
+  });
+  groups.compoundVariants.forEach((group) => {
+    const condition: { [prop: string]: string } = {};
+    Object.entries(group.condition).forEach(([property, value]) => {
+      condition[propNames[property]] = value;
+    });
+    config.compoundVariants.push({ condition, classes: group.tokens });
+  });
+
+  return config;
+}
+
+/**
+ * Formats a cva() config as the arguments of the call.
+ * Layers without variants only pass their base classes.
+ */
+function formatCvaArguments(config: CvaConfig, prettify: boolean): string {
+  const base = JSON.stringify(config.base.join(" "));
+  if (!config.hasDefaultVariants) {
+    return base;
+  }
+
+  const i1 = prettify ? "  " : "";
+  const i2 = i1.repeat(2);
+  const i3 = i1.repeat(3);
+  const block = (lines: string[], indent: string, open: string, close: string) => {
+    return prettify ? `${open}\n${lines.map((line) => `${line},`).join("\n")}\n${indent}${close}` : `${open} ${lines.join(", ")} ${close}`;
+  };
+
+  const variantLines = Object.entries(config.variants).map(([prop, values]) => {
+    const valueLines = Object.entries(values).map(([value, classes]) => `${i3}${formatKey(value)}: ${JSON.stringify(classes.join(" "))}`);
+    return `${i2}${formatKey(prop)}: ${block(valueLines, i2, "{", "}")}`;
+  });
+  const sections = [`${i1}variants: ${block(variantLines, i1, "{", "}")}`];
+
+  if (config.compoundVariants.length > 0) {
+    const compoundLines = config.compoundVariants.map(({ condition, classes }) => {
+      const entries = Object.entries(condition).map(([prop, value]) => `${formatKey(prop)}: ${JSON.stringify(value)}`);
+      return `${i2}{ ${[...entries, `class: ${JSON.stringify(classes.join(" "))}`].join(", ")} }`;
+    });
+    sections.push(`${i1}compoundVariants: ${block(compoundLines, i1, "[", "]")}`);
+  }
+
+  const defaultLines = Object.entries(config.defaultVariants).map(([prop, value]) => `${i2}${formatKey(prop)}: ${JSON.stringify(value)}`);
+  sections.push(`${i1}defaultVariants: ${block(defaultLines, i1, "{", "}")}`);
+
+  return `${base}, ${block(sections, "", "{", "}")}`;
+}
+
+/**
+ * Formats annotations as a JSDoc comment placed above a cva() constant.
+ */
+function formatAnnotations(annotations: string[] | undefined, format: AnnotationFormat): string {
+  if (format === "none" || !annotations || annotations.length === 0) {
+    return "";
+  }
+  return `/**\n${annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`;
+}
+
+/**
+ * Recursively generates the cva() constants of a layer and its children.
+ * Constants are named after the component and the layer (e.g., "buttonLabel").
+ */
+function generateCvaRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  constName: string,
+  rootName: string,
+  variants: VariantCondition[] | undefined,
+  propNames: { [property: string]: string },
+  usedNames: Set<string>,
+  variableMap: VariableMap,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): CvaDeclarations {
+  const config = buildCvaConfig(node, variants, propNames, variableMap);
+  const declarations = [
+    `${formatAnnotations(node.annotations, annotationFormat)}export const ${constName} = cva(${formatCvaArguments(config, prettify)});`,
+  ];
+
+  // Vectors are exported as SVG markup, their children have no classes of their own
+  if (node.svg) {
+    return { declarations, hasDefaultVariants: config.hasDefaultVariants };
+  }
+
+  (node.children || []).forEach((child) => {
+    const baseName = `${rootName}${nodeNameToComponentName(child.name, "Layer")}`;
+    let childName = baseName;
+    for (let suffix = 2; usedNames.has(childName); suffix++) {
+      childName = `${baseName}${suffix}`;
+    }
+    usedNames.add(childName);
+    declarations.push(...generateCvaRecursive(child, childName, rootName, variants, propNames, usedNames, variableMap, annotationFormat, prettify).declarations);
+  });
+
+  return { declarations, hasDefaultVariants: config.hasDefaultVariants };
+}
+
+/**
+ * Generates class-variance-authority (cva) configs from extracted nodes.
+ *
+ * Every layer gets an exported cva() constant holding its Tailwind classes, named after
+ * the component and the layer (button, buttonLabel, ...). For a merged COMPONENT_SET,
+ * the classes that differ between variants are keyed by the Figma variant properties:
+ * - base: classes common to all variants
+ * - variants: { size: { sm: "...", lg: "..." } }, camelCased like the React props
+ * - compoundVariants: classes that only apply to a combination of values
+ * - defaultVariants: the values of the set's default variant
+ * A layer missing from some variants gets the `hidden` class in those variants.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits JSDoc comments
+ * @param prettify - Whether to format the configs over several lines (true) or keep them compact (false)
+ * @returns GeneratedCva object with the TypeScript module and used variables
+ */
+export function generateCvaVariants(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "tsx",
+  prettify: boolean = true
+): GeneratedCva {
+  const variableMap: VariableMap = {};
+  const usedNames = new Set<string>();
+  let hasVariants = false;
+
+  const modules = nodes.map((node) => {
+    const pascalName = nodeNameToComponentName(node.name);
+    const baseName = /^[0-9]/.test(pascalName) ? `component${pascalName}` : pascalName[0].toLowerCase() + pascalName.slice(1);
+    let constName = baseName;
+    for (let suffix = 2; usedNames.has(constName); suffix++) {
+      constName = `${baseName}${suffix}`;
+    }
+    usedNames.add(constName);
+
+    const propNames: { [property: string]: string } = {};
+    Object.keys(node.variants?.[0] || {}).forEach((property) => {
+      propNames[property] = propertyNameToPropName(property);
+    });
+
+    const { declarations, hasDefaultVariants } = generateCvaRecursive(node, constName, constName, node.variants, propNames, usedNames, variableMap, annotationFormat, prettify);
+    if (hasDefaultVariants) {
+      hasVariants = true;
+      const typeName = `${constName[0].toUpperCase()}${constName.slice(1)}Variants`;
+      declarations.splice(1, 0, `export type ${typeName} = VariantProps<typeof ${constName}>;`);
+    }
+    return declarations.join(prettify ? "\n\n" : "\n");
+  });
+
+  const imports = hasVariants
+    ? `import { cva, type VariantProps } from "class-variance-authority";`
+    : `import { cva } from "class-variance-authority";`;
+  const ts = `${imports}\n\n${modules.join(prettify ? "\n\n" : "\n")}\n`;
+
+  const usedVariables = Object.keys(variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    ts,
+    stylesheet: ts,
+    usedVariables: usedVariables,
+  };
+}
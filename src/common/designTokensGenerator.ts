@@ -0,0 +1,187 @@
+import { TokenVariable } from "@plugin/extractors/styleExtractor";
+import { OutputFile } from "@common/networkSides";
+import { figmaVariableToCSSVariable, modeNameToThemeName } from "./cssGenerator";
+
+export interface GeneratedDesignTokens {
+  json: string; // DTCG tokens with the default-mode values
+  files: OutputFile[]; // One DTCG file per other mode (e.g., design-tokens.dark.json)
+  fileName: string; // "design-tokens.json"
+  stylesheet: string;
+  usedVariables: string[]; // CSS variable names of the exported variables
+}
+
+/**
+ * DTCG $type of each Figma resolvedType.
+ */
+const TOKEN_TYPES: { [resolvedType: string]: string } = {
+  COLOR: "color",
+  FLOAT: "number",
+  STRING: "string",
+  BOOLEAN: "boolean",
+};
+
+/**
+ * Splits a Figma variable name into the group path of its token.
+ * Dots and braces are reserved by token references, so they are replaced with dashes.
+ * Examples: "color/button/bg" → ["color", "button", "bg"], "space/0.5" → ["space", "0-5"]
+ *
+ * @param variableName - Slash-separated Figma variable name
+ * @returns Group names followed by the token name
+ */
+export function variableNameToTokenPath(variableName: string): string[] {
+  return variableName
+    .split("/")
+    .map((segment) => segment.trim().replace(/[.{}]/g, "-").replace(/^\$/, ""))
+    .filter((segment) => segment);
+}
+
+/**
+ * Converts a Figma variable name to a token reference.
+ * Example: "color/blue/500" → "{color.blue.500}"
+ */
+export function variableNameToTokenReference(variableName: string): string {
+  return `{${variableNameToTokenPath(variableName).join(".")}}`;
+}
+
+/**
+ * Returns the DTCG $type of a Figma variable type ("number" for unknown types).
+ */
+export function resolvedTypeToTokenType(resolvedType: string): string {
+  return TOKEN_TYPES[resolvedType] || "number";
+}
+
+/**
+ * Converts a raw Figma variable value to a token value.
+ *
+ * - Colors ({ r, g, b, a } in 0-1) become hex strings, with an alpha channel below full opacity
+ * - Numbers are rounded to 4 decimals (Figma stores floats, e.g. 0.30000001192092896)
+ * - Aliases ({ alias: "<variable name>" }) become references: "{color.blue.500}" by default
+ *
+ * @param value - Raw value from TokenVariable.valuesByMode
+ * @param toReference - Converts the name of an aliased variable to a reference (defaults to DTCG references)
+ * @returns The token value
+ */
+export function variableValueToTokenValue(
+  value: any,
+  toReference: (variableName: string) => string = variableNameToTokenReference
+): any {
+  if (value && typeof value === "object" && typeof value.alias === "string") {
+    return toReference(value.alias);
+  }
+  if (value && typeof value === "object" && "r" in value && "g" in value && "b" in value) {
+    const toHex = (n: number) => Math.round(n * 255).toString(16).padStart(2, "0");
+    const alpha = value.a !== undefined && value.a < 1 ? toHex(value.a) : "";
+    return `#${toHex(value.r)}${toHex(value.g)}${toHex(value.b)}${alpha}`;
+  }
+  if (typeof value === "number") {
+    return Math.round(value * 10000) / 10000;
+  }
+  return value;
+}
+
+/**
+ * Returns the value of a variable in a mode, falling back to its default mode
+ * when its collection has no mode with that name.
+ */
+export function getTokenModeValue(variable: TokenVariable, modeName: string): any {
+  return modeName in variable.valuesByMode ? variable.valuesByMode[modeName] : variable.valuesByMode[variable.defaultMode];
+}
+
+/**
+ * Returns the modes that are not the default mode of their collection, in order of appearance.
+ * Mode names shared by several collections (e.g., "Dark") are listed once.
+ */
+export function getOtherModeNames(variables: TokenVariable[]): string[] {
+  const modeNames: string[] = [];
+  variables.forEach((variable) => {
+    variable.modes.forEach((modeName) => {
+      if (modeName !== variable.defaultMode && !modeNames.includes(modeName)) {
+        modeNames.push(modeName);
+      }
+    });
+  });
+  return modeNames;
+}
+
+/**
+ * Places a value in nested groups, creating the groups of the path as needed.
+ * A token and a group sharing a name are merged into the same object.
+ *
+ * @param root - Object holding the top-level groups
+ * @param path - Group names followed by the key of the value
+ * @param value - Value to place
+ */
+export function setTokenAtPath(root: { [key: string]: any }, path: string[], value: any) {
+  let group = root;
+  path.slice(0, -1).forEach((segment) => {
+    if (!group[segment] || typeof group[segment] !== "object") {
+      group[segment] = {};
+    }
+    group = group[segment];
+  });
+  const key = path[path.length - 1];
+  group[key] = group[key] && typeof group[key] === "object" ? { ...group[key], ...value } : value;
+}
+
+/**
+ * Builds the DTCG token tree of one mode: each variable becomes a token nested in the
+ * groups of its slash path, with $type, $value and $description.
+ */
+function buildTokenTree(variables: TokenVariable[], modeName: string | undefined): { [key: string]: any } {
+  const tree: { [key: string]: any } = {};
+  variables.forEach((variable) => {
+    const path = variableNameToTokenPath(variable.name);
+    if (path.length === 0) return;
+    const value = getTokenModeValue(variable, modeName || variable.defaultMode);
+    if (value === undefined) return;
+    setTokenAtPath(tree, path, {
+      $type: resolvedTypeToTokenType(variable.resolvedType),
+      $value: variableValueToTokenValue(value),
+      ...(variable.description ? { $description: variable.description } : {}),
+    });
+  });
+  return tree;
+}
+
+/**
+ * Generates W3C Design Tokens Community Group (DTCG) JSON from Figma variables.
+ *
+ * TOKEN TREE:
+ * Variables are grouped by the slash path of their name ("color/button/bg" →
+ * { color: { button: { bg: {...} } } }). Each token has a $type derived from the variable's
+ * resolvedType, a $value and, when the variable has one, a $description. Values that are
+ * aliases of other variables are references to their token ("{color.blue.500}").
+ *
+ * MODES:
+ * DTCG has no modes, so each mode is a separate file holding every token:
+ * - The main file (design-tokens.json) holds the default mode of every collection
+ * - design-tokens.<mode>.json holds the values of that mode; variables of collections
+ *   without that mode keep their default value, so references always resolve
+ *
+ * @param variables - Variables to export (see getTokenVariables)
+ * @param prettify - Whether to indent the JSON (true) or write it on one line (false)
+ * @returns GeneratedDesignTokens object with the default-mode JSON, the other mode files and used variables
+ */
+export function generateDesignTokens(
+  variables: TokenVariable[],
+  prettify: boolean = true
+): GeneratedDesignTokens {
+  const stringify = (tree: { [key: string]: any }) => `${JSON.stringify(tree, null, prettify ? 2 : undefined)}\n`;
+  const json = stringify(buildTokenTree(variables, undefined));
+
+  // Every mode that is not the default mode of its collection gets its own file
+  const files = getOtherModeNames(variables).map((modeName) => ({
+    name: `design-tokens.${modeNameToThemeName(modeName) || "mode"}.json`,
+    content: stringify(buildTokenTree(variables, modeName)),
+  }));
+
+  const usedVariables = [...new Set(variables.map((variable) => figmaVariableToCSSVariable(variable.name)))].sort();
+
+  return {
+    json,
+    files,
+    fileName: "design-tokens.json",
+    stylesheet: json,
+    usedVariables,
+  };
+}
@@ -1,40 +1,41 @@
 import { ExtractedNode } from "@plugin/extractors/componentTraverser";
-import { VariableMap, layoutToCSS, typographyToCSS, fillsToCSS, strokesToCSS, effectsToCSS, figmaVariableToCSSVariable } from "./cssGenerator";
+import {
+  CSSRule,
+  VariableMap,
+  layoutToCSS,
+  typographyToCSS,
+  fillsToCSS,
+  strokesToCSS,
+  effectsToCSS,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateThemeStylesheet,
+  generateStylesheet,
+  generateClassName,
+  styleBlockToCSSFile,
+  getSVGColorBindings,
+  getImageElementFill,
+  imageScaleModeToObjectFit,
+} from "./cssGenerator";
 import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
-import { AnnotationFormat } from "@common/networkSides";
+import { AnnotationFormat, CSSOutputOptions, ExtractionWarning } from "@common/networkSides";
+import { VariantCondition, VariantTokens, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+import {
+  escapeHTML,
+  generateRichText,
+  formatAnnotation,
+  generateInlineSVG,
+  svgColorToStyleAttribute,
+} from "./generatorHelpers";
 
 export interface GeneratedDOM {
   html: string;
   css: string;
+  cssFile?: string; // Separate stylesheet (class-based output with stylesheetTarget "file")
+  cssFileName?: string; // Name of the separate stylesheet, as linked by the HTML
   stylesheet: string;
   usedVariables: string[]; // List of unique variable names used
-}
-
-/**
- * Formats an annotation string based on the specified format.
- * 
- * @param annotation - The annotation text to format
- * @param format - The annotation format: "html", "tsx", or "none"
- * @param indent - The indentation string
- * @returns Formatted annotation string or empty string if format is "none"
- */
-function formatAnnotation(annotation: string, format: AnnotationFormat, indent: string): string {
-  if (format === "none") {
-    return "";
-  }
-  
-  // Escape special characters
-  const escapedAnnotation = annotation
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-  
-  if (format === "tsx") {
-    return `${indent}{/* ${escapedAnnotation} */}\n`;
-  }
-  
-  // Default to HTML format
-  return `${indent}<!-- ${escapedAnnotation} -->\n`;
+  warnings: ExtractionWarning[]; // Layers left out because they failed to generate
 }
 
 /**
@@ -110,10 +111,12 @@ function isUselessProperty(property: string): boolean {
 /**
  * Filters out CSS properties with useless (zero/default) values.
  * 
+ * Shared by the generators that build their own rules from nodeToCSSProperties (e.g., CSS Modules).
+ * 
  * @param properties - Array of CSS property strings
  * @returns Filtered array with useless properties removed
  */
-function filterUselessProperties(properties: string[]): string[] {
+export function filterUselessProperties(properties: string[]): string[] {
   return properties.filter(prop => !isUselessProperty(prop));
 }
 
@@ -140,6 +143,7 @@ function propertiesToInlineStyle(properties: string[]): string {
  * @param inlineStyle - The inline style string to include
  * @param indent - Indentation level for formatting
  * @param prettify - Whether to format with newlines or keep compact
+ * @param elementAttrs - Element-specific attributes placed before style (e.g., src and alt of <img>)
  * @returns Formatted attributes string
  */
 function generateAttributes(
@@ -147,7 +151,8 @@ function generateAttributes(
   nodeType: string,
   inlineStyle: string,
   indent: number,
-  prettify: boolean
+  prettify: boolean,
+  elementAttrs: string[] = []
 ): string {
   const indentStr = "  ".repeat(indent);
   const attrs: string[] = [];
@@ -157,6 +162,8 @@ function generateAttributes(
   
   // data-type second
   attrs.push(`data-type="${nodeType.toLowerCase()}"`);
+
+  attrs.push(...elementAttrs);
   
   // style last
   if (inlineStyle) {
@@ -182,6 +189,242 @@ function generateAttributes(
   }
 }
 
+/**
+ * Converts the style of a text range to CSS properties (typography plus text color).
+ * 
+ * Only the raw values that can differ between segments are used (generateRichText
+ * passes the ones a segment overrides).
+ * 
+ * @param style - Typography and fills overridden by a text range
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @returns Array of CSS property strings (e.g., ["font-weight: 700", "color: #2563eb"])
+ */
+function textRangeToCSS(style: any, variableMap: VariableMap): string[] {
+  const properties = typographyToCSS({
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fontWeight: style.fontWeight,
+    textDecoration: style.textDecoration,
+    textCase: style.textCase,
+  }, variableMap);
+
+  // Fills of text ranges are text colors, not backgrounds
+  fillsToCSS(style.fills, variableMap).forEach((property) => {
+    if (property.startsWith("background-color: ")) {
+      properties.push(property.replace("background-color: ", "color: "));
+    }
+  });
+
+  return properties;
+}
+
+/**
+ * Generates rich text content from the styled segments of a TEXT node, with
+ * `style` attributes holding the properties a segment overrides (see generateRichText).
+ * 
+ * Shared by the generators whose markup is HTML (e.g., Vue templates).
+ * 
+ * @param styles - Extracted styles of the TEXT node (typography.segments must be set)
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @param escapeText - Escaping of the text: HTML (default) or the template syntax of the framework
+ * @returns HTML string with nested inline elements
+ */
+export function generateRichTextContent(
+  styles: ExtractedStyles,
+  variableMap: VariableMap,
+  escapeText: (text: string) => string = escapeHTML
+): string {
+  return generateRichText(styles, {
+    rangeToTokens: (style) => textRangeToCSS(style, variableMap),
+    boldToken: "font-weight: 700",
+    attribute: (properties) => properties.length > 0 ? ` style="${properties.join("; ").replace(/"/g, "&quot;")}"` : "",
+    escapeText,
+  });
+}
+
+/**
+ * Converts the styles of a node to CSS properties (before zero-value filtering).
+ * 
+ * Shared by the generators that build their own markup around the properties
+ * (e.g., CSS Modules components).
+ * 
+ * @param node - The extracted node with optional styles
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @returns Array of CSS property strings (empty if the node has no styles)
+ */
+export function nodeToCSSProperties(node: ExtractedNode & { styles?: ExtractedStyles }, variableMap: VariableMap): string[] {
+  if (!node.styles) return [];
+
+  try {
+    const properties: string[] = [];
+    const imageFill = getImageElementFill(node);
+    properties.push(...layoutToCSS(node.styles.layout, variableMap));
+    if (node.svg) {
+      // Fills and strokes of vectors are part of the SVG markup
+      // A single color variable is passed to the SVG through currentColor
+      const svgVariables = [...new Set(getSVGColorBindings(node.styles, variableMap).map((binding) => binding.variable))];
+      if (svgVariables.length === 1) {
+        properties.push(`color: var(${figmaVariableToCSSVariable(svgVariables[0])})`);
+      }
+    } else {
+      properties.push(...typographyToCSS(node.styles.typography, variableMap));
+      if (imageFill) {
+        // The image is the <img> content, scaled like the Figma paint
+        properties.push(`object-fit: ${imageScaleModeToObjectFit(imageFill.scaleMode)}`);
+      } else {
+        properties.push(...fillsToCSS(node.styles.fills, variableMap));
+      }
+      properties.push(...strokesToCSS(node.styles.strokes, variableMap));
+    }
+    properties.push(...effectsToCSS(node.styles.effects));
+    
+    if (node.styles.visible === false) {
+      properties.push("display: none");
+    }
+    
+    return properties;
+  } catch (cssError) {
+    console.warn("Error generating inline styles", { 
+      nodeType: node.type,
+      nodeName: node.name,
+      error: cssError instanceof Error ? cssError.message : String(cssError)
+    });
+    return [];
+  }
+}
+
+/**
+ * State shared by the layers of a merged COMPONENT_SET while generating its HTML.
+ */
+interface VariantContext {
+  variants: VariantCondition[]; // Variant values of each variant (default first)
+  rootClass: string; // Class of the component root (e.g., "button")
+  classNames: Set<string>; // Layer classes already used in the component
+  rules: CSSRule[]; // Modifier rules collected for the stylesheet
+}
+
+/**
+ * Converts a node name to a CSS class name.
+ * Examples: "Button" → "button", "Icon / Leading" → "icon-leading"
+ */
+function nodeNameToClassName(nodeName: string): string {
+  return nodeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Returns a BEM element class for a layer of a variant-aware component, unique within
+ * the component (e.g., "button__label", "button__label-2").
+ */
+function uniqueLayerClassName(node: ExtractedNode, context: VariantContext): string {
+  const baseName = `${context.rootClass}__${nodeNameToClassName(node.name) || node.type.toLowerCase()}`;
+  let className = baseName;
+  for (let suffix = 2; context.classNames.has(className); suffix++) {
+    className = `${baseName}-${suffix}`;
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Generates the modifier rules of a layer from its variant token groups.
+ * 
+ * Conditions are data attribute selectors on the component root, so switching
+ * `data-size="lg"` on the root restyles every layer:
+ * - Root: .button[data-size="lg"] { ... }
+ * - Layer: .button[data-size="lg"] .button__label { ... }
+ * 
+ * @param rootClass - Class of the component root
+ * @param layerClass - Class of the layer (null for the root itself)
+ * @param groups - Tokens of the layer grouped by variant condition
+ * @returns CSS rules for the single-property and compound conditions
+ */
+export function generateVariantRules(rootClass: string, layerClass: string | null, groups: VariantTokens): CSSRule[] {
+  return [...groups.variants, ...groups.compoundVariants].map((group) => {
+    const condition = Object.entries(group.condition)
+      .map(([property, value]) => `[${variantPropertyToDataAttribute(property)}="${value.replace(/"/g, '\\"')}"]`)
+      .join("");
+    return {
+      selector: layerClass ? `.${rootClass}${condition} .${layerClass}` : `.${rootClass}${condition}`,
+      properties: group.tokens,
+    };
+  });
+}
+
+/**
+ * State shared by all nodes while generating class-based HTML (CSS output with styleMode "classes").
+ */
+interface ClassContext {
+  naming: CSSOutputOptions["classNaming"];
+  block: string; // BEM block of the enclosing component (e.g., "card"), empty at the root
+  classNames: Set<string>; // Classes already used in the output
+  rules: CSSRule[]; // Rules of the stylesheet, in document order
+  rulesByBody: { [body: string]: CSSRule }; // Rules keyed by their properties, to group identical bodies
+}
+
+/**
+ * Hashes a string to a short base-36 identifier (djb2).
+ */
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Returns the class of a node for the selected naming strategy:
+ * - bem: "card" for components and instances (they start a block), "card__title" for their layers
+ * - type: generateClassName's type-prefixed name (e.g., "text-title")
+ * - hash: "c-<hash of the rule body>", shared by every node with the same properties
+ * BEM and type names get a numeric suffix when already used (e.g., "card__title-2", "text-title-1").
+ * 
+ * @param node - The extracted node
+ * @param body - The node's CSS properties joined (used by the hash strategy)
+ * @param startsBlock - Whether the node starts a BEM block
+ * @param context - Class context of the output
+ */
+function nodeClassName(node: ExtractedNode, body: string, startsBlock: boolean, context: ClassContext): string {
+  if (context.naming === "hash") {
+    return `c-${hashString(body)}`;
+  }
+
+  const layerName = nodeNameToClassName(node.name) || node.type.toLowerCase();
+  let className = "";
+  if (context.naming === "type") {
+    for (let index = 0; !className || context.classNames.has(className); index++) {
+      className = generateClassName(node.name, node.type, index);
+    }
+  } else {
+    const baseName = startsBlock ? layerName : `${context.block}__${layerName}`;
+    className = baseName;
+    for (let suffix = 2; context.classNames.has(className); suffix++) {
+      className = `${baseName}-${suffix}`;
+    }
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Adds the rule of a class to the stylesheet.
+ * A class whose properties match an existing rule is added to that rule's selector
+ * (e.g., ".card__title, .card__subtitle { ... }") instead of repeating the body.
+ */
+function addClassRule(className: string, properties: string[], context: ClassContext): void {
+  const body = properties.join(";\n");
+  const rule = context.rulesByBody[body];
+  if (!rule) {
+    context.rulesByBody[body] = { selector: `.${className}`, properties };
+    context.rules.push(context.rulesByBody[body]);
+  } else if (!rule.selector.split(", ").includes(`.${className}`)) {
+    rule.selector += `, .${className}`;
+  }
+}
+
 /**
  * Recursively generates HTML from an extracted node tree with inline styles.
  * 
@@ -193,6 +436,9 @@ function generateAttributes(
  * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
  * @param prettify - Whether to format with indentation or keep compact
  * @param indent - Current indentation level for formatting (default: 0)
+ * @param variantContext - Set for the layers of a merged COMPONENT_SET (collects modifier rules)
+ * @param warnings - Extraction warnings (layers that fail to generate are added to it)
+ * @param classContext - Set for class-based output (collects the rules of the node classes)
  * @returns HTML string for this node and its children
  */
 function generateHTMLRecursive(
@@ -200,37 +446,71 @@ function generateHTMLRecursive(
   variableMap: VariableMap,
   annotationFormat: AnnotationFormat,
   prettify: boolean,
-  indent: number = 0
+  indent: number = 0,
+  variantContext?: VariantContext,
+  warnings?: ExtractionWarning[],
+  classContext?: ClassContext
 ): string {
   try {
     const indentStr = prettify ? "  ".repeat(indent) : "";
     const newline = prettify ? "\n" : "";
+    const imageFill = getImageElementFill(node);
+    const elementAttrs: string[] = [];
     let inlineStyle = "";
+    let className = "";
+    const startsBlock = !!classContext && (!classContext.block || ["COMPONENT", "COMPONENT_SET", "INSTANCE"].includes(node.type));
 
-    // Generate inline styles if styles exist
-    if (node.styles) {
-      try {
-        const properties: string[] = [];
-        properties.push(...layoutToCSS(node.styles.layout, variableMap));
-        properties.push(...typographyToCSS(node.styles.typography, variableMap));
-        properties.push(...fillsToCSS(node.styles.fills, variableMap));
-        properties.push(...strokesToCSS(node.styles.strokes, variableMap));
-        properties.push(...effectsToCSS(node.styles.effects));
-        
-        if (node.styles.visible === false) {
-          properties.push("display: none");
-        }
-        
-        inlineStyle = propertiesToInlineStyle(properties);
-      } catch (cssError) {
-        console.warn("Error generating inline styles", { 
-          nodeType: node.type,
-          nodeName: node.name,
-          error: cssError instanceof Error ? cssError.message : String(cssError)
+    if (variantContext && (node.variants || node.variantStyles)) {
+      // Variant-aware component: the root carries the default variant values as data attributes,
+      // styles that differ between variants become modifier rules targeting the layer's class
+      const isRoot = !!node.variants;
+      className = isRoot ? variantContext.rootClass : uniqueLayerClassName(node, variantContext);
+      if (isRoot) {
+        Object.entries(variantContext.variants[0] || {}).forEach(([property, value]) => {
+          elementAttrs.push(`${variantPropertyToDataAttribute(property)}="${escapeHTML(value)}"`);
         });
       }
+      elementAttrs.push(`class="${className}"`);
+
+      let baseProperties: string[];
+      if (node.variantStyles) {
+        const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+          return styles ? filterUselessProperties(nodeToCSSProperties({ ...node, styles }, variableMap)) : null;
+        });
+        // !important: a hidden layer must win over the display of its inline style
+        const groups = groupVariantTokens(tokensByVariant, variantContext.variants, "display: none !important");
+        baseProperties = groups.base;
+        variantContext.rules.push(...generateVariantRules(variantContext.rootClass, isRoot ? null : className, groups));
+      } else {
+        baseProperties = filterUselessProperties(nodeToCSSProperties(node, variableMap));
+      }
+
+      // Class-based output: the base styles become the rule of the layer's class
+      if (classContext && baseProperties.length > 0) {
+        addClassRule(className, baseProperties, classContext);
+      } else if (!classContext) {
+        inlineStyle = baseProperties.join("; ");
+      }
+    } else if (classContext) {
+      // Class-based output: the styles become the rule of the node's class
+      // (hashed names are derived from the styles, so nodes without styles get no class)
+      const properties = filterUselessProperties(nodeToCSSProperties(node, variableMap));
+      if (properties.length > 0 || classContext.naming !== "hash") {
+        className = nodeClassName(node, properties.join(";\n"), startsBlock, classContext);
+        elementAttrs.push(`class="${className}"`);
+      }
+      if (properties.length > 0) {
+        addClassRule(className, properties, classContext);
+      }
+    } else {
+      inlineStyle = propertiesToInlineStyle(nodeToCSSProperties(node, variableMap));
     }
 
+    // The layers of a component or instance are BEM elements of its block
+    const childClassContext = classContext && className && (startsBlock || node.variants)
+      ? { ...classContext, block: className }
+      : classContext;
+
     // Add annotations before the element (format depends on annotationFormat)
     let html = "";
     if (node.annotations && node.annotations.length > 0) {
@@ -239,8 +519,17 @@ function generateHTMLRecursive(
       });
     }
 
-    const element = nodeTypeToHTMLElement(node.type, node.type === "TEXT");
-    const attributes = generateAttributes(node.name, node.type, inlineStyle, indent, prettify);
+    const element = imageFill ? "img" : nodeTypeToHTMLElement(node.type, node.type === "TEXT");
+    if (imageFill) {
+      elementAttrs.push(`src="${imageFill.src}"`, `alt="${escapeHTML(node.name)}"`);
+    }
+    const attributes = generateAttributes(node.name, node.type, inlineStyle, indent, prettify, elementAttrs);
+
+    // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+    if (node.svg) {
+      html += generateInlineSVG(node, variableMap, attributes, indentStr, prettify, { shapeColor: svgColorToStyleAttribute });
+      return html;
+    }
 
     // Build opening tag
     const openingTag = prettify 
@@ -255,10 +544,14 @@ function generateHTMLRecursive(
     if (hasChildren || hasText) {
       html += `>`;
       
-      // Add text content if it's a text node
+      // Add text content if it's a text node (rich text when ranges are styled differently)
       if (hasText) {
-        const textContent = (node as any).characters || node.name || "";
-        html += escapeHTML(textContent);
+        if (node.styles?.typography?.segments) {
+          html += generateRichTextContent(node.styles, variableMap);
+        } else {
+          const textContent = (node as any).characters || node.name || "";
+          html += escapeHTML(textContent);
+        }
       }
 
       // Add children
@@ -276,7 +569,10 @@ function generateHTMLRecursive(
               variableMap,
               annotationFormat,
               prettify,
-              indent + 1
+              indent + 1,
+              variantContext,
+              warnings,
+              childClassContext
             );
             if (prettify && node.children && i < node.children.length - 1) {
               html += newline;
@@ -288,6 +584,13 @@ function generateHTMLRecursive(
               childName: child.name,
               error: childError instanceof Error ? childError.message : String(childError)
             });
+            warnings?.push({
+              nodeId: child.id,
+              nodeName: child.name,
+              code: "NODE_GENERATION_FAILED",
+              message: `Could not generate the HTML of this layer, it is missing from the output: ${childError instanceof Error ? childError.message : String(childError)}`,
+              severity: "error",
+            });
           }
         });
         if (prettify) {
@@ -312,45 +615,41 @@ function generateHTMLRecursive(
   }
 }
 
-/**
- * Escapes HTML special characters to prevent XSS and ensure valid HTML.
- * 
- * @param text - Text content to escape
- * @returns Escaped text with HTML entities (e.g., "&" -> "&amp;")
- */
-function escapeHTML(text: string): string {
-  const map: { [key: string]: string } = {
-    "&": "&amp;",
-    "<": "&lt;",
-    ">": "&gt;",
-    '"': "&quot;",
-    "'": "&#039;",
-  };
-  return text.replace(/[&<>"']/g, (m) => map[m]);
-}
-
 /**
  * Generates complete DOM structure from extracted nodes with inline styles.
  * 
  * This is the main entry point for HTML generation. It:
  * 1. Collects all CSS variables by processing styles (populates variableMap)
  * 2. Generates HTML for each node with inline styles using CSS variables
- * 3. Returns HTML with formatted structure (no style block header)
+ * 3. Generates a <style> block with a :root block for the default mode and a
+ *    [data-theme="<mode>"] override block for each other variable mode
+ * 
+ * Merged COMPONENT_SETs are generated once: the root gets the default variant as data
+ * attributes (e.g., data-size="sm"), and styles that differ between variants become
+ * modifier rules in the <style> block (e.g., .button[data-size="lg"] .button__label).
  * 
  * The output is HTML elements with inline styles. CSS variables are used in inline
  * styles (e.g., `var(--variable-name)`). Zero-value properties are filtered out.
  * 
+ * With cssOptions.styleMode "classes", each node gets a class instead (named by
+ * cssOptions.classNaming) and its styles become a rule of the stylesheet. Identical rule
+ * bodies are emitted once with grouped selectors. The stylesheet is either a <style> block
+ * before the HTML, or a separate .css file (cssFile) linked by the HTML.
+ * 
  * @param nodes - Array of extracted nodes with styles
  * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
  * @param prettify - Whether to format with indentation (true) or keep compact (false)
- * @returns GeneratedDOM object with html, css (variables block), and stylesheet (combined output)
+ * @param cssOptions - Inline styles (default) or class-based output with its naming and stylesheet target
+ * @returns GeneratedDOM object with html, css (themed variables block), and stylesheet (combined output)
  */
 export function generateDOM(
   nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
   annotationFormat: AnnotationFormat = "html",
-  prettify: boolean = true
+  prettify: boolean = true,
+  cssOptions?: CSSOutputOptions
 ): GeneratedDOM {
   const variableMap: VariableMap = {};
+  const warnings: ExtractionWarning[] = [];
 
   // First pass: collect all CSS variables by generating styles
   // This populates variableMap which is used for CSS variable references in inline styles
@@ -364,10 +663,28 @@ export function generateDOM(
     }
   });
 
-  // Generate HTML for all nodes with inline styles
+  // Modifier rules of variant-aware components (merged COMPONENT_SETs)
+  const variantRules: CSSRule[] = [];
+
+  // Rules of the node classes (class-based output only)
+  // Variant-aware components share its class names, so BEM names stay unique
+  const classContext: ClassContext | undefined = cssOptions?.styleMode === "classes"
+    ? { naming: cssOptions.classNaming, block: "", classNames: new Set(), rules: [], rulesByBody: {} }
+    : undefined;
+
+  // Generate HTML for all nodes (inline styles, or classes in class-based output)
   const htmlParts = nodes.map((node, index) => {
     try {
-      const html = generateHTMLRecursive(node, variableMap, annotationFormat, prettify, 0);
+      const variantContext: VariantContext | undefined = node.variants
+        ? { variants: node.variants, rootClass: nodeNameToClassName(node.name) || "component", classNames: classContext?.classNames || new Set(), rules: variantRules }
+        : undefined;
+      if (variantContext && classContext) {
+        for (let suffix = 2; classContext.classNames.has(variantContext.rootClass); suffix++) {
+          variantContext.rootClass = `${nodeNameToClassName(node.name) || "component"}-${suffix}`;
+        }
+        classContext.classNames.add(variantContext.rootClass);
+      }
+      const html = generateHTMLRecursive(node, variableMap, annotationFormat, prettify, 0, variantContext, warnings, classContext);
       return html;
     } catch (error) {
       console.error("Error generating HTML for node", { 
@@ -380,10 +697,26 @@ export function generateDOM(
     }
   });
 
-  const html = htmlParts.join(prettify ? "\n\n" : "");
-  
-  // Final output: HTML with inline styles only (no style block)
-  const stylesheet = html;
+  let html = htmlParts.join(prettify ? "\n\n" : "");
+
+  // Variables block: :root for the default mode plus a [data-theme] block per other mode
+  // Class rules and the modifier rules of variant-aware components follow the variables
+  const rules = [...(classContext?.rules || []), ...variantRules];
+  const css = rules.length > 0
+    ? generateStylesheet(rules, variableMap, collectVariableModes(nodes))
+    : generateThemeStylesheet(variableMap, collectVariableModes(nodes));
+
+  // Separate stylesheet: the HTML links it instead of embedding the <style> block
+  let cssFile: string | undefined;
+  let cssFileName: string | undefined;
+  if (classContext && cssOptions?.stylesheetTarget === "file") {
+    cssFile = styleBlockToCSSFile(css);
+    cssFileName = `${nodeNameToClassName(nodes[0]?.name || "") || "styles"}.css`;
+    html = `<link rel="stylesheet" href="${cssFileName}" />${prettify ? "\n\n" : "\n"}${html}`;
+  }
+
+  // Final output: variables block (if any) followed by HTML with inline styles
+  const stylesheet = css && !cssFile ? `${css}${prettify ? "\n\n" : "\n"}${html}` : html;
 
   // Extract unique variable names from variableMap and convert to CSS variable format
   // Format: "var(--variable-name)" for display in UI
@@ -393,9 +726,11 @@ export function generateDOM(
 
   return {
     html,
-    css: "", // No CSS block needed
+    css,
+    cssFile,
+    cssFileName,
     stylesheet: stylesheet,
     usedVariables: usedVariables,
+    warnings,
   };
 }
-
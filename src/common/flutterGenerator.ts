@@ -0,0 +1,592 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import { figmaVariableToCSSVariable, collectVariableModes, getSVGColorBindings } from "./cssGenerator";
+import { nodeNameToComponentName } from "./generatorHelpers";
+
+export interface GeneratedFlutter {
+  dart: string;
+  tokens: string; // AppTokens class (one constant per variable, plus the values of the other modes)
+  tokensFileName: string; // "app_tokens.dart"
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * Dart type of a token constant, deciding how its values are written.
+ */
+type DartValueKind = "color" | "double" | "weight" | "string";
+
+/**
+ * Constant of the AppTokens class holding a Figma variable.
+ */
+interface DartToken {
+  name: string; // Constant name (e.g., "fillPrimary")
+  kind: DartValueKind;
+  value: string; // Default-mode value as Dart code (e.g., "Color(0xFF2563EB)", "16.0")
+}
+
+/**
+ * State shared while generating the widgets of the selected nodes.
+ */
+interface FlutterContext {
+  tokens: { [figmaVarName: string]: DartToken }; // Token constants keyed by Figma variable name
+  widgetNames: Set<string>; // Names of the generated widget classes
+  usesSvg: boolean; // Whether an SvgPicture is rendered (imported from flutter_svg)
+}
+
+/**
+ * A widget constructor call: named arguments plus an optional child or children list.
+ * Strings in `children` are comments (e.g., hidden layers).
+ */
+interface DartWidget {
+  name: string; // Constructor (e.g., "Row", "Image.asset")
+  args: string[]; // Arguments (e.g., "'Label'", "width: 100"); lines after the first are relative to the call
+  child?: DartWidget;
+  children?: (DartWidget | string)[];
+  comments?: string[]; // Comment lines written before the widget (annotations)
+}
+
+const INDENT = "  ";
+
+/**
+ * FontWeight constant of each numeric font weight.
+ */
+const FONT_WEIGHTS: { [style: string]: number } = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+/**
+ * Converts a name to a camelCase Dart identifier (token constants).
+ * Examples: "--spacing-4" → "spacing4", "Dark" → "dark"
+ */
+function nameToIdentifier(name: string, fallback: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word);
+  const identifier = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}${identifier}` : identifier;
+}
+
+/**
+ * Escapes text for a single-quoted Dart string ($ starts an interpolation).
+ */
+function escapeDartString(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats a number for Dart (integers stay integers, decimals are rounded to two places).
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Formats a number as a Dart double literal, so token constants are typed as double.
+ * Examples: 16 → "16.0", 0.5 → "0.5"
+ */
+function formatDouble(value: number): string {
+  const number = formatNumber(value);
+  return number.includes(".") ? number : `${number}.0`;
+}
+
+/**
+ * Converts a hex color and opacity to a Flutter Color literal (ARGB).
+ * Examples: ("#2563eb", 1) → "Color(0xFF2563EB)", ("#000000", 0.5) → "Color(0x80000000)"
+ */
+function colorToDart(color: string, opacity: number = 1): string {
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, "0");
+  return `Color(0x${(alpha + color.replace("#", "")).toUpperCase()})`;
+}
+
+/**
+ * Converts a numeric font weight to a FontWeight constant (e.g., 600 → "FontWeight.w600").
+ */
+function weightToDart(weight: number): string {
+  return `FontWeight.w${Math.min(900, Math.max(100, Math.round(weight / 100) * 100))}`;
+}
+
+/**
+ * Returns the Dart code of a value, replaced with its AppTokens constant when the value is
+ * bound to a Figma variable. The first use of a variable records its kind and default value.
+ *
+ * @param value - Value as Dart code (e.g., "16.0")
+ * @param kind - Dart type of the value
+ * @param figmaVarName - Name of the bound Figma variable, if any
+ * @param context - Flutter context (collects the token constants)
+ * @returns "AppTokens.<name>", or the value itself
+ */
+function tokenOrValue(value: string, kind: DartValueKind, figmaVarName: string | undefined, context: FlutterContext): string {
+  if (!figmaVarName) return value;
+  if (!context.tokens[figmaVarName]) {
+    const usedNames = new Set(Object.values(context.tokens).map((token) => token.name));
+    const baseName = nameToIdentifier(figmaVariableToCSSVariable(figmaVarName), "token");
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.tokens[figmaVarName] = { name, kind, value };
+  }
+  return `AppTokens.${context.tokens[figmaVarName].name}`;
+}
+
+/**
+ * Returns a length as Dart code: its AppTokens constant when bound to a variable, the plain number otherwise.
+ */
+function lengthOrToken(value: number, figmaVarName: string | undefined, context: FlutterContext): string {
+  return figmaVarName ? tokenOrValue(formatDouble(value), "double", figmaVarName, context) : formatNumber(value);
+}
+
+/**
+ * Converts the four paddings of a layer to EdgeInsets, or null when there is no padding.
+ * Examples: all 16 → EdgeInsets.all(16), 8/16/8/16 → EdgeInsets.symmetric(horizontal: 16, vertical: 8)
+ */
+function paddingToEdgeInsets(top: string, right: string, bottom: string, left: string): string | null {
+  if (top === right && top === bottom && top === left) {
+    return top === "0" ? null : `EdgeInsets.all(${top})`;
+  }
+  if (top === bottom && left === right) {
+    const sides = [
+      ...(left !== "0" ? [`horizontal: ${left}`] : []),
+      ...(top !== "0" ? [`vertical: ${top}`] : []),
+    ];
+    return `EdgeInsets.symmetric(${sides.join(", ")})`;
+  }
+  const sides = [["left", left], ["top", top], ["right", right], ["bottom", bottom]]
+    .filter(([, value]) => value !== "0")
+    .map(([side, value]) => `${side}: ${value}`);
+  return `EdgeInsets.only(${sides.join(", ")})`;
+}
+
+/**
+ * Returns the BorderRadius of a layer, or null when its corners are square.
+ */
+function layoutToBorderRadius(layout: any, context: FlutterContext): string | null {
+  if (typeof layout.cornerRadius === "number" && (layout.cornerRadius > 0 || layout.cornerRadiusVariable)) {
+    return `BorderRadius.circular(${lengthOrToken(layout.cornerRadius, layout.cornerRadiusVariable, context)})`;
+  }
+  if (layout.cornerRadius && typeof layout.cornerRadius === "object") {
+    const { topLeft, topRight, bottomRight, bottomLeft } = layout.cornerRadius;
+    return `BorderRadius.only(topLeft: Radius.circular(${formatNumber(topLeft)}), topRight: Radius.circular(${formatNumber(topRight)}), ` +
+      `bottomRight: Radius.circular(${formatNumber(bottomRight)}), bottomLeft: Radius.circular(${formatNumber(bottomLeft)}))`;
+  }
+  return null;
+}
+
+/**
+ * Builds the BoxDecoration of a layer from its fill, stroke, corner radius and drop shadows.
+ * Image fills of layers with children become a DecorationImage.
+ *
+ * @returns The BoxDecoration argument lines, or null when the layer draws nothing
+ */
+function nodeToBoxDecoration(node: ExtractedNode & { styles?: ExtractedStyles }, context: FlutterContext): string | null {
+  const styles = node.styles;
+  if (!styles) return null;
+
+  const entries: string[] = [];
+  const fill = styles.fills?.[0];
+  if (fill?.type === "SOLID") {
+    entries.push(`color: ${tokenOrValue(colorToDart(fill.color, fill.opacity), "color", fill.variable, context)}`);
+  } else if (fill?.type === "IMAGE" && fill.src) {
+    const fit = fill.scaleMode === "FIT" ? "BoxFit.contain" : "BoxFit.cover";
+    const repeat = fill.scaleMode === "TILE" ? ", repeat: ImageRepeat.repeat" : "";
+    entries.push(`image: DecorationImage(image: AssetImage('${fill.src}'), fit: ${fit}${repeat})`);
+  } else if (fill?.type === "GRADIENT_LINEAR" || fill?.type === "GRADIENT_RADIAL") {
+    entries.push("// Gradient fill: set gradient: LinearGradient(...)");
+  }
+
+  const stroke = styles.strokes?.strokes?.[0];
+  if (stroke?.type === "SOLID") {
+    const color = tokenOrValue(colorToDart(stroke.color, stroke.opacity), "color", stroke.variable, context);
+    const width = lengthOrToken(styles.strokes.strokeWeight || 1, styles.strokes.strokeWeightVariable, context);
+    entries.push(`border: Border.all(color: ${color}, width: ${width})`);
+    if (styles.strokes.strokeDashArray && styles.strokes.strokeDashArray.length > 0) {
+      entries.push("// Dashed border: not supported by BoxDecoration");
+    }
+  }
+
+  const borderRadius = layoutToBorderRadius(styles.layout || {}, context);
+  if (borderRadius) {
+    entries.push(`borderRadius: ${borderRadius}`);
+  }
+
+  const shadows = (styles.effects || []).filter((effect: any) => effect.type === "DROP_SHADOW");
+  if (shadows.length > 0) {
+    const boxShadows = shadows.map((shadow: any) => {
+      const color = colorToDart(shadow.color, shadow.opacity !== undefined ? shadow.opacity : 1);
+      return `${INDENT}BoxShadow(color: ${color}, offset: Offset(${formatNumber(shadow.offset.x)}, ${formatNumber(shadow.offset.y)}), blurRadius: ${formatNumber(shadow.radius)}),`;
+    });
+    entries.push(`boxShadow: [\n${boxShadows.join("\n")}\n]`);
+  }
+
+  if (entries.length === 0) return null;
+  const lines = entries.map((entry) => `${INDENT}${indentLines(entry, INDENT)}${entry.startsWith("//") ? "" : ","}`);
+  return `decoration: BoxDecoration(\n${lines.join("\n")}\n)`;
+}
+
+/**
+ * Converts the typography and text color of a TEXT node to a TextStyle.
+ * Flutter's line height is a multiple of the font size.
+ */
+function typographyToTextStyle(node: ExtractedNode & { styles?: ExtractedStyles }, context: FlutterContext): string | null {
+  const typography = node.styles?.typography;
+  const entries: string[] = [];
+
+  if (typography) {
+    const fontSize = Number(typography.fontSize) || 0;
+    if (typography.fontFamily) {
+      entries.push(`fontFamily: ${tokenOrValue(`'${escapeDartString(typography.fontFamily)}'`, "string", typography.fontFamilyVariable, context)}`);
+    }
+    if (fontSize) {
+      entries.push(`fontSize: ${lengthOrToken(fontSize, typography.fontSizeVariable, context)}`);
+    }
+    const fontWeight = typography.fontWeightValue || FONT_WEIGHTS[String(typography.fontWeight || "").toLowerCase().replace(/\s+/g, "")];
+    if (fontWeight) {
+      entries.push(`fontWeight: ${tokenOrValue(weightToDart(fontWeight), "weight", typography.fontWeightVariable, context)}`);
+    }
+    const lineHeight = Number(typography.lineHeight) || 0;
+    if (lineHeight && fontSize && typography.lineHeightUnit !== "AUTO") {
+      const height = typography.lineHeightUnit === "PERCENT" ? lineHeight / 100 : lineHeight / fontSize;
+      entries.push(`height: ${formatNumber(height)}`);
+    }
+    const letterSpacing = Number(typography.letterSpacing) || 0;
+    if (letterSpacing || typography.letterSpacingVariable) {
+      const value = typography.letterSpacingUnit === "PERCENT" ? (fontSize * letterSpacing) / 100 : letterSpacing;
+      entries.push(`letterSpacing: ${lengthOrToken(value, typography.letterSpacingVariable, context)}`);
+    }
+    if (typography.textDecoration === "UNDERLINE") {
+      entries.push("decoration: TextDecoration.underline");
+    } else if (typography.textDecoration === "STRIKETHROUGH") {
+      entries.push("decoration: TextDecoration.lineThrough");
+    }
+  }
+
+  const fill = node.styles?.fills?.[0];
+  if (fill?.type === "SOLID") {
+    entries.push(`color: ${tokenOrValue(colorToDart(fill.color, fill.opacity), "color", fill.variable, context)}`);
+  }
+
+  if (entries.length === 0) return null;
+  return `style: TextStyle(\n${entries.map((entry) => `${INDENT}${entry},`).join("\n")}\n)`;
+}
+
+/**
+ * Applies the Figma text case to the text (TextStyle has no text transform).
+ */
+function applyTextCase(text: string, textCase?: string): string {
+  if (textCase === "UPPER") return text.toUpperCase();
+  if (textCase === "LOWER") return text.toLowerCase();
+  if (textCase === "TITLE") return text.replace(/\b\w/g, (char) => char.toUpperCase());
+  return text;
+}
+
+/**
+ * Wraps a widget in a single-child widget (e.g., Expanded, Opacity).
+ */
+function wrap(name: string, args: string[], child: DartWidget): DartWidget {
+  return { name, args, child };
+}
+
+/**
+ * Recursively builds the widget tree of an extracted node.
+ *
+ * Auto layout frames become Row/Column with mainAxisAlignment/crossAxisAlignment from
+ * primaryAxisAlignItems/counterAxisAlignItems and SizedBox gaps between children. Other
+ * frames with children become a Stack. Fills, strokes, radius and shadows become a
+ * Container's BoxDecoration (holding the size and padding too); without decoration, fixed
+ * sizes become a SizedBox and paddings a Padding. FILL children are wrapped in Expanded
+ * along the parent's axis and sized double.infinity across it.
+ *
+ * @param node - The extracted node with optional styles
+ * @param parentLayoutMode - layoutMode of the parent
+ * @param context - Flutter context (collects the token constants)
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @returns The widget, or a comment for layers hidden in the design
+ */
+function buildWidget(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: FlutterContext,
+  annotationFormat: AnnotationFormat
+): DartWidget | string {
+  if (node.styles?.visible === false) {
+    return `// "${node.name}" is hidden in the design`;
+  }
+
+  const layout = node.styles?.layout || {};
+  const fill = node.styles?.fills?.[0];
+  const hasChildren = !!node.children && node.children.length > 0;
+
+  // Sizes: FILL along the parent's axis is an Expanded, across it (or outside auto layout) double.infinity
+  const fillWidth = layout.layoutSizingHorizontal === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "HORIZONTAL");
+  const fillHeight = layout.layoutSizingVertical === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "VERTICAL");
+  const expanded = (fillWidth && parentLayoutMode === "HORIZONTAL") || (fillHeight && parentLayoutMode === "VERTICAL");
+  const sizeArgs: string[] = [];
+  if (fillWidth && parentLayoutMode !== "HORIZONTAL") {
+    sizeArgs.push("width: double.infinity");
+  } else if (!fillWidth && layout.layoutSizingHorizontal !== "HUG" && layout.width !== undefined) {
+    sizeArgs.push(`width: ${lengthOrToken(layout.width, layout.widthVariable, context)}`);
+  }
+  if (fillHeight && parentLayoutMode !== "VERTICAL") {
+    sizeArgs.push("height: double.infinity");
+  } else if (!fillHeight && layout.layoutSizingVertical !== "HUG" && layout.height !== undefined) {
+    sizeArgs.push(`height: ${lengthOrToken(layout.height, layout.heightVariable, context)}`);
+  }
+
+  let widget: DartWidget;
+  if (node.svg) {
+    // Vectors are drawn by flutter_svg (a single color variable tints them)
+    context.usesSvg = true;
+    const colors: { [figmaVarName: string]: string } = {};
+    const variables = [...new Set(getSVGColorBindings(node.styles, colors).map((binding) => binding.variable))];
+    const markup = (node.svg || "").split("\n").map((line) => line.trim()).filter((line) => line).join("").replace(/'''/g, "'\\''");
+    const args = [`r'''${markup}'''`, ...sizeArgs];
+    if (variables.length === 1) {
+      args.push(`colorFilter: ColorFilter.mode(${tokenOrValue(colorToDart(colors[variables[0]]), "color", variables[0], context)}, BlendMode.srcIn)`);
+    }
+    widget = { name: "SvgPicture.string", args };
+  } else if (node.type === "TEXT") {
+    const characters = applyTextCase((node as any).characters || node.name || "", node.styles?.typography?.textCase);
+    const args = [`'${escapeDartString(characters)}'`];
+    const aligns: { [align: string]: string } = { LEFT: "left", CENTER: "center", RIGHT: "right", JUSTIFIED: "justify" };
+    const align = aligns[node.styles?.typography?.textAlignHorizontal];
+    if (align && align !== "left") args.push(`textAlign: TextAlign.${align}`);
+    const style = typographyToTextStyle(node, context);
+    if (style) args.push(style);
+    widget = { name: "Text", args };
+    if (sizeArgs.length > 0) widget = wrap("SizedBox", sizeArgs, widget);
+  } else if (fill?.type === "IMAGE" && fill.src && !hasChildren) {
+    const fit = fill.scaleMode === "FIT" ? "BoxFit.contain" : "BoxFit.cover";
+    widget = { name: "Image.asset", args: [`'${fill.src}'`, ...sizeArgs, `fit: ${fit}`] };
+  } else {
+    let content: DartWidget | undefined;
+    if (hasChildren) {
+      const children: (DartWidget | string)[] = [];
+      const horizontal = layout.layoutMode === "HORIZONTAL";
+      const spaceBetween = layout.primaryAxisAlignItems === "SPACE_BETWEEN";
+      const gap = layout.layoutMode && !spaceBetween && (layout.itemSpacing || layout.itemSpacingVariable)
+        ? `${horizontal ? "width" : "height"}: ${lengthOrToken(layout.itemSpacing || 0, layout.itemSpacingVariable, context)}`
+        : null;
+      node.children!.forEach((child) => {
+        const childWidget = buildWidget(child, layout.layoutMode, context, annotationFormat);
+        if (gap && typeof childWidget !== "string" && children.some((item) => typeof item !== "string")) {
+          children.push({ name: "SizedBox", args: [gap] });
+        }
+        children.push(childWidget);
+      });
+
+      if (layout.layoutMode === "HORIZONTAL" || layout.layoutMode === "VERTICAL") {
+        const args: string[] = [];
+        const mainAlignments: { [align: string]: string } = { CENTER: "center", MAX: "end", SPACE_BETWEEN: "spaceBetween" };
+        if (mainAlignments[layout.primaryAxisAlignItems]) {
+          args.push(`mainAxisAlignment: MainAxisAlignment.${mainAlignments[layout.primaryAxisAlignItems]}`);
+        }
+        const crossAlignments: { [align: string]: string } = { MIN: "start", MAX: "end", BASELINE: "baseline" };
+        if (crossAlignments[layout.counterAxisAlignItems]) {
+          args.push(`crossAxisAlignment: CrossAxisAlignment.${crossAlignments[layout.counterAxisAlignItems]}`);
+          if (layout.counterAxisAlignItems === "BASELINE") args.push("textBaseline: TextBaseline.alphabetic");
+        }
+        // Row/Column take all the space of their axis unless they hug their content
+        if ((horizontal ? layout.layoutSizingHorizontal : layout.layoutSizingVertical) === "HUG") {
+          args.push("mainAxisSize: MainAxisSize.min");
+        }
+        content = { name: horizontal ? "Row" : "Column", args, children };
+      } else {
+        content = { name: "Stack", args: [], children };
+      }
+    }
+
+    const padding = layout.layoutMode
+      ? paddingToEdgeInsets(
+        ...(["Top", "Right", "Bottom", "Left"].map((side) => lengthOrToken(layout[`padding${side}`] || 0, layout[`padding${side}Variable`], context)) as [string, string, string, string])
+      )
+      : null;
+    const decoration = nodeToBoxDecoration(node, context);
+
+    if (decoration) {
+      widget = { name: "Container", args: [...sizeArgs, ...(padding ? [`padding: ${padding}`] : []), decoration], child: content };
+    } else {
+      widget = content || { name: "SizedBox", args: [] };
+      if (padding) widget = wrap("Padding", [`padding: ${padding}`], widget);
+      if (sizeArgs.length > 0) {
+        widget = widget.name === "SizedBox" && !widget.child ? { name: "SizedBox", args: sizeArgs } : wrap("SizedBox", sizeArgs, widget);
+      }
+    }
+  }
+
+  if (layout.opacity !== undefined && layout.opacity < 1) {
+    widget = wrap("Opacity", [`opacity: ${tokenOrValue(formatDouble(layout.opacity), "double", layout.opacityVariable, context)}`], widget);
+  }
+  if (expanded) {
+    widget = wrap("Expanded", [], widget);
+  }
+
+  if (annotationFormat !== "none" && node.annotations && node.annotations.length > 0) {
+    widget.comments = node.annotations.flatMap((annotation) => annotation.split("\n").map((line) => `// ${line}`));
+  }
+  return widget;
+}
+
+/**
+ * Indents every line of a multi-line argument after the first.
+ */
+function indentLines(text: string, indent: string): string {
+  return text.split("\n").map((line, i) => (i === 0 ? line : `${indent}${line}`)).join("\n");
+}
+
+/**
+ * Formats a widget call, its arguments on separate lines with trailing commas (dart format style).
+ */
+function formatWidget(widget: DartWidget, indent: string): string {
+  const innerIndent = indent + INDENT;
+  const lines = widget.args.map((arg) => `${innerIndent}${indentLines(arg, innerIndent)},`);
+  if (widget.child) {
+    lines.push(`${innerIndent}child: ${formatWidget(widget.child, innerIndent)},`);
+  }
+  if (widget.children) {
+    const items = widget.children.map((item) => {
+      if (typeof item === "string") return `${innerIndent}${INDENT}${item}`;
+      const comments = (item.comments || []).map((comment) => `${innerIndent}${INDENT}${comment}\n`).join("");
+      return `${comments}${innerIndent}${INDENT}${formatWidget(item, innerIndent + INDENT)},`;
+    });
+    lines.push(`${innerIndent}children: [\n${items.join("\n")}\n${innerIndent}],`);
+  }
+  if (lines.length === 0) return `${widget.name}()`;
+  if (lines.length === 1 && !widget.child && !widget.children && !widget.args[0].includes("\n")) {
+    return `${widget.name}(${widget.args[0]})`;
+  }
+  return `${widget.name}(\n${lines.join("\n")}\n${indent})`;
+}
+
+/**
+ * Converts a Figma variable value of another mode to Dart code of the constant's kind.
+ */
+function modeValueToDart(value: any, kind: DartValueKind): string {
+  if (value && typeof value === "object" && "r" in value && "g" in value && "b" in value) {
+    const hex = [value.r, value.g, value.b].map((channel: number) => Math.round(channel * 255).toString(16).padStart(2, "0")).join("");
+    return colorToDart(`#${hex}`, value.a !== undefined ? value.a : 1);
+  }
+  const number = typeof value === "number" ? value : value && typeof value === "object" && "value" in value ? Number(value.value) : NaN;
+  if (!isNaN(number)) {
+    return kind === "weight" ? weightToDart(number) : formatDouble(number);
+  }
+  return `'${escapeDartString(String(value))}'`;
+}
+
+/**
+ * Generates the tokens file: an AppTokens class holding the default-mode value of every
+ * variable used by the widgets, plus one class per other variable mode holding the values
+ * that differ.
+ */
+function generateTokensFile(nodes: (ExtractedNode & { styles?: ExtractedStyles })[], context: FlutterContext): string {
+  const tokens = Object.entries(context.tokens);
+  const constant = (token: DartToken, value: string) => `${INDENT}static const ${token.name} = ${value};`;
+  const classBody = (className: string, constants: string[]) =>
+    `class ${className} {\n${INDENT}${className}._();${constants.length > 0 ? `\n\n${constants.join("\n")}` : ""}\n}`;
+
+  const sections = [classBody("AppTokens", tokens.map(([, token]) => constant(token, token.value)))];
+
+  const variableModes = collectVariableModes(nodes);
+  const modes: { [modeName: string]: string[] } = {};
+  tokens.forEach(([figmaVarName, token]) => {
+    const modeValues = variableModes[figmaVarName];
+    if (!modeValues) return;
+    Object.entries(modeValues.valuesByMode).forEach(([modeName, value]) => {
+      if (modeName === modeValues.defaultMode) return;
+      const code = modeValueToDart(value, token.kind);
+      if (code === token.value) return;
+      (modes[modeName] = modes[modeName] || []).push(constant(token, code));
+    });
+  });
+  Object.entries(modes).forEach(([modeName, constants]) => {
+    sections.push(`// Values of the "${modeName}" mode that differ from the default\n${classBody(`AppTokens${nodeNameToComponentName(modeName)}`, constants)}`);
+  });
+
+  return `import 'package:flutter/material.dart';\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Generates Flutter widgets from extracted nodes.
+ *
+ * Each selected node becomes a StatelessWidget whose build method returns its widget tree
+ * (see buildWidget). Images are loaded with Image.asset / AssetImage from the exported
+ * `assets/` folder (declare it under flutter: assets: in pubspec.yaml). Values bound to Figma
+ * variables are read from the AppTokens class of the tokens file (app_tokens.dart).
+ *
+ * Merged COMPONENT_SETs are rendered with the styles of their default variant.
+ * The output is always indented, so `prettify` is accepted for a consistent signature only.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @param prettify - Unused: Dart output is always indented
+ * @returns GeneratedFlutter object with the Dart file, the tokens file and used variables
+ */
+export function generateFlutter(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedFlutter {
+  const context: FlutterContext = { tokens: {}, widgetNames: new Set(), usesSvg: false };
+
+  const widgets = nodes.map((node) => {
+    const baseName = nodeNameToComponentName(node.name);
+    let name = baseName;
+    for (let suffix = 2; context.widgetNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.widgetNames.add(name);
+
+    const root = buildWidget({ ...node, annotations: undefined }, undefined, context, annotationFormat);
+    const body = typeof root === "string"
+      ? `${INDENT.repeat(2)}${root}\n${INDENT.repeat(2)}return const SizedBox.shrink();`
+      : `${INDENT.repeat(2)}return ${formatWidget(root, INDENT.repeat(2))};`;
+    const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+      ? node.annotations.map((annotation) => `/// ${annotation.replace(/\n/g, " ")}\n`).join("")
+      : "";
+    return [
+      `${docComment}class ${name} extends StatelessWidget {`,
+      `${INDENT}const ${name}({super.key});`,
+      "",
+      `${INDENT}@override`,
+      `${INDENT}Widget build(BuildContext context) {`,
+      body,
+      `${INDENT}}`,
+      "}",
+    ].join("\n");
+  });
+
+  const imports = ["import 'package:flutter/material.dart';"];
+  if (context.usesSvg) {
+    imports.push("import 'package:flutter_svg/flutter_svg.dart';");
+  }
+  if (Object.keys(context.tokens).length > 0) {
+    imports.push("", "import 'app_tokens.dart';");
+  }
+  const dart = `${imports.join("\n")}\n\n${widgets.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(context.tokens)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    dart,
+    tokens: generateTokensFile(nodes, context),
+    tokensFileName: "app_tokens.dart",
+    stylesheet: dart,
+    usedVariables: usedVariables,
+  };
+}
@@ -0,0 +1,261 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles, TextSegmentStyle } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat, ExtractionWarning } from "@common/networkSides";
+import { SVGColorBinding, VariableMap, figmaVariableToCSSVariable, getSVGColorBindings, rewriteSVGColors } from "./cssGenerator";
+
+/**
+ * Escapes text for HTML content and attribute values.
+ */
+export function escapeHTML(text: string): string {
+  const map: { [key: string]: string } = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#039;",
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+/**
+ * Escapes an attribute value (e.g., the alt text of an image).
+ */
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Escapes text content for JSX (braces would start an expression).
+ */
+export function escapeJSXText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/[{}]/g, (brace) => `{"${brace}"}`);
+}
+
+/**
+ * How the styled segments of a TEXT node are written by a format.
+ */
+export interface RichTextOptions {
+  rangeToTokens: (style: any) => string[]; // CSS properties or classes of the properties a segment overrides
+  boldToken: string; // Token dropped inside <strong> (e.g., "font-weight: 700", "font-bold")
+  attribute: (tokens: string[]) => string; // Attribute holding the tokens (e.g., ` style="..."`), "" when empty
+  escapeText: (text: string) => string; // Escaping of the segment text (HTML or JSX)
+}
+
+// Text range properties a segment can override (see TextSegmentStyle)
+const TEXT_RANGE_PROPERTIES = ["fontFamily", "fontSize", "fontWeight", "textDecoration", "textCase"];
+
+/**
+ * Key of the resolved colors of text range fills: a fill bound to a variable matches
+ * a raw fill of the same color.
+ */
+function resolvedFillsKey(fills: any): string {
+  return JSON.stringify((fills || []).map((fill: any) => [fill.type, fill.color, fill.opacity]));
+}
+
+/**
+ * Generates rich text content from the styled segments of a TEXT node.
+ * 
+ * Each segment only gets the tokens of the properties whose value differs from the
+ * node's own style (compared on resolved values, so a variable reference on one side
+ * and the raw value on the other is not a difference):
+ * - Links become <a href="...">
+ * - Ranges that turn bold become <strong>
+ * - Other style differences become <span> with the format's attribute
+ * Ranges without differences are emitted as plain text.
+ * 
+ * @param styles - Extracted styles of the TEXT node (typography.segments must be set)
+ * @param options - Token conversion, attribute and escaping of the format
+ * @returns Markup with nested inline elements
+ */
+export function generateRichText(styles: ExtractedStyles, options: RichTextOptions): string {
+  const typography = styles.typography;
+  const baseIsBold = (typography.fontWeightValue || 400) >= 600;
+
+  return typography.segments.map((segment: TextSegmentStyle) => {
+    const overrides: any = {};
+    TEXT_RANGE_PROPERTIES.forEach((property) => {
+      if ((segment as any)[property] !== typography[property]) {
+        overrides[property] = (segment as any)[property];
+      }
+    });
+    if (resolvedFillsKey(segment.fills) !== resolvedFillsKey(styles.fills)) {
+      overrides.fills = segment.fills;
+    }
+
+    let tokens = options.rangeToTokens(overrides);
+    let content = options.escapeText(segment.characters);
+
+    if (segment.fontWeightValue >= 600 && !baseIsBold) {
+      // <strong> already renders bold, keep other weights only
+      tokens = tokens.filter((token) => token !== options.boldToken);
+      content = `<strong${options.attribute(tokens)}>${content}</strong>`;
+      tokens = [];
+    }
+
+    if (segment.hyperlink) {
+      return `<a href="${escapeHTML(segment.hyperlink)}"${options.attribute(tokens)}>${content}</a>`;
+    }
+
+    return tokens.length > 0 ? `<span${options.attribute(tokens)}>${content}</span>` : content;
+  }).join("");
+}
+
+/**
+ * Warning of a TEXT layer whose styled ranges a format does not output: the text
+ * gets the style of the whole layer. Returns null for text without styled ranges.
+ * 
+ * @param node - The TEXT layer
+ * @param formatName - Name of the format shown in the warning (e.g., "SCSS")
+ */
+export function createRichTextWarning(node: ExtractedNode & { styles?: ExtractedStyles }, formatName: string): ExtractionWarning | null {
+  if (!node.styles?.typography?.segments) {
+    return null;
+  }
+  return {
+    nodeId: node.id,
+    nodeName: node.name,
+    code: "RICH_TEXT_FLATTENED",
+    message: `The ${formatName} output does not style ranges of the text, it uses the style of the whole layer`,
+    severity: "info",
+  };
+}
+
+/**
+ * Converts a node name to a PascalCase component name.
+ * Names starting with a digit are prefixed with the fallback so they stay valid identifiers.
+ * Examples: "Button" → "Button", "icon button / primary" → "IconButtonPrimary", "2 col" → "Component2Col"
+ *
+ * @param nodeName - The node name
+ * @param fallback - Name used when the node name has no letters or digits (e.g., "Layer")
+ * @returns PascalCase name
+ */
+export function nodeNameToComponentName(nodeName: string, fallback: string = "Component"): string {
+  const name = nodeName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((word) => word)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!name) return fallback;
+  return /^[0-9]/.test(name) ? `${fallback}${name}` : name;
+}
+
+/**
+ * Converts a Figma component property name to a camelCase prop name.
+ * The "#id" suffix Figma adds to TEXT, BOOLEAN and INSTANCE_SWAP properties is dropped.
+ * Examples: "Label#12:0" → "label", "Show icon#12:1" → "showIcon", "Size" → "size"
+ */
+export function propertyNameToPropName(propertyName: string): string {
+  const words = propertyName
+    .replace(/#[^#]*$/, "")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((word) => word);
+  const name = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!name) return "prop";
+  return /^[0-9]/.test(name) ? `prop${name}` : name;
+}
+
+/**
+ * Comment syntax of an output format: HTML/Vue/Svelte markup, JSX, or line comments (Kotlin, Swift).
+ */
+export type CommentSyntax = "html" | "jsx" | "line";
+
+/**
+ * Formats an annotation as a comment of the output.
+ * Sequences that would end the comment early ("--" in HTML, "*\/" in JSX) are broken up.
+ *
+ * @param annotation - The annotation text to format
+ * @param format - The annotation format: "html", "tsx", or "none"
+ * @param indent - The indentation string
+ * @param syntax - Comment syntax (defaults to JSX for "tsx", HTML otherwise)
+ * @returns Formatted annotation string or empty string if format is "none"
+ */
+export function formatAnnotation(
+  annotation: string,
+  format: AnnotationFormat,
+  indent: string,
+  syntax: CommentSyntax = format === "tsx" ? "jsx" : "html"
+): string {
+  if (format === "none") {
+    return "";
+  }
+  if (syntax === "line") {
+    return annotation.split("\n").map((line) => `${indent}// ${line}\n`).join("");
+  }
+  if (syntax === "jsx") {
+    return `${indent}{/* ${annotation.replace(/\*\//g, "* /")} */}\n`;
+  }
+  return `${indent}<!-- ${annotation.replace(/--/g, "- -")} -->\n`;
+}
+
+/**
+ * How a format writes the inline SVG of a vector-like node.
+ */
+export interface InlineSVGOptions {
+  shapeColor?: (binding: SVGColorBinding) => string; // Color attribute of the shapes when several color variables are used (colors kept as exported when omitted)
+  jsx?: boolean; // Converts hyphenated and namespaced attributes to JSX (e.g., fill-rule → fillRule)
+  element?: string; // Element replacing <svg> (e.g., a styled component)
+}
+
+/**
+ * Writes the color of an SVG shape as an inline style using the CSS variable.
+ * Example: style="fill: var(--color-icon-default)"
+ */
+export function svgColorToStyleAttribute(binding: SVGColorBinding): string {
+  return `style="${binding.attribute}: var(${figmaVariableToCSSVariable(binding.variable)})"`;
+}
+
+/**
+ * Generates inline SVG markup for a vector-like node from its exported SVG.
+ *
+ * The attributes are added to the root <svg> element. Variable-bound colors are rewritten
+ * so the SVG follows the tokens:
+ * - A single color variable becomes `currentColor` (the element sets the color from the token)
+ * - Several color variables use options.shapeColor on the shapes using them
+ *
+ * @param node - The vector-like node (node.svg holds the SVG markup exported from Figma)
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @param attributes - Attributes for the root <svg> element
+ * @param indentStr - Indentation of the element
+ * @param prettify - Whether to keep the SVG on multiple indented lines or compact it
+ * @param options - Shape colors, JSX attributes and root element of the format
+ * @returns Inline SVG markup
+ */
+export function generateInlineSVG(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  variableMap: VariableMap,
+  attributes: string,
+  indentStr: string,
+  prettify: boolean,
+  options: InlineSVGOptions = {}
+): string {
+  const bindings = getSVGColorBindings(node.styles, variableMap);
+  const singleVariable = new Set(bindings.map((binding) => binding.variable)).size === 1;
+  const shapeColor = singleVariable
+    ? (binding: SVGColorBinding) => `${binding.attribute}="currentColor"`
+    : options.shapeColor;
+  let markup = shapeColor ? rewriteSVGColors(node.svg || "", bindings, shapeColor) : node.svg || "";
+
+  if (options.jsx) {
+    markup = markup
+      .replace(/\s([a-z]+):([a-z]+)=/g, (_, prefix, name) => ` ${prefix}${name[0].toUpperCase()}${name.slice(1)}=`)
+      .replace(/\s([a-z]+(?:-[a-z]+)+)=/g, (_, name: string) => ` ${name.replace(/-([a-z])/g, (__, c) => c.toUpperCase())}=`);
+  }
+
+  const lines = markup.split("\n").map((line) => line.trim()).filter((line) => line);
+  const formatted = prettify
+    ? lines.map((line, i) => (i === 0 || i === lines.length - 1 ? indentStr : `${indentStr}  `) + line).join("\n")
+    : lines.join("");
+
+  if (!options.element) {
+    return formatted.replace("<svg", `<svg${attributes}`);
+  }
+  const closing = formatted.lastIndexOf("</svg>");
+  const withElement = closing >= 0 ? `${formatted.slice(0, closing)}</${options.element}>${formatted.slice(closing + 6)}` : formatted;
+  return withElement.replace("<svg", `<${options.element}${attributes}`);
+}
@@ -3,15 +3,100 @@ import { Networker } from "monorepo-networker";
 export const UI = Networker.createSide("UI-side").listens<{
   ping(): "pong";
   hello(text: string): void;
+  selectionChanged(info: SelectionInfo): void;
+  documentChanged(nodeIds: string[]): void;
+  extractionProgress(progress: ExtractionProgress): void;
 }>();
 
 // Annotation format options
 export type AnnotationFormat = "html" | "tsx" | "none";
 
+// Options of the CSS output: inline style attributes, or a class per node with a stylesheet
+export interface CSSOutputOptions {
+  styleMode: "inline" | "classes";
+  classNaming: "bem" | "type" | "hash"; // BEM from the layer hierarchy, type-prefixed (generateClassName) or hashed rule bodies
+  stylesheetTarget: "style" | "file"; // <style> block before the HTML, or a separate .css file linked by the HTML
+}
+
+// Library the CSS-in-JS output imports `styled` from (its theme typing follows the library)
+export type StyledLibrary = "styled-components" | "emotion";
+
+// Styling of the Svelte output: scoped CSS rules or Tailwind classes
+export type SvelteStyling = "css" | "tailwind";
+
+// Variables of the design token export: those used by the selection or the entire local collections
+export type TokenScope = "used" | "all";
+
+// Variable metadata: value in the default mode plus values for every mode by mode name
+export interface VariableMapping {
+  name: string;
+  value: any;
+  valuesByMode?: { [modeName: string]: any };
+  // Alias hops in the default mode (e.g., ["color/blue/500"])
+  aliasChain?: string[];
+  collection?: string;
+  // Set for variables published from a team library
+  remote?: boolean;
+  key?: string;
+  library?: string;
+}
+
+// Image fill exported as a file (bytes fetched by imageHash)
+export interface ImageAsset {
+  hash: string;
+  path: string; // Relative path used by the outputs (e.g., "assets/<hash>.png")
+  bytes: Uint8Array;
+}
+
+// Progress of an extraction, pushed to the UI while styles are extracted
+export interface ExtractionProgress {
+  visited: number; // Nodes extracted so far
+  total: number; // Nodes to extract
+  nodeName: string; // Name of the node being extracted
+}
+
+// Kind of problem reported by an extraction warning
+export type ExtractionWarningCode =
+  | "STYLE_EXTRACTION_FAILED" // Styles could not be read: the node is output without styles
+  | "VARIABLE_RESOLUTION_FAILED" // A bound variable could not be resolved: the raw value is used
+  | "FONT_LOAD_FAILED" // Fonts could not be loaded: the layer name replaces the text
+  | "IMAGE_EXPORT_FAILED" // An image fill could not be exported
+  | "SVG_EXPORT_FAILED" // A vector could not be exported as SVG: it is rebuilt from its styles
+  | "COMPONENT_PROPERTIES_FAILED" // Component properties could not be read: no props are generated
+  | "VARIANT_CONTENT_DIFFERS" // Text or SVG of a layer differs between variants: the default variant's is output
+  | "RICH_TEXT_FLATTENED" // Styled ranges of a text are not output by a format: the layer's style is used
+  | "TOKEN_EXPORT_FAILED" // A variable could not be exported: it is missing from the token exports
+  | "NODE_GENERATION_FAILED" // A layer could not be generated and is missing from the output
+  | "FORMAT_GENERATION_FAILED"; // An output format could not be generated: it is left empty
+
+// Problem met while extracting a node, shown in the UI (clicking it selects the node)
+export interface ExtractionWarning {
+  nodeId: string;
+  nodeName: string;
+  code: ExtractionWarningCode;
+  message: string;
+  severity: "info" | "warning" | "error";
+}
+
+// Additional file of an output format (e.g., a stylesheet imported by the markup)
+export interface OutputFile {
+  name: string; // File name, as referenced by the output (e.g., "Button.module.css")
+  content: string;
+}
+
 // Individual format output structure
-interface FormatOutput {
+export interface FormatOutput {
   html?: string;
   json?: string;
+  tsx?: string;
+  tsxFileName?: string; // Name of the TSX module (CSS Modules output)
+  ts?: string;
+  vue?: string;
+  svelte?: string;
+  kotlin?: string;
+  swift?: string;
+  dart?: string;
+  files?: OutputFile[]; // Files the output links or imports (e.g., a .css file), shown below it and added to the ZIP export
   stylesheet: string;
   usedVariables: string[];
 }
@@ -21,9 +106,27 @@ interface MultiFormatExtractionResult {
   css: FormatOutput;
   tailwind: FormatOutput;
   raw: FormatOutput;
+  react: FormatOutput;
+  cva: FormatOutput;
+  cssModules: FormatOutput;
+  scss: FormatOutput;
+  styled: FormatOutput;
+  vue: FormatOutput;
+  svelte: FormatOutput;
+  webComponent: FormatOutput;
+  reactNative: FormatOutput;
+  compose: FormatOutput;
+  swiftUI: FormatOutput;
+  flutter: FormatOutput;
+  designTokens: FormatOutput;
+  styleDictionary: FormatOutput;
+  tokensStudio: FormatOutput;
   componentName: string;
-  variableMappings?: Array<{ name: string; value: any }>;
+  variableMappings?: VariableMapping[];
   usedVariables?: string[];
+  assets?: ImageAsset[];
+  warnings?: ExtractionWarning[];
+  cancelled?: boolean; // Set when the extraction was cancelled: the outputs only cover the nodes extracted so far
 }
 
 // Selection info returned by getSelectionName
@@ -38,6 +141,8 @@ export const PLUGIN = Networker.createSide("Plugin-side").listens<{
   createRect(width: number, height: number): void;
   exportSelection(): Promise<string>;
   getSelectionName(): Promise<SelectionInfo>;
-  extractComponent(annotationFormat?: AnnotationFormat, prettify?: boolean): Promise<MultiFormatExtractionResult>;
+  extractComponent(annotationFormat?: AnnotationFormat, prettify?: boolean, cssOptions?: CSSOutputOptions, styledLibrary?: StyledLibrary, svelteStyling?: SvelteStyling, tokenScope?: TokenScope): Promise<MultiFormatExtractionResult>;
+  cancelExtraction(): void;
+  selectNode(nodeId: string): Promise<void>;
   resizeWindow(width: number, height: number): void;
 }>();
@@ -28,6 +28,11 @@ export function generateRawJSON(
    * Recursively extracts variable names from a node's styles
    */
   function collectVariables(node: ExtractedNode & { styles?: ExtractedStyles }) {
+    // Layers of a merged COMPONENT_SET: variables used in any variant
+    node.variantStyles?.forEach((styles) => {
+      if (styles) collectVariables({ ...node, styles, variantStyles: undefined, children: undefined });
+    });
+
     if (!node.styles) return;
 
     const { layout, typography, fills, strokes } = node.styles;
@@ -52,6 +57,14 @@ export function generateRawJSON(
       if (typography.letterSpacingVariable) usedVariables.add(typography.letterSpacingVariable);
       if (typography.fontFamilyVariable) usedVariables.add(typography.fontFamilyVariable);
       if (typography.fontWeightVariable) usedVariables.add(typography.fontWeightVariable);
+      // Rich text segment colors
+      if (typography.segments && Array.isArray(typography.segments)) {
+        typography.segments.forEach((segment: any) => {
+          segment.fills?.forEach((fill: any) => {
+            if (fill.variable) usedVariables.add(fill.variable);
+          });
+        });
+      }
     }
 
     // Fill variables
@@ -0,0 +1,326 @@
+import { ExtractedNode, ExtractedComponentProperty } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import { VariableMap, figmaVariableToCSSVariable, getImageElementFill } from "./cssGenerator";
+import {
+  nodeToTailwindClasses,
+  nodeToVariantTailwindClasses,
+  generateRichTextContent,
+  TAILWIND_SVG_OPTIONS,
+  nodeNameToTailwindClass,
+} from "./tailwindDomGenerator";
+import { VariantCondition, variantPropertyToDataAttribute } from "./variantStyles";
+import {
+  escapeJSXText,
+  nodeNameToComponentName,
+  propertyNameToPropName,
+  escapeAttribute,
+  formatAnnotation,
+  generateInlineSVG,
+} from "./generatorHelpers";
+
+export interface GeneratedReact {
+  tsx: string;
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * A Figma component property exposed as a React prop.
+ */
+interface ReactProp {
+  name: string; // Prop name (e.g., "showIcon")
+  property: string; // Figma property name (e.g., "Show icon#12:1")
+  type: string; // TypeScript type (e.g., "boolean", "ReactNode", "\"sm\" | \"lg\"")
+  definition: ExtractedComponentProperty;
+}
+
+/**
+ * React props of a component, keyed by Figma property name.
+ */
+type ReactPropMap = Map<string, ReactProp>;
+
+/**
+ * Maps a Figma node type to an appropriate JSX element.
+ */
+function nodeTypeToJSXElement(nodeType: string): string {
+  return nodeType === "TEXT" ? "p" : "div";
+}
+
+/**
+ * Returns the TypeScript type of a component property.
+ * TEXT → string, BOOLEAN → boolean, INSTANCE_SWAP → ReactNode, VARIANT → union of its options.
+ */
+function propertyToPropType(definition: ExtractedComponentProperty): string {
+  switch (definition.type) {
+    case "TEXT":
+      return "string";
+    case "BOOLEAN":
+      return "boolean";
+    case "INSTANCE_SWAP":
+      return "ReactNode";
+    case "VARIANT":
+      return definition.variantOptions && definition.variantOptions.length > 0
+        ? definition.variantOptions.map((option) => JSON.stringify(option)).join(" | ")
+        : "string";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Builds the React props of a component from its Figma component properties.
+ * Prop names are made unique (e.g., two "Icon" properties → "icon", "icon2").
+ */
+function buildReactProps(node: ExtractedNode): ReactPropMap {
+  const props: ReactPropMap = new Map();
+  const usedNames = new Set<string>();
+
+  Object.entries(node.componentProperties || {}).forEach(([property, definition]) => {
+    const baseName = propertyNameToPropName(property);
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    usedNames.add(name);
+    props.set(property, { name, property, type: propertyToPropType(definition), definition });
+  });
+
+  return props;
+}
+
+/**
+ * Recursively generates JSX from an extracted node tree with Tailwind classes.
+ *
+ * Layers bound to component properties use the props instead of their Figma content:
+ * - TEXT property bound to characters → {props.label}
+ * - BOOLEAN property bound to visible → {props.showIcon && (...)}
+ * - INSTANCE_SWAP property bound to mainComponent → {props.icon ?? (...)} (the default instance as fallback)
+ *
+ * For a merged COMPONENT_SET, the root passes the VARIANT props as data attributes
+ * (data-size={props.size}) and the classes that differ between variants use data
+ * attribute modifiers, as in the Tailwind output.
+ *
+ * @param node - The extracted node with optional styles
+ * @param props - React props of the component, keyed by Figma property name
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @returns JSX string for this node and its children
+ */
+function generateJSXRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  props: ReactPropMap,
+  variableMap: VariableMap,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[]
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+
+  // Props bound to this layer (references to properties of nested components are ignored)
+  const references = node.propertyReferences || {};
+  const visibleProp = references.visible ? props.get(references.visible) : undefined;
+  const swapProp = references.mainComponent ? props.get(references.mainComponent) : undefined;
+  const textProp = references.characters ? props.get(references.characters) : undefined;
+
+  // Conditional layers are rendered one level deeper, inside a {...} expression
+  const isConditional = !!(visibleProp || swapProp);
+  const elementIndent = isConditional ? indent + 1 : indent;
+  const elementIndentStr = prettify ? "  ".repeat(elementIndent) : "";
+
+  let jsx = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      jsx += formatAnnotation(annotation, annotationFormat, indentStr, "jsx");
+    });
+  }
+
+  const componentVariants = node.variants || variants;
+  const styleClasses = componentVariants
+    ? nodeToVariantTailwindClasses(node, componentVariants, variableMap, !!node.variants)
+    : nodeToTailwindClasses(node, variableMap);
+  const classes = [nodeNameToTailwindClass(node.name), ...styleClasses].filter((c) => c);
+  // A hidden layer toggled by a prop is shown whenever the prop is set
+  const visibleClasses = visibleProp ? classes.filter((c) => c !== "hidden") : classes;
+  const imageFill = getImageElementFill(node);
+  const attrs: string[] = [];
+  if (node.variants) {
+    // Variant props select the variant styles through data attributes
+    Object.keys(node.variants[0] || {}).forEach((property) => {
+      const prop = props.get(property);
+      if (prop) {
+        attrs.push(`${variantPropertyToDataAttribute(property)}={props.${prop.name}}`);
+      }
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  if (visibleClasses.length > 0) {
+    attrs.push(`className="${visibleClasses.join(" ")}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  let element: string;
+  if (node.svg) {
+    element = generateInlineSVG(node, variableMap, attributes, elementIndentStr, prettify, TAILWIND_SVG_OPTIONS);
+  } else {
+    const tag = imageFill ? "img" : nodeTypeToJSXElement(node.type);
+    const hasChildren = !!node.children && node.children.length > 0;
+    const hasText = node.type === "TEXT";
+
+    if (hasText) {
+      let content: string;
+      if (textProp) {
+        content = `{props.${textProp.name}}`;
+      } else if (node.styles?.typography?.segments) {
+        content = generateRichTextContent(node.styles, variableMap, escapeJSXText);
+      } else {
+        content = escapeJSXText((node as any).characters || node.name || "");
+      }
+      element = `${elementIndentStr}<${tag}${attributes}>${content}</${tag}>`;
+    } else if (hasChildren && node.children) {
+      const children = node.children
+        .map((child) => generateJSXRecursive(child, props, variableMap, annotationFormat, prettify, elementIndent + 1, componentVariants))
+        .join(newline);
+      element = `${elementIndentStr}<${tag}${attributes}>${newline}${children}${newline}${elementIndentStr}</${tag}>`;
+    } else {
+      element = `${elementIndentStr}<${tag}${attributes} />`;
+    }
+  }
+
+  if (!isConditional) {
+    return jsx + element;
+  }
+
+  // {props.icon ?? (<default instance>)} and/or {props.showIcon && (...)}
+  let expression = `(${newline}${element}${newline}${indentStr})`;
+  if (swapProp) {
+    expression = `props.${swapProp.name} ?? ${expression}`;
+  }
+  if (visibleProp) {
+    expression = swapProp
+      ? `props.${visibleProp.name} && (${expression})`
+      : `props.${visibleProp.name} && ${expression}`;
+  }
+  return `${jsx}${indentStr}{${expression}}`;
+}
+
+/**
+ * Name of the constant holding the default prop values of a component (e.g., "buttonDefaults").
+ */
+function componentDefaultsName(componentName: string): string {
+  return `${componentName[0].toLowerCase()}${componentName.slice(1)}Defaults`;
+}
+
+/**
+ * Generates the Props interface and defaults of a component.
+ * INSTANCE_SWAP props have no default value: the instance from the design is the fallback.
+ */
+function generatePropsDeclarations(componentName: string, props: ReactPropMap): string {
+  const propList = [...props.values()];
+
+  const members = propList.map((prop) => {
+    return `  /** Figma ${prop.definition.type} property "${prop.property.replace(/#[^#]*$/, "")}" */\n  ${prop.name}?: ${prop.type};`;
+  });
+
+  const defaults = propList
+    .filter((prop) => prop.definition.type !== "INSTANCE_SWAP")
+    .map((prop) => `  ${prop.name}: ${JSON.stringify(prop.definition.defaultValue)},`);
+
+  let declarations = `export interface ${componentName}Props {\n${members.join("\n")}\n}`;
+  if (defaults.length > 0) {
+    declarations += `\n\nconst ${componentDefaultsName(componentName)}: Partial<${componentName}Props> = {\n${defaults.join("\n")}\n};`;
+  }
+  return declarations;
+}
+
+/**
+ * Generates a React function component from an extracted node.
+ */
+function generateComponent(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  componentName: string,
+  variableMap: VariableMap,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): string {
+  const props = buildReactProps(node);
+  // Annotations of the root node document the component (a comment next to the root element is not valid JSX)
+  const jsx = generateJSXRecursive({ ...node, annotations: undefined }, props, variableMap, annotationFormat, prettify, 2);
+  const body = prettify ? `  return (\n${jsx}\n  );` : `  return (${jsx});`;
+  const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+    ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+    : "";
+
+  if (props.size === 0) {
+    return `${docComment}export function ${componentName}() {\n${body}\n}`;
+  }
+
+  const hasDefaults = [...props.values()].some((prop) => prop.definition.type !== "INSTANCE_SWAP");
+  const propsLine = hasDefaults
+    ? `  const props = { ...${componentDefaultsName(componentName)}, ...inputProps };\n\n`
+    : "";
+  const parameter = hasDefaults ? "inputProps" : "props";
+
+  return [
+    generatePropsDeclarations(componentName, props),
+    "",
+    `${docComment}export function ${componentName}(${parameter}: ${componentName}Props) {\n${propsLine}${body}\n}`,
+  ].join("\n");
+}
+
+/**
+ * Generates React TSX components from extracted nodes.
+ *
+ * Each selected node becomes an exported function component named after the node
+ * (PascalCase). Its Figma component properties become a typed `<Name>Props` interface:
+ * - TEXT → string, rendered as {props.label}
+ * - BOOLEAN → boolean, toggling the layers bound to it
+ * - INSTANCE_SWAP → ReactNode, replacing the swappable instance
+ * - VARIANT → union of the variant values
+ *
+ * Styling uses the same Tailwind classes as the Tailwind output.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format the JSX with indentation (true) or keep it compact (false)
+ * @returns GeneratedReact object with the TSX module and used variables
+ */
+export function generateReactComponent(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "tsx",
+  prettify: boolean = true
+): GeneratedReact {
+  const variableMap: VariableMap = {};
+  const usedNames = new Set<string>();
+
+  const components = nodes.map((node) => {
+    const baseName = nodeNameToComponentName(node.name);
+    let componentName = baseName;
+    for (let suffix = 2; usedNames.has(componentName); suffix++) {
+      componentName = `${baseName}${suffix}`;
+    }
+    usedNames.add(componentName);
+    return generateComponent(node, componentName, variableMap, annotationFormat, prettify);
+  });
+
+  const needsReactNode = components.some((component) => component.includes("?: ReactNode;"));
+  const imports = needsReactNode ? `import type { ReactNode } from "react";\n\n` : "";
+  const tsx = `${imports}${components.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    tsx,
+    stylesheet: tsx,
+    usedVariables: usedVariables,
+  };
+}
@@ -0,0 +1,723 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import {
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  getSVGColorBindings,
+  rewriteSVGColors,
+  getImageElementFill,
+} from "./cssGenerator";
+import {
+  propertyNameToPropName,
+  escapeJSXText,
+  formatAnnotation,
+  nodeNameToComponentName,
+} from "./generatorHelpers";
+import { VariantCondition, groupVariantTokens } from "./variantStyles";
+
+export interface GeneratedReactNative {
+  tsx: string;
+  tokens: string; // Tokens module (one constant per variable, plus the values of the other modes)
+  tokensFileName: string; // "tokens.ts"
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * Constant of the tokens module holding a Figma variable.
+ */
+interface NativeToken {
+  name: string; // Constant name (e.g., "fillPrimary")
+  value: string; // Default-mode value as code (e.g., "\"#2563eb\"", "16")
+}
+
+/**
+ * State shared while generating the React Native components of the selected nodes.
+ */
+interface NativeContext {
+  tokens: { [figmaVarName: string]: NativeToken }; // Tokens keyed by Figma variable name
+  styleNames: Set<string>; // Keys of the StyleSheet.create object
+  componentNames: Set<string>; // Names of the exported components
+  styles: string[]; // StyleSheet entries, in document order
+  elements: Set<string>; // React Native elements used (imported from "react-native")
+  usesSvg: boolean; // Whether an SvgXml element is rendered (imported from "react-native-svg")
+}
+
+/**
+ * Numeric font weight of each Figma font style (e.g., "Bold" → 700).
+ */
+const FONT_WEIGHTS: { [style: string]: number } = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+/**
+ * flexbox value of each Figma axis alignment.
+ */
+const AXIS_ALIGNMENTS: { [align: string]: string } = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  SPACE_BETWEEN: "space-between",
+  BASELINE: "baseline",
+};
+
+/**
+ * Converts a name to a camelCase identifier (style keys, token constants).
+ * Examples: "Icon Left" → "iconLeft", "--spacing-4" → "spacing4", "4xl" → "token4xl"
+ */
+function nameToIdentifier(name: string, fallback: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word);
+  const identifier = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}${identifier}` : identifier;
+}
+
+/**
+ * Reserves a name in a set (e.g., "label", "label2").
+ */
+function uniqueName(baseName: string, names: Set<string>): string {
+  let name = baseName;
+  for (let suffix = 2; names.has(name); suffix++) {
+    name = `${baseName}${suffix}`;
+  }
+  names.add(name);
+  return name;
+}
+
+/**
+ * Rounds a computed length to two decimals (e.g., 150% of 14 → 21).
+ */
+function roundLength(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Converts an extracted hex color and paint opacity to a React Native color string.
+ * Examples: ("#2563eb", 1) → "#2563eb", ("#000000", 0.5) → "rgba(0, 0, 0, 0.5)"
+ */
+function colorToNative(color: string, opacity: number = 1): string {
+  if (opacity >= 1) return color;
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+/**
+ * Returns the code of a style value, replaced with its token constant when the value is
+ * bound to a Figma variable. The first use of a variable records its default-mode value.
+ *
+ * @param value - Value as code (e.g., "16", "\"#2563eb\"")
+ * @param figmaVarName - Name of the bound Figma variable, if any
+ * @param context - Native context (collects the tokens)
+ * @returns The token constant name, or the value itself
+ */
+function tokenOrValue(value: string, figmaVarName: string | undefined, context: NativeContext): string {
+  if (!figmaVarName) return value;
+  if (!context.tokens[figmaVarName]) {
+    const usedNames = new Set(Object.values(context.tokens).map((token) => token.name));
+    const name = uniqueName(nameToIdentifier(figmaVariableToCSSVariable(figmaVarName), "token"), usedNames);
+    context.tokens[figmaVarName] = { name, value };
+  }
+  return context.tokens[figmaVarName].name;
+}
+
+/**
+ * Collapses the four paddings of a layer to the shortest React Native properties.
+ * Examples: all 16 → padding, 8/16/8/16 → paddingVertical + paddingHorizontal
+ */
+function paddingToNative(top: string, right: string, bottom: string, left: string): string[] {
+  if (top === right && top === bottom && top === left) {
+    return top === "0" ? [] : [`padding: ${top}`];
+  }
+  if (top === bottom && left === right) {
+    return [
+      ...(top !== "0" ? [`paddingVertical: ${top}`] : []),
+      ...(left !== "0" ? [`paddingHorizontal: ${left}`] : []),
+    ];
+  }
+  return [
+    ["paddingTop", top],
+    ["paddingRight", right],
+    ["paddingBottom", bottom],
+    ["paddingLeft", left],
+  ]
+    .filter(([, value]) => value !== "0")
+    .map(([property, value]) => `${property}: ${value}`);
+}
+
+/**
+ * Converts layout properties to React Native flexbox styles.
+ *
+ * React Native lays out every View as a column flex container whose children stretch,
+ * so auto layout always sets flexDirection and alignItems. FILL sizing depends on the
+ * parent: `flex: 1` along the parent's direction, `alignSelf: "stretch"` across it, and
+ * a 100% size outside auto layout. Lengths are unitless density-independent pixels.
+ *
+ * @param layout - Extracted layout object with properties and variable names
+ * @param parentLayoutMode - layoutMode of the parent ("HORIZONTAL", "VERTICAL" or undefined)
+ * @param context - Native context (collects the tokens)
+ * @returns Array of style entries (e.g., ["flexDirection: \"row\"", "gap: spacing2"])
+ */
+function layoutToNative(layout: any, parentLayoutMode: string | undefined, context: NativeContext): string[] {
+  if (!layout) return [];
+
+  const entries: string[] = [];
+  const fillWidth = layout.layoutSizingHorizontal === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "HORIZONTAL");
+  const fillHeight = layout.layoutSizingVertical === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "VERTICAL");
+
+  if (fillWidth) {
+    entries.push(parentLayoutMode === "HORIZONTAL" ? "flex: 1" : parentLayoutMode === "VERTICAL" ? `alignSelf: "stretch"` : `width: "100%"`);
+  } else if (layout.layoutSizingHorizontal !== "HUG" && layout.width !== undefined) {
+    entries.push(`width: ${tokenOrValue(String(layout.width), layout.widthVariable, context)}`);
+  }
+  if (fillHeight) {
+    entries.push(parentLayoutMode === "VERTICAL" ? "flex: 1" : parentLayoutMode === "HORIZONTAL" ? `alignSelf: "stretch"` : `height: "100%"`);
+  } else if (layout.layoutSizingVertical !== "HUG" && layout.height !== undefined) {
+    entries.push(`height: ${tokenOrValue(String(layout.height), layout.heightVariable, context)}`);
+  }
+
+  if (layout.layoutMode) {
+    entries.push(`flexDirection: ${layout.layoutMode === "HORIZONTAL" ? `"row"` : `"column"`}`);
+
+    const padding = (side: string) => tokenOrValue(String(layout[`padding${side}`] || 0), layout[`padding${side}Variable`], context);
+    entries.push(...paddingToNative(padding("Top"), padding("Right"), padding("Bottom"), padding("Left")));
+
+    // SPACE_BETWEEN distributes the children itself
+    if (layout.primaryAxisAlignItems !== "SPACE_BETWEEN" && (layout.itemSpacing || layout.itemSpacingVariable)) {
+      entries.push(`gap: ${tokenOrValue(String(layout.itemSpacing || 0), layout.itemSpacingVariable, context)}`);
+    }
+    entries.push(`justifyContent: "${AXIS_ALIGNMENTS[layout.primaryAxisAlignItems] || "flex-start"}"`);
+    entries.push(`alignItems: "${AXIS_ALIGNMENTS[layout.counterAxisAlignItems] || "flex-start"}"`);
+  }
+
+  if (typeof layout.cornerRadius === "number" && (layout.cornerRadius > 0 || layout.cornerRadiusVariable)) {
+    entries.push(`borderRadius: ${tokenOrValue(String(layout.cornerRadius), layout.cornerRadiusVariable, context)}`);
+  } else if (layout.cornerRadius && typeof layout.cornerRadius === "object") {
+    const { topLeft, topRight, bottomRight, bottomLeft } = layout.cornerRadius;
+    entries.push(
+      `borderTopLeftRadius: ${topLeft}`,
+      `borderTopRightRadius: ${topRight}`,
+      `borderBottomRightRadius: ${bottomRight}`,
+      `borderBottomLeftRadius: ${bottomLeft}`
+    );
+  }
+
+  if (layout.opacity !== undefined && layout.opacity < 1) {
+    entries.push(`opacity: ${tokenOrValue(String(layout.opacity), layout.opacityVariable, context)}`);
+  }
+
+  return entries;
+}
+
+/**
+ * Converts typography properties to React Native text styles.
+ *
+ * fontWeight is numeric (e.g., 700) and lineHeight/letterSpacing are unitless: percentages
+ * are resolved against the font size, auto line height is left to the platform.
+ *
+ * @param typography - Extracted typography object with properties and variable names
+ * @param context - Native context (collects the tokens)
+ * @returns Array of style entries (e.g., ["fontSize: fontSizeMd", "fontWeight: 700"])
+ */
+function typographyToNative(typography: any, context: NativeContext): string[] {
+  if (!typography) return [];
+
+  const entries: string[] = [];
+  const fontSize = Number(typography.fontSize) || 0;
+
+  if (typography.fontFamily) {
+    entries.push(`fontFamily: ${tokenOrValue(JSON.stringify(typography.fontFamily), typography.fontFamilyVariable, context)}`);
+  }
+  if (fontSize) {
+    entries.push(`fontSize: ${tokenOrValue(String(fontSize), typography.fontSizeVariable, context)}`);
+  }
+  const fontWeight = typography.fontWeightValue || FONT_WEIGHTS[String(typography.fontWeight || "").toLowerCase().replace(/\s+/g, "")];
+  if (fontWeight) {
+    entries.push(`fontWeight: ${tokenOrValue(String(fontWeight), typography.fontWeightVariable, context)}`);
+  }
+
+  const lineHeight = Number(typography.lineHeight) || 0;
+  if (lineHeight && typography.lineHeightUnit !== "AUTO") {
+    const value = typography.lineHeightUnit === "PERCENT" ? roundLength((fontSize * lineHeight) / 100) : lineHeight;
+    entries.push(`lineHeight: ${tokenOrValue(String(value), typography.lineHeightVariable, context)}`);
+  }
+
+  const letterSpacing = Number(typography.letterSpacing) || 0;
+  if (letterSpacing || typography.letterSpacingVariable) {
+    const value = typography.letterSpacingUnit === "PERCENT" ? roundLength((fontSize * letterSpacing) / 100) : letterSpacing;
+    entries.push(`letterSpacing: ${tokenOrValue(String(value), typography.letterSpacingVariable, context)}`);
+  }
+
+  if (typography.textDecoration === "UNDERLINE") {
+    entries.push(`textDecorationLine: "underline"`);
+  } else if (typography.textDecoration === "STRIKETHROUGH") {
+    entries.push(`textDecorationLine: "line-through"`);
+  }
+
+  const textTransforms: { [textCase: string]: string } = { UPPER: "uppercase", LOWER: "lowercase", TITLE: "capitalize" };
+  if (textTransforms[typography.textCase]) {
+    entries.push(`textTransform: "${textTransforms[typography.textCase]}"`);
+  }
+
+  const textAligns: { [align: string]: string } = { LEFT: "left", CENTER: "center", RIGHT: "right", JUSTIFIED: "justify" };
+  if (textAligns[typography.textAlignHorizontal]) {
+    entries.push(`textAlign: "${textAligns[typography.textAlignHorizontal]}"`);
+  }
+
+  return entries;
+}
+
+/**
+ * Converts the first fill to a background color (or the text color of TEXT nodes).
+ * Gradients have no React Native style and are left as a comment.
+ */
+function fillsToNative(fills: any, isText: boolean, context: NativeContext): string[] {
+  const fill = fills?.[0];
+  if (!fill) return [];
+
+  if (fill.type === "SOLID") {
+    const color = JSON.stringify(colorToNative(fill.color, fill.opacity));
+    return [`${isText ? "color" : "backgroundColor"}: ${tokenOrValue(color, fill.variable, context)}`];
+  }
+  if (fill.type === "GRADIENT_LINEAR" || fill.type === "GRADIENT_RADIAL") {
+    return ["// Gradient fill: render it with a gradient library (e.g., react-native-linear-gradient)"];
+  }
+  return [];
+}
+
+/**
+ * Converts the first solid stroke to border styles.
+ */
+function strokesToNative(strokes: any, context: NativeContext): string[] {
+  const stroke = strokes?.strokes?.[0];
+  if (!stroke || stroke.type !== "SOLID") return [];
+
+  const entries = [
+    `borderWidth: ${tokenOrValue(String(strokes.strokeWeight || 1), strokes.strokeWeightVariable, context)}`,
+    `borderColor: ${tokenOrValue(JSON.stringify(colorToNative(stroke.color, stroke.opacity)), stroke.variable, context)}`,
+  ];
+  const dashPattern = strokes.strokeDashArray;
+  if (dashPattern && dashPattern.length > 0) {
+    const dotted = dashPattern.length === 2 && dashPattern[0] === dashPattern[1] && dashPattern[0] <= 2;
+    entries.push(`borderStyle: ${dotted ? `"dotted"` : `"dashed"`}`);
+  }
+  return entries;
+}
+
+/**
+ * Converts the first drop shadow to the iOS shadow styles and the Android elevation.
+ *
+ * shadowColor is opaque and shadowOpacity carries the paint opacity; shadowRadius is half
+ * the Figma blur (iOS blurs by twice the radius). Android has no shadow color, offset or
+ * blur, so elevation approximates the shadow's height from its blur.
+ */
+function effectsToNative(effects: any): string[] {
+  if (!effects || effects.length === 0) return [];
+
+  const entries: string[] = [];
+  const shadow = effects.find((effect: any) => effect.type === "DROP_SHADOW");
+  if (shadow) {
+    entries.push(
+      `shadowColor: "${shadow.color}"`,
+      `shadowOffset: { width: ${shadow.offset.x}, height: ${shadow.offset.y} }`,
+      `shadowOpacity: ${shadow.opacity !== undefined ? shadow.opacity : 1}`,
+      `shadowRadius: ${roundLength(shadow.radius / 2)}`,
+      `elevation: ${Math.max(1, Math.round(shadow.radius / 2))}`
+    );
+  }
+  if (effects.some((effect: any) => effect.type === "INNER_SHADOW")) {
+    entries.push("// Inner shadow: not supported by React Native");
+  }
+  if (effects.some((effect: any) => effect.type === "LAYER_BLUR" || effect.type === "BACKGROUND_BLUR")) {
+    entries.push("// Blur: render it with a blur view (e.g., @react-native-community/blur)");
+  }
+  return entries;
+}
+
+/**
+ * Converts the styles of a node to React Native style entries.
+ * Images are drawn by <Image>/<ImageBackground> and vectors by their SVG markup, so their
+ * fills are not styles.
+ *
+ * @param node - The extracted node with styles
+ * @param parentLayoutMode - layoutMode of the parent, deciding how FILL sizing is expressed
+ * @param context - Native context (collects the tokens)
+ * @returns Array of style entries ("property: value" or "// comment")
+ */
+function nodeToNativeStyles(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: NativeContext
+): string[] {
+  if (!node.styles) return [];
+
+  const entries = layoutToNative(node.styles.layout, parentLayoutMode, context);
+  if (!node.svg) {
+    entries.push(...typographyToNative(node.styles.typography, context));
+    if (node.styles.fills?.[0]?.type !== "IMAGE") {
+      entries.push(...fillsToNative(node.styles.fills, node.type === "TEXT", context));
+    }
+    entries.push(...strokesToNative(node.styles.strokes, context));
+  }
+  entries.push(...effectsToNative(node.styles.effects));
+  if (node.styles.visible === false) {
+    entries.push(`display: "none"`);
+  }
+  return entries;
+}
+
+/**
+ * Formats the entries of a StyleSheet style (comments take no trailing comma).
+ */
+function formatStyle(name: string, entries: string[]): string {
+  const lines = entries.map((entry) => `    ${entry}${entry.startsWith("//") ? "" : ","}`);
+  return `  ${name}: {\n${lines.join("\n")}\n  },`;
+}
+
+/**
+ * Converts a variant condition to the JSX condition on the component's props.
+ * Example: { Size: "lg" } → size === "lg"
+ */
+function variantConditionToExpression(condition: VariantCondition, propNames: { [property: string]: string }): string {
+  return Object.entries(condition)
+    .map(([property, value]) => `${propNames[property]} === ${JSON.stringify(value)}`)
+    .join(" && ");
+}
+
+/**
+ * Registers the styles of a layer in the StyleSheet and returns its style prop value.
+ *
+ * For a merged COMPONENT_SET, styles that differ between variants get their own StyleSheet
+ * entries (e.g., labelSizeLg), applied conditionally in a style array:
+ * `[styles.label, size === "lg" && styles.labelSizeLg]`.
+ *
+ * @returns The style expression, or an empty string if the layer has no styles
+ */
+function registerStyles(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  propNames: { [property: string]: string },
+  context: NativeContext,
+  variants: VariantCondition[] | undefined,
+  isRoot: boolean
+): string {
+  const baseName = uniqueName(isRoot ? "root" : nameToIdentifier(node.name, "layer"), context.styleNames);
+
+  if (!variants || !node.variantStyles) {
+    const entries = nodeToNativeStyles(node, parentLayoutMode, context);
+    if (entries.length === 0) {
+      context.styleNames.delete(baseName);
+      return "";
+    }
+    context.styles.push(formatStyle(baseName, entries));
+    return `styles.${baseName}`;
+  }
+
+  const entriesByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+    return styles ? nodeToNativeStyles({ ...node, styles }, parentLayoutMode, context) : null;
+  });
+  const groups = groupVariantTokens(entriesByVariant, variants, `display: "none"`);
+  const items: string[] = [];
+  if (groups.base.length > 0) {
+    context.styles.push(formatStyle(baseName, groups.base));
+    items.push(`styles.${baseName}`);
+  }
+  [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+    const suffix = Object.entries(group.condition)
+      .map(([property, value]) => nodeNameToComponentName(propNames[property]) + nodeNameToComponentName(value))
+      .join("");
+    const name = uniqueName(`${baseName}${suffix}`, context.styleNames);
+    context.styles.push(formatStyle(name, group.tokens));
+    items.push(`${variantConditionToExpression(group.condition, propNames)} && styles.${name}`);
+  });
+
+  if (items.length === 0) {
+    context.styleNames.delete(baseName);
+    return "";
+  }
+  return items.length === 1 && groups.base.length > 0 ? items[0] : `[${items.join(", ")}]`;
+}
+
+/**
+ * Generates an <SvgXml> element (react-native-svg) rendering the exported SVG markup.
+ * A single color variable becomes `currentColor`, set from its token through the color prop.
+ */
+function generateSvgXml(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  attributes: string,
+  context: NativeContext,
+  indentStr: string
+): string {
+  const colors: { [figmaVarName: string]: string } = {};
+  const bindings = getSVGColorBindings(node.styles, colors);
+  const variables = [...new Set(bindings.map((binding) => binding.variable))];
+  let markup = node.svg || "";
+  let colorAttribute = "";
+  if (variables.length === 1) {
+    markup = rewriteSVGColors(markup, bindings, (binding) => `${binding.attribute}="currentColor"`);
+    colorAttribute = ` color={${tokenOrValue(JSON.stringify(colors[variables[0]]), variables[0], context)}}`;
+  }
+  const xml = markup
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .join("")
+    .replace(/[`\\]/g, (char) => `\\${char}`)
+    .replace(/\$\{/g, "\\${");
+  context.usesSvg = true;
+  return `${indentStr}<SvgXml xml={\`${xml}\`}${colorAttribute}${attributes} />`;
+}
+
+/**
+ * Recursively generates JSX from an extracted node tree.
+ *
+ * TEXT nodes become <Text>, leaf image fills <Image>, layers with an image fill and children
+ * <ImageBackground>, vectors <SvgXml> and every other layer a <View>. Images are bundled
+ * with require() from the exported assets.
+ *
+ * @param node - The extracted node with optional styles
+ * @param parentLayoutMode - layoutMode of the parent
+ * @param propNames - Prop names of the variant properties, keyed by Figma property name
+ * @param context - Native context (collects the StyleSheet entries, tokens and imports)
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root
+ * @returns JSX string for this node and its children
+ */
+function generateJSXRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  propNames: { [property: string]: string },
+  context: NativeContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+  const componentVariants = node.variants || variants;
+
+  let jsx = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      jsx += formatAnnotation(annotation, annotationFormat, indentStr, "jsx");
+    });
+  }
+
+  const style = registerStyles(node, parentLayoutMode, propNames, context, componentVariants, isRoot);
+  const attributes = style ? ` style={${style}}` : "";
+
+  if (node.svg) {
+    return jsx + generateSvgXml(node, attributes, context, indentStr);
+  }
+
+  if (node.type === "TEXT") {
+    context.elements.add("Text");
+    const content = escapeJSXText((node as any).characters || node.name || "");
+    return `${jsx}${indentStr}<Text${attributes}>${content}</Text>`;
+  }
+
+  const imageFill = getImageElementFill(node);
+  if (imageFill) {
+    context.elements.add("Image");
+    const resizeMode = imageFill.scaleMode === "FIT" ? "contain" : "cover";
+    return `${jsx}${indentStr}<Image source={require("./${imageFill.src}")} resizeMode="${resizeMode}"${attributes} />`;
+  }
+
+  const backgroundFill = node.styles?.fills?.[0];
+  let element = "View";
+  let imageAttributes = "";
+  if (backgroundFill?.type === "IMAGE" && backgroundFill.src) {
+    element = "ImageBackground";
+    const resizeMode = backgroundFill.scaleMode === "TILE" ? "repeat" : backgroundFill.scaleMode === "FIT" ? "contain" : "cover";
+    imageAttributes = ` source={require("./${backgroundFill.src}")} resizeMode="${resizeMode}"`;
+  }
+  context.elements.add(element);
+
+  if (node.children && node.children.length > 0) {
+    const layoutMode = node.styles?.layout?.layoutMode;
+    const children = node.children
+      .map((child) => generateJSXRecursive(
+        child, layoutMode, propNames, context, annotationFormat, prettify, indent + 1, componentVariants
+      ))
+      .join(newline);
+    return `${jsx}${indentStr}<${element}${imageAttributes}${attributes}>${newline}${children}${newline}${indentStr}</${element}>`;
+  }
+
+  return `${jsx}${indentStr}<${element}${imageAttributes}${attributes} />`;
+}
+
+/**
+ * Generates a React Native function component.
+ * Variant properties of a merged COMPONENT_SET become typed props defaulting to the default variant.
+ */
+function generateComponent(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  componentName: string,
+  context: NativeContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): string {
+  const propNames: { [property: string]: string } = {};
+  Object.keys(node.variants?.[0] || {}).forEach((property) => {
+    propNames[property] = propertyNameToPropName(property);
+  });
+
+  const jsx = generateJSXRecursive(
+    { ...node, annotations: undefined }, undefined, propNames, context, annotationFormat, prettify, 2, undefined, true
+  );
+  const body = prettify ? `  return (\n${jsx}\n  );` : `  return (${jsx});`;
+  // Annotations of the root node document the component (a comment next to the root element is not valid JSX)
+  const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+    ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+    : "";
+
+  const properties = Object.keys(propNames);
+  if (!node.variants || properties.length === 0) {
+    return `${docComment}export function ${componentName}() {\n${body}\n}`;
+  }
+
+  // Variant props: a union of the values of each property, defaulting to the default variant
+  const members = properties.map((property) => {
+    const values = [...new Set(node.variants!.map((variant: VariantCondition) => variant[property]))];
+    return `  ${propNames[property]}?: ${values.map((value) => JSON.stringify(value)).join(" | ")};`;
+  });
+  const parameters = properties
+    .map((property) => `${propNames[property]} = ${JSON.stringify(node.variants![0][property])}`)
+    .join(", ");
+
+  return [
+    `export interface ${componentName}Props {\n${members.join("\n")}\n}`,
+    "",
+    `${docComment}export function ${componentName}({ ${parameters} }: ${componentName}Props) {\n${body}\n}`,
+  ].join("\n");
+}
+
+/**
+ * Converts a Figma variable value of another mode to code, in the same units as the styles
+ * (colors as hex or rgba strings, lengths as unitless numbers).
+ */
+function modeValueToNative(value: any): string {
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value && typeof value === "object") {
+    if ("r" in value && "g" in value && "b" in value) {
+      const hex = [value.r, value.g, value.b].map((channel: number) => Math.round(channel * 255).toString(16).padStart(2, "0")).join("");
+      return JSON.stringify(colorToNative(`#${hex}`, value.a !== undefined ? value.a : 1));
+    }
+    if ("value" in value) return String(value.value);
+  }
+  return JSON.stringify(String(value));
+}
+
+/**
+ * Generates the tokens module: one exported constant per Figma variable used by the styles
+ * (default-mode value), plus an object per other variable mode holding the values that
+ * differ, to swap in when the app switches theme.
+ */
+function generateTokensModule(nodes: (ExtractedNode & { styles?: ExtractedStyles })[], context: NativeContext): string {
+  const tokens = Object.entries(context.tokens);
+  if (tokens.length === 0) {
+    return "// No Figma variables are used by the components\nexport {};\n";
+  }
+
+  const sections = [tokens.map(([, token]) => `export const ${token.name} = ${token.value};`).join("\n")];
+
+  const variableModes = collectVariableModes(nodes);
+  const modes: { [modeName: string]: string[] } = {};
+  tokens.forEach(([figmaVarName, token]) => {
+    const modeValues = variableModes[figmaVarName];
+    if (!modeValues) return;
+    Object.entries(modeValues.valuesByMode).forEach(([modeName, value]) => {
+      if (modeName === modeValues.defaultMode) return;
+      const code = modeValueToNative(value);
+      if (code === token.value) return;
+      (modes[modeName] = modes[modeName] || []).push(`  ${token.name}: ${code},`);
+    });
+  });
+  Object.entries(modes).forEach(([modeName, entries]) => {
+    const constName = `${nameToIdentifier(modeName, "mode")}Tokens`;
+    sections.push(`// Values of the "${modeName}" mode that differ from the default\nexport const ${constName} = {\n${entries.join("\n")}\n};`);
+  });
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Generates React Native components from extracted nodes.
+ *
+ * The layout is mapped to <View>, <Text> and <Image> elements styled by a single
+ * StyleSheet.create object. Styles are built from the extracted values rather than the
+ * CSS output, since React Native differs in units and property semantics: unitless
+ * lengths, numeric font weights, unitless line heights, flexbox defaults and shadows as
+ * shadowColor/shadowOffset/shadowOpacity/shadowRadius plus elevation on Android.
+ *
+ * Values bound to Figma variables are imported from the tokens module (tokens.ts).
+ * Merged COMPONENT_SETs get typed variant props selecting conditional styles.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format the JSX with indentation (true) or keep it compact (false)
+ * @returns GeneratedReactNative object with the TSX module, the tokens module and used variables
+ */
+export function generateReactNative(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "tsx",
+  prettify: boolean = true
+): GeneratedReactNative {
+  const context: NativeContext = {
+    tokens: {},
+    styleNames: new Set(),
+    componentNames: new Set(),
+    styles: [],
+    elements: new Set(),
+    usesSvg: false,
+  };
+
+  const components = nodes.map((node) => {
+    const componentName = uniqueName(nodeNameToComponentName(node.name), context.componentNames);
+    return generateComponent(node, componentName, context, annotationFormat, prettify);
+  });
+
+  const imports = [`import { ${[...context.elements, "StyleSheet"].sort().join(", ")} } from "react-native";`];
+  if (context.usesSvg) {
+    imports.push(`import { SvgXml } from "react-native-svg";`);
+  }
+  const tokenNames = Object.values(context.tokens).map((token) => token.name);
+  if (tokenNames.length > 0) {
+    imports.push(`import { ${tokenNames.join(", ")} } from "./tokens";`);
+  }
+
+  const styleSheet = context.styles.length > 0
+    ? `const styles = StyleSheet.create({\n${context.styles.join("\n")}\n});`
+    : "const styles = StyleSheet.create({});";
+  const tsx = `${imports.join("\n")}\n\n${components.join("\n\n")}\n\n${styleSheet}\n`;
+
+  const usedVariables = Object.keys(context.tokens)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    tsx,
+    tokens: generateTokensModule(nodes, context),
+    tokensFileName: "tokens.ts",
+    stylesheet: tsx,
+    usedVariables: usedVariables,
+  };
+}
@@ -0,0 +1,421 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat, ExtractionWarning } from "@common/networkSides";
+import {
+  VariableMap,
+  VariableDeclarations,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  collectVariableDeclarations,
+  typographyToCSS,
+  getImageElementFill,
+} from "./cssGenerator";
+import { filterUselessProperties, nodeToCSSProperties } from "./domGenerator";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+import { createRichTextWarning, escapeHTML, formatAnnotation, generateInlineSVG } from "./generatorHelpers";
+
+export interface GeneratedSCSS {
+  html: string;
+  scss: string; // Component stylesheet with nested selectors
+  tokens: string; // Token variables, $tokens maps and typography mixins
+  scssFileName: string; // e.g., "button.scss"
+  tokensFileName: string; // "_tokens.scss", loaded by the component stylesheet with @use
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+  warnings: ExtractionWarning[]; // Rich text layers output with the style of the whole layer
+}
+
+/**
+ * A rule of the component stylesheet, nested like the layers.
+ */
+interface SCSSBlock {
+  selector: string; // ".button" at the root, "> .label" for layers
+  declarations: string[]; // @include lines first, then properties
+  children: SCSSBlock[];
+}
+
+/**
+ * Declarations of a layer that apply under a variant condition, relative to the component root.
+ */
+interface SCSSModifier {
+  path: string; // Child selector path from the root (e.g., "> .content > .label"), empty for the root
+  declarations: string[];
+}
+
+/**
+ * State shared while generating the stylesheets of the selected nodes.
+ */
+interface SCSSContext {
+  variableMap: VariableMap;
+  mixins: { [name: string]: string[] }; // Typography mixins keyed by name (from Figma text styles)
+  warnings: ExtractionWarning[];
+}
+
+/**
+ * Converts a node name to a CSS class name.
+ * Examples: "Button" → "button", "Icon / Leading" → "icon-leading"
+ */
+function nodeNameToClassName(nodeName: string): string {
+  return nodeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Replaces CSS variable references with the Sass variables of the tokens file.
+ * Themed tokens stay CSS variables, so the data-theme blocks of the tokens file apply.
+ * Example: "padding: var(--spacing-4)" → "padding: $spacing-4"
+ */
+function cssVariablesToSass(value: string, themedTokens: Set<string> = new Set()): string {
+  return value.replace(/var\(--([a-zA-Z0-9_-]+)\)/g, (reference, name: string) => themedTokens.has(name) ? reference : `$${name}`);
+}
+
+/**
+ * Converts a variant condition to the attribute selector of the component root.
+ * Example: { Size: "lg", State: "hover" } → `&[data-size="lg"][data-state="hover"]`
+ */
+function variantConditionToSelector(condition: VariantCondition): string {
+  return "&" + Object.entries(condition)
+    .map(([property, value]) => `[${variantPropertyToDataAttribute(property)}="${value.replace(/"/g, '\\"')}"]`)
+    .join("");
+}
+
+/**
+ * Moves the typography of a TEXT node with a Figma text style into a mixin.
+ *
+ * The mixin is declared once per text style, from the first node using it. The node's
+ * properties that the mixin already sets are replaced with `@include <style>`, so only
+ * local overrides of the text style stay in the rule.
+ *
+ * @param node - The extracted node
+ * @param properties - CSS properties of the node (CSS variable references)
+ * @param context - SCSS context (collects the mixins)
+ * @returns Declarations of the rule (CSS variable references)
+ */
+function applyTypographyMixin(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  properties: string[],
+  context: SCSSContext
+): string[] {
+  const typography = node.styles?.typography;
+  const mixinName = typography?.textStyle ? nodeNameToClassName(typography.textStyle) : "";
+  if (node.type !== "TEXT" || !mixinName) {
+    return properties;
+  }
+
+  if (!context.mixins[mixinName]) {
+    context.mixins[mixinName] = typographyToCSS(typography, context.variableMap);
+  }
+  const mixinProperties = context.mixins[mixinName];
+  return [`@include ${mixinName}`, ...properties.filter((property) => !mixinProperties.includes(property))];
+}
+
+/**
+ * Recursively generates the HTML of a node and its nested SCSS block.
+ *
+ * Every layer gets a class named after it (unique among its siblings), and its rule is
+ * nested in its parent's with a child combinator (`> .label`), so the stylesheet mirrors
+ * the layer hierarchy. For a merged COMPONENT_SET, the styles that differ between variants
+ * are collected as modifiers of the root's data attributes.
+ *
+ * @param node - The extracted node with optional styles
+ * @param className - Class of the node
+ * @param path - Child selector path from the component root (empty for the root)
+ * @param context - SCSS context (collects the typography mixins)
+ * @param modifiers - Modifier declarations of the component, keyed by condition selector
+ * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
+ * @param prettify - Whether to format the HTML with indentation or keep it compact
+ * @param indent - Current indentation level of the HTML
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @returns HTML of the node and its SCSS block
+ */
+function generateNodeRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  className: string,
+  path: string,
+  context: SCSSContext,
+  modifiers: { [selector: string]: SCSSModifier[] },
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[]
+): { html: string; block: SCSSBlock } {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+  const componentVariants = node.variants || variants;
+
+  let properties: string[];
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+      return styles ? filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap)) : null;
+    });
+    const groups = groupVariantTokens(tokensByVariant, componentVariants, "display: none");
+    properties = groups.base;
+    [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+      const selector = variantConditionToSelector(group.condition);
+      (modifiers[selector] = modifiers[selector] || []).push({ path, declarations: group.tokens });
+    });
+  } else {
+    properties = filterUselessProperties(nodeToCSSProperties(node, context.variableMap));
+  }
+
+  const block: SCSSBlock = {
+    selector: path ? `> .${className}` : `.${className}`,
+    declarations: applyTypographyMixin(node, properties, context),
+    children: [],
+  };
+
+  let html = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      html += formatAnnotation(annotation, annotationFormat, indentStr);
+    });
+  }
+
+  const imageFill = getImageElementFill(node);
+  const attrs = [`class="${className}"`];
+  if (node.variants) {
+    // The root carries the default variant values, matched by the modifier blocks
+    Object.entries(node.variants[0] || {}).forEach(([property, value]) => {
+      attrs.push(`${variantPropertyToDataAttribute(property)}="${escapeHTML(value as string)}"`);
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeHTML(node.name)}"`);
+  }
+  const attributes = ` ${attrs.join(" ")}`;
+
+  // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+  if (node.svg) {
+    html += generateInlineSVG(node, context.variableMap, attributes, indentStr, prettify);
+    return { html, block };
+  }
+
+  const tag = imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+  if (node.type === "TEXT") {
+    const richTextWarning = createRichTextWarning(node, "SCSS");
+    if (richTextWarning) {
+      context.warnings.push(richTextWarning);
+    }
+    html += `${indentStr}<${tag}${attributes}>${escapeHTML((node as any).characters || node.name || "")}</${tag}>`;
+    return { html, block };
+  }
+  if (!node.children || node.children.length === 0) {
+    html += imageFill ? `${indentStr}<${tag}${attributes} />` : `${indentStr}<${tag}${attributes}></${tag}>`;
+    return { html, block };
+  }
+
+  const siblingClasses = new Set<string>();
+  const childrenHTML = node.children.map((child) => {
+    const baseName = nodeNameToClassName(child.name) || child.type.toLowerCase();
+    let childClass = baseName;
+    for (let suffix = 2; siblingClasses.has(childClass); suffix++) {
+      childClass = `${baseName}-${suffix}`;
+    }
+    siblingClasses.add(childClass);
+
+    const childPath = `${path ? `${path} ` : ""}> .${childClass}`;
+    const result = generateNodeRecursive(
+      child, childClass, childPath, context, modifiers, annotationFormat, prettify, indent + 1, componentVariants
+    );
+    block.children.push(result.block);
+    return result.html;
+  });
+
+  html += `${indentStr}<${tag}${attributes}>${newline}${childrenHTML.join(newline)}${newline}${indentStr}</${tag}>`;
+  return { html, block };
+}
+
+/**
+ * Formats a nested SCSS block, with the CSS variables of its declarations replaced by
+ * Sass variables (except themed tokens). Blocks without declarations or children are left out.
+ */
+function formatBlock(block: SCSSBlock, indent: number, themedTokens: Set<string>): string {
+  const indentStr = "  ".repeat(indent);
+  const declarations = block.declarations.map((declaration) => `${indentStr}  ${cssVariablesToSass(declaration, themedTokens)};`).join("\n");
+  const children = block.children.map((child) => formatBlock(child, indent + 1, themedTokens)).filter((child) => child);
+  if (!declarations && children.length === 0) {
+    return "";
+  }
+  const body = [declarations, ...children].filter((part) => part).join("\n\n");
+  return `${indentStr}${block.selector} {\n${body}\n${indentStr}}`;
+}
+
+/**
+ * Generates the tokens file: Sass variables for the used Figma variables (default mode),
+ * a $tokens map of them, a $tokens-<theme> map per other mode, and the typography mixins.
+ *
+ * Aliased variables are declared after the variables they reference
+ * (e.g., $color-button-bg: $color-blue-500).
+ *
+ * Tokens whose value changes with the mode are also declared as CSS variables, on :root
+ * and in a [data-theme="<theme>"] block per other mode reading its $tokens-<theme> map,
+ * like the CSS output. The component stylesheet references them with var().
+ *
+ * @param declarations - Declarations of the used variables (see collectVariableDeclarations)
+ * @param context - SCSS context (holds the typography mixins)
+ * @param themedTokens - Names of the tokens with a value in another mode (without "--")
+ */
+function generateTokensFile(
+  declarations: VariableDeclarations,
+  context: SCSSContext,
+  themedTokens: Set<string>
+): string {
+  const sections: string[] = [];
+  const { root, themes } = declarations;
+  const sassName = (cssVarName: string) => cssVarName.replace(/^--/, "");
+
+  // Plain values first (grouped by library), then aliases once their targets are declared
+  const declared = new Set<string>();
+  let aliases: { name: string; value: string }[] = [];
+  Object.entries(root).forEach(([library, declarations]) => {
+    const lines = declarations
+      .filter((declaration) => {
+        if (declaration.value.includes("var(")) {
+          aliases.push(declaration);
+          return false;
+        }
+        declared.add(declaration.name);
+        return true;
+      })
+      .map(({ name, value }) => `$${sassName(name)}: ${value};`);
+    if (lines.length > 0) {
+      sections.push([library ? `// Library: ${library}` : "// Figma variables (default mode)", ...lines].join("\n"));
+    }
+  });
+
+  const aliasLines: string[] = [];
+  while (aliases.length > 0) {
+    const ready = aliases.filter(({ value }) => {
+      const references = value.match(/--[a-zA-Z0-9_-]+/g) || [];
+      return references.every((reference) => declared.has(reference));
+    });
+    // Unresolvable references (cycles) are declared as they are
+    const batch = ready.length > 0 ? ready : aliases;
+    batch.forEach(({ name, value }) => {
+      declared.add(name);
+      aliasLines.push(`$${sassName(name)}: ${cssVariablesToSass(value)};`);
+    });
+    aliases = aliases.filter((alias) => !batch.includes(alias));
+  }
+  if (aliasLines.length > 0) {
+    sections.push(["// Aliases", ...aliasLines].join("\n"));
+  }
+
+  const allDeclarations = Object.values(root).reduce((all, declarations) => all.concat(declarations), []);
+  if (allDeclarations.length > 0) {
+    const entries = allDeclarations.map(({ name }) => `  "${sassName(name)}": $${sassName(name)},`);
+    sections.push(`// Tokens by name (e.g., map.get($tokens, "color-bg"))\n$tokens: (\n${entries.join("\n")}\n);`);
+  }
+
+  Object.entries(themes).forEach(([themeName, declarations]) => {
+    const entries = declarations.map(({ name, value }) => `  "${sassName(name)}": ${cssVariablesToSass(value)},`);
+    sections.push(`// Values of the "${themeName}" mode that differ from the default\n$tokens-${themeName}: (\n${entries.join("\n")}\n);`);
+  });
+
+  if (themedTokens.size > 0) {
+    const rootLines = [...themedTokens].map((name) => `  --${name}: #{$${name}};`);
+    const themeBlocks = Object.entries(themes).map(([themeName, declarations]) => {
+      const lines = declarations.map(({ name }) => `  ${name}: #{map.get($tokens-${themeName}, "${sassName(name)}")};`);
+      return `[data-theme="${themeName}"] {\n${lines.join("\n")}\n}`;
+    });
+    sections.unshift(`@use "sass:map";`);
+    sections.push([`// Themed tokens as CSS variables, switched by a data-theme attribute\n:root {\n${rootLines.join("\n")}\n}`, ...themeBlocks].join("\n\n"));
+  }
+
+  Object.entries(context.mixins).forEach(([name, properties]) => {
+    const lines = properties.map((property) => `  ${cssVariablesToSass(property, themedTokens)};`);
+    sections.push(`// Text style\n@mixin ${name} {\n${lines.join("\n")}\n}`);
+  });
+
+  return sections.length > 0 ? `${sections.join("\n\n")}\n` : "// No Figma variables or text styles are used\n";
+}
+
+/**
+ * Generates HTML with SCSS stylesheets from extracted nodes.
+ *
+ * The output is made of:
+ * - HTML where every layer has a class named after it
+ * - A component stylesheet (e.g., button.scss) whose rules are nested like the layers
+ *   (.button { > .label { ... } }), starting with `@use "tokens" as *;`
+ * - _tokens.scss: the used Figma variables as Sass variables plus a $tokens map,
+ *   a $tokens-<theme> map per other variable mode, and a @mixin per Figma text style
+ *
+ * Tokens that change with the mode are referenced as CSS variables (var(--color-bg)),
+ * declared in the :root and [data-theme] blocks of the tokens file.
+ *
+ * TEXT layers using a text style `@include` its mixin and only keep their local overrides.
+ * For a merged COMPONENT_SET, the styles that differ between variants are nested in
+ * attribute blocks of the root (&[data-size="lg"] { > .label { ... } }).
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
+ * @param prettify - Whether to format the HTML with indentation (true) or keep it compact (false)
+ * @returns GeneratedSCSS object with the HTML, the stylesheets and their file names, and used variables
+ */
+export function generateSCSS(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedSCSS {
+  const context: SCSSContext = { variableMap: {}, mixins: {}, warnings: [] };
+  const rootClasses = new Set<string>();
+  const htmlParts: string[] = [];
+  const blocks: SCSSBlock[] = [];
+
+  nodes.forEach((node) => {
+    const baseName = nodeNameToClassName(node.name) || "component";
+    let className = baseName;
+    for (let suffix = 2; rootClasses.has(className); suffix++) {
+      className = `${baseName}-${suffix}`;
+    }
+    rootClasses.add(className);
+
+    const modifiers: { [selector: string]: SCSSModifier[] } = {};
+    const { html, block } = generateNodeRecursive(node, className, "", context, modifiers, annotationFormat, prettify, 0);
+
+    // Variant modifiers are nested at the end of the root block
+    Object.entries(modifiers).forEach(([selector, entries]) => {
+      const modifierBlock: SCSSBlock = { selector, declarations: [], children: [] };
+      entries.forEach(({ path, declarations }) => {
+        if (path) {
+          modifierBlock.children.push({ selector: path, declarations, children: [] });
+        } else {
+          modifierBlock.declarations.push(...declarations);
+        }
+      });
+      block.children.push(modifierBlock);
+    });
+
+    htmlParts.push(html);
+    blocks.push(block);
+  });
+
+  // Tokens with a value in another mode, referenced as CSS variables so the theme blocks apply
+  const declarations = collectVariableDeclarations(context.variableMap, collectVariableModes(nodes));
+  const themedTokens = new Set<string>();
+  Object.values(declarations.themes).forEach((themeDeclarations) => {
+    themeDeclarations.forEach(({ name }) => themedTokens.add(name.replace(/^--/, "")));
+  });
+
+  const tokens = generateTokensFile(declarations, context, themedTokens);
+  const formattedBlocks = blocks.map((block) => formatBlock(block, 0, themedTokens)).filter((block) => block);
+  const scss = `@use "tokens" as *;\n\n${formattedBlocks.join("\n\n")}\n`;
+  const html = htmlParts.join(prettify ? "\n\n" : "");
+
+  const usedVariables = Object.keys(context.variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    html,
+    scss,
+    tokens,
+    scssFileName: `${nodeNameToClassName(nodes[0]?.name || "") || "component"}.scss`,
+    tokensFileName: "_tokens.scss",
+    stylesheet: html,
+    usedVariables: usedVariables,
+    warnings: context.warnings,
+  };
+}
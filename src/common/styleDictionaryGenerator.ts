@@ -0,0 +1,109 @@
+import { TokenVariable } from "@plugin/extractors/styleExtractor";
+import { OutputFile } from "@common/networkSides";
+import { figmaVariableToCSSVariable, modeNameToThemeName } from "./cssGenerator";
+import {
+  variableNameToTokenPath,
+  resolvedTypeToTokenType,
+  variableValueToTokenValue,
+  getTokenModeValue,
+  getOtherModeNames,
+  setTokenAtPath,
+} from "./designTokensGenerator";
+
+export interface GeneratedStyleDictionary {
+  json: string; // Style Dictionary source with the default-mode values
+  files: OutputFile[]; // One source file per other mode (e.g., tokens.dark.json)
+  fileName: string; // "tokens.json"
+  stylesheet: string;
+  usedVariables: string[]; // CSS variable names of the exported variables
+}
+
+/**
+ * Style Dictionary category (the C of Category/Type/Item) of each Figma resolvedType.
+ * Built-in transforms select tokens by category (e.g., size/rem applies to "size").
+ */
+const CATEGORIES: { [resolvedType: string]: string } = {
+  COLOR: "color",
+  FLOAT: "size",
+  STRING: "content",
+  BOOLEAN: "content",
+};
+
+/**
+ * Returns the Category/Type/Item path of a variable: its slash path under the category of
+ * its type, unless the path already starts with that category.
+ * Examples: "color/bg/primary" (COLOR) → ["color", "bg", "primary"],
+ * "space/4" (FLOAT) → ["size", "space", "4"]
+ */
+function variableToCTIPath(variableName: string, resolvedType: string): string[] {
+  const path = variableNameToTokenPath(variableName);
+  const category = CATEGORIES[resolvedType] || "size";
+  return path[0] === category ? path : [category, ...path];
+}
+
+/**
+ * Builds the Style Dictionary source of one mode: each variable becomes a token object
+ * ({ value, type, comment }) nested under its Category/Type/Item path.
+ */
+function buildSourceTree(variables: TokenVariable[], modeName: string | undefined): { [key: string]: any } {
+  // Aliases reference the CTI path of their target (targets share the type of the variable aliasing them)
+  const paths = new Map(variables.map((variable) => [variable.name, variableToCTIPath(variable.name, variable.resolvedType)]));
+
+  const tree: { [key: string]: any } = {};
+  variables.forEach((variable) => {
+    const path = paths.get(variable.name)!;
+    if (path.length < 2) return;
+    const value = getTokenModeValue(variable, modeName || variable.defaultMode);
+    if (value === undefined) return;
+    const toReference = (variableName: string) =>
+      `{${(paths.get(variableName) || variableToCTIPath(variableName, variable.resolvedType)).join(".")}.value}`;
+    setTokenAtPath(tree, path, {
+      value: variableValueToTokenValue(value, toReference),
+      type: resolvedTypeToTokenType(variable.resolvedType),
+      ...(variable.description ? { comment: variable.description } : {}),
+    });
+  });
+  return tree;
+}
+
+/**
+ * Generates Style Dictionary source JSON from Figma variables.
+ *
+ * TOKEN TREE:
+ * Tokens are nested Category/Type/Item objects: the category comes from the variable type
+ * (color, size, content) and the type and item from the slash path of its name
+ * ("space/4" → size.space.4). Each token has a value, a type and, when the variable has
+ * a description, a comment. Aliases are references to the value of their token
+ * ("{color.blue.500.value}").
+ *
+ * MODES:
+ * As with the DTCG export, tokens.json holds the default mode of every collection and
+ * tokens.<mode>.json the values of each other mode (build them with one Style Dictionary
+ * config per mode).
+ *
+ * @param variables - Variables to export (see getTokenVariables)
+ * @param prettify - Whether to indent the JSON (true) or write it on one line (false)
+ * @returns GeneratedStyleDictionary object with the default-mode source, the other mode files and used variables
+ */
+export function generateStyleDictionary(
+  variables: TokenVariable[],
+  prettify: boolean = true
+): GeneratedStyleDictionary {
+  const stringify = (tree: { [key: string]: any }) => `${JSON.stringify(tree, null, prettify ? 2 : undefined)}\n`;
+  const json = stringify(buildSourceTree(variables, undefined));
+
+  const files = getOtherModeNames(variables).map((modeName) => ({
+    name: `tokens.${modeNameToThemeName(modeName) || "mode"}.json`,
+    content: stringify(buildSourceTree(variables, modeName)),
+  }));
+
+  const usedVariables = [...new Set(variables.map((variable) => figmaVariableToCSSVariable(variable.name)))].sort();
+
+  return {
+    json,
+    files,
+    fileName: "tokens.json",
+    stylesheet: json,
+    usedVariables,
+  };
+}
@@ -0,0 +1,433 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat, ExtractionWarning, StyledLibrary } from "@common/networkSides";
+import {
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  collectVariableDeclarations,
+  getImageElementFill,
+} from "./cssGenerator";
+import { filterUselessProperties, nodeToCSSProperties } from "./domGenerator";
+import {
+  propertyNameToPropName,
+  escapeAttribute,
+  escapeJSXText,
+  createRichTextWarning,
+  formatAnnotation,
+  generateInlineSVG,
+  nodeNameToComponentName,
+} from "./generatorHelpers";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+
+export interface GeneratedStyledComponents {
+  tsx: string;
+  theme: string; // Theme module (theme object per variable mode, typed for the library)
+  themeFileName: string; // "theme.ts"
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+  warnings: ExtractionWarning[]; // Rich text layers output with the style of the whole layer
+}
+
+/**
+ * Theme entry of a Figma variable (e.g., theme.colors.fillPrimary).
+ */
+interface ThemeToken {
+  category: string; // Theme scale (e.g., "colors", "space")
+  key: string; // Key in the scale (e.g., "fillPrimary")
+}
+
+/**
+ * State shared while generating the styled components of the selected nodes.
+ */
+interface StyledContext {
+  variableMap: VariableMap;
+  tokens: { [cssVarName: string]: ThemeToken }; // Theme entries keyed by CSS variable name (e.g., "--fill-primary")
+  componentNames: Set<string>; // Names of the styled components and exported components
+  declarations: string[]; // Styled component declarations, in document order
+  warnings: ExtractionWarning[];
+}
+
+/**
+ * Theme scale of the tokens used by each CSS property (System UI theme specification).
+ * Properties not listed put their tokens in "tokens".
+ */
+const PROPERTY_THEME_SCALES: { [property: string]: string } = {
+  "color": "colors",
+  "background-color": "colors",
+  "border-color": "colors",
+  "outline-color": "colors",
+  "fill": "colors",
+  "stroke": "colors",
+  "padding": "space",
+  "padding-top": "space",
+  "padding-right": "space",
+  "padding-bottom": "space",
+  "padding-left": "space",
+  "margin": "space",
+  "gap": "space",
+  "row-gap": "space",
+  "column-gap": "space",
+  "top": "space",
+  "right": "space",
+  "bottom": "space",
+  "left": "space",
+  "width": "sizes",
+  "height": "sizes",
+  "min-width": "sizes",
+  "max-width": "sizes",
+  "min-height": "sizes",
+  "max-height": "sizes",
+  "border-radius": "radii",
+  "border-width": "borderWidths",
+  "font-family": "fonts",
+  "font-size": "fontSizes",
+  "font-weight": "fontWeights",
+  "line-height": "lineHeights",
+  "letter-spacing": "letterSpacings",
+  "box-shadow": "shadows",
+  "opacity": "opacities",
+};
+
+/**
+ * Converts a CSS variable name to a camelCase theme key.
+ * Examples: "--fill-primary" → "fillPrimary", "--spacing-4" → "spacing4"
+ */
+function cssVariableToThemeKey(cssVarName: string): string {
+  const words = cssVarName.replace(/^--/, "").split(/[^a-zA-Z0-9]+/).filter((word) => word);
+  const key = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!key) return "token";
+  return /^[0-9]/.test(key) ? `token${key}` : key;
+}
+
+/**
+ * Reserves a component name (e.g., "Label", "Label2").
+ */
+function uniqueComponentName(baseName: string, context: StyledContext): string {
+  let name = baseName;
+  for (let suffix = 2; context.componentNames.has(name); suffix++) {
+    name = `${baseName}${suffix}`;
+  }
+  context.componentNames.add(name);
+  return name;
+}
+
+/**
+ * Returns the theme entry of a CSS variable. A variable gets its scale from the first
+ * property using it, and keeps it for every later use.
+ */
+function getThemeToken(cssVarName: string, property: string, context: StyledContext): ThemeToken {
+  if (!context.tokens[cssVarName]) {
+    const category = PROPERTY_THEME_SCALES[property] || "tokens";
+    const baseKey = cssVariableToThemeKey(cssVarName);
+    const usedKeys = new Set(Object.values(context.tokens).filter((token) => token.category === category).map((token) => token.key));
+    let key = baseKey;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${baseKey}${suffix}`;
+    }
+    context.tokens[cssVarName] = { category, key };
+  }
+  return context.tokens[cssVarName];
+}
+
+/**
+ * Converts a CSS property to a declaration of a styled template literal.
+ * CSS variable references become theme interpolations.
+ * Example: "padding: var(--spacing-4)" → "padding: ${({ theme }) => theme.space.spacing4};"
+ */
+function propertyToDeclaration(property: string, context: StyledContext): string {
+  const name = property.slice(0, property.indexOf(":")).trim();
+  const value = property
+    .replace(/`/g, "\\`")
+    .replace(/\$\{/g, "\\${")
+    .replace(/var\((--[a-zA-Z0-9_-]+)\)/g, (_, cssVarName: string) => {
+      const token = getThemeToken(cssVarName, name, context);
+      return `\${({ theme }) => theme.${token.category}.${token.key}}`;
+    });
+  return `${value};`;
+}
+
+/**
+ * Converts a variant condition to the selector of a layer's nested block.
+ * The root matches its own data attributes, layers match them on an ancestor.
+ * Example: { Size: "lg" } → `&[data-size="lg"]` (root), `[data-size="lg"] &` (layer)
+ */
+function variantConditionToSelector(condition: VariantCondition, isRoot: boolean): string {
+  const attributes = Object.entries(condition)
+    .map(([property, value]) => `[${variantPropertyToDataAttribute(property)}="${value.replace(/"/g, '\\"')}"]`)
+    .join("");
+  return isRoot ? `&${attributes}` : `${attributes} &`;
+}
+
+/**
+ * Recursively generates JSX from an extracted node tree, declaring a styled component
+ * for every layer with styles.
+ *
+ * Layers without styles (e.g., plain groups) are rendered as plain elements. For a merged
+ * COMPONENT_SET, styles that differ between variants become nested blocks matching the
+ * root's data attributes (`&[data-size="lg"]` on the root, `[data-size="lg"] &` on layers).
+ *
+ * @param node - The extracted node with optional styles
+ * @param componentName - Name of the exported component, prefixing its styled components (e.g., ButtonRoot, ButtonLabel)
+ * @param propNames - Prop names of the variant properties, keyed by Figma property name
+ * @param context - Styled context (collects the styled component declarations and theme tokens)
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root
+ * @returns JSX string for this node and its children
+ */
+function generateJSXRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  componentName: string,
+  propNames: { [property: string]: string },
+  context: StyledContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+  const componentVariants = node.variants || variants;
+  const imageFill = getImageElementFill(node);
+  const tag = node.svg ? "svg" : imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+
+  // Base declarations, plus nested blocks for the styles that differ between variants
+  let declarations: string[];
+  const blocks: string[] = [];
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+      return styles ? filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap)) : null;
+    });
+    const groups = groupVariantTokens(tokensByVariant, componentVariants, "display: none");
+    declarations = groups.base.map((property) => propertyToDeclaration(property, context));
+    [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+      const lines = group.tokens.map((property) => `    ${propertyToDeclaration(property, context)}`);
+      blocks.push(`  ${variantConditionToSelector(group.condition, isRoot)} {\n${lines.join("\n")}\n  }`);
+    });
+  } else {
+    declarations = filterUselessProperties(nodeToCSSProperties(node, context.variableMap))
+      .map((property) => propertyToDeclaration(property, context));
+  }
+
+  let element = tag;
+  if (isRoot || declarations.length > 0 || blocks.length > 0) {
+    const baseName = isRoot ? "Root" : nodeNameToComponentName(node.name);
+    element = uniqueComponentName(`${componentName}${baseName}`, context);
+    const body = [declarations.map((declaration) => `  ${declaration}`).join("\n"), ...blocks].filter((part) => part).join("\n\n");
+    context.declarations.push(`const ${element} = styled.${tag}\`${body ? `\n${body}\n` : ""}\`;`);
+  }
+
+  let jsx = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      jsx += formatAnnotation(annotation, annotationFormat, indentStr, "jsx");
+    });
+  }
+
+  const attrs: string[] = [];
+  if (node.variants) {
+    // Variant props select the nested variant blocks through data attributes
+    Object.keys(node.variants[0] || {}).forEach((property) => {
+      attrs.push(`${variantPropertyToDataAttribute(property)}={${propNames[property]}}`);
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+  if (node.svg) {
+    return jsx + generateInlineSVG(node, context.variableMap, attributes, indentStr, prettify, { jsx: true, element });
+  }
+
+  if (node.type === "TEXT") {
+    const richTextWarning = createRichTextWarning(node, "Styled");
+    if (richTextWarning) {
+      context.warnings.push(richTextWarning);
+    }
+    const content = escapeJSXText((node as any).characters || node.name || "");
+    return `${jsx}${indentStr}<${element}${attributes}>${content}</${element}>`;
+  }
+
+  if (node.children && node.children.length > 0) {
+    const children = node.children
+      .map((child) => generateJSXRecursive(
+        child, componentName, propNames, context, annotationFormat, prettify, indent + 1, componentVariants
+      ))
+      .join(newline);
+    return `${jsx}${indentStr}<${element}${attributes}>${newline}${children}${newline}${indentStr}</${element}>`;
+  }
+
+  return `${jsx}${indentStr}<${element}${attributes} />`;
+}
+
+/**
+ * Generates a React function component rendering the styled components of its layers.
+ * Variant properties of a merged COMPONENT_SET become typed props defaulting to the default variant.
+ */
+function generateComponent(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  componentName: string,
+  context: StyledContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): string {
+  const propNames: { [property: string]: string } = {};
+  Object.keys(node.variants?.[0] || {}).forEach((property) => {
+    propNames[property] = propertyNameToPropName(property);
+  });
+
+  // Styled components of the layers are prefixed with the component name (e.g., ButtonRoot, ButtonLabel)
+  const firstDeclaration = context.declarations.length;
+  const jsx = generateJSXRecursive(
+    { ...node, annotations: undefined }, componentName, propNames, context, annotationFormat, prettify, 2, undefined, true
+  );
+  const styledDeclarations = context.declarations.splice(firstDeclaration).join("\n\n");
+  const body = prettify ? `  return (\n${jsx}\n  );` : `  return (${jsx});`;
+  // Annotations of the root node document the component (a comment next to the root element is not valid JSX)
+  const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+    ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+    : "";
+
+  const properties = Object.keys(propNames);
+  if (!node.variants || properties.length === 0) {
+    return `${styledDeclarations}\n\n${docComment}export function ${componentName}() {\n${body}\n}`;
+  }
+
+  // Variant props: a union of the values of each property, defaulting to the default variant
+  const members = properties.map((property) => {
+    const values = [...new Set(node.variants!.map((variant: VariantCondition) => variant[property]))];
+    return `  ${propNames[property]}?: ${values.map((value) => JSON.stringify(value)).join(" | ")};`;
+  });
+  const parameters = properties
+    .map((property) => `${propNames[property]} = ${JSON.stringify(node.variants![0][property])}`)
+    .join(", ");
+
+  return [
+    styledDeclarations,
+    "",
+    `export interface ${componentName}Props {\n${members.join("\n")}\n}`,
+    "",
+    `${docComment}export function ${componentName}({ ${parameters} }: ${componentName}Props) {\n${body}\n}`,
+  ].join("\n");
+}
+
+/**
+ * Generates the theme module: a `theme` object holding the default-mode value of every
+ * token used by the styled components, grouped by scale, plus one theme per other variable
+ * mode overriding the values that differ. The theme type is declared for the library so
+ * `theme` is typed in the interpolations.
+ */
+function generateThemeModule(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  context: StyledContext,
+  library: StyledLibrary
+): string {
+  const { root, themes } = collectVariableDeclarations(context.variableMap, collectVariableModes(nodes));
+  const rootValues: { [cssVarName: string]: string } = {};
+  Object.values(root).forEach((declarations) => {
+    declarations.forEach(({ name, value }) => {
+      rootValues[name] = value;
+    });
+  });
+
+  // Concrete value of a declaration: aliases (var(--target)) are followed to their target's value
+  const resolveValue = (value: string, depth: number = 0): string => {
+    const alias = value.match(/^var\((--[a-zA-Z0-9_-]+)\)$/);
+    return alias && rootValues[alias[1]] !== undefined && depth < 10 ? resolveValue(rootValues[alias[1]], depth + 1) : value;
+  };
+
+  const formatScales = (values: { [cssVarName: string]: string }, spreadBase: boolean): string => {
+    const scales: { [category: string]: string[] } = {};
+    Object.entries(context.tokens).forEach(([cssVarName, token]) => {
+      if (values[cssVarName] === undefined) return;
+      (scales[token.category] = scales[token.category] || []).push(
+        `    ${token.key}: ${JSON.stringify(resolveValue(values[cssVarName]))},`
+      );
+    });
+    return Object.entries(scales).map(([category, entries]) => {
+      const spread = spreadBase ? `    ...theme.${category},\n` : "";
+      return `  ${category}: {\n${spread}${entries.join("\n")}\n  },`;
+    }).join("\n");
+  };
+
+  const provider = library === "emotion" ? `import { ThemeProvider } from "@emotion/react";` : `import { ThemeProvider } from "styled-components";`;
+  const usage = `// Usage:\n// ${provider}\n// <ThemeProvider theme={theme}>...</ThemeProvider>`;
+  const rootScales = formatScales(rootValues, false);
+  const sections = [usage, rootScales ? `export const theme = {\n${rootScales}\n};` : "export const theme = {};"];
+
+  Object.entries(themes).forEach(([themeName, declarations]) => {
+    const values: { [cssVarName: string]: string } = {};
+    declarations.forEach(({ name, value }) => {
+      values[name] = value;
+    });
+    const scales = formatScales(values, true);
+    if (!scales) return;
+    const themeConstName = `${cssVariableToThemeKey(themeName)}Theme`;
+    sections.push(`// Values of the "${themeName}" mode that differ from the default\nexport const ${themeConstName}: AppTheme = {\n  ...theme,\n${scales}\n};`);
+  });
+
+  sections.splice(2, 0, "export type AppTheme = typeof theme;");
+  sections.push(library === "emotion"
+    ? `declare module "@emotion/react" {\n  export interface Theme extends AppTheme {}\n}`
+    : `declare module "styled-components" {\n  export interface DefaultTheme extends AppTheme {}\n}`);
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Generates React components styled with styled-components or Emotion from extracted nodes.
+ *
+ * Every layer with styles gets a styled component (const ButtonLabel = styled.p`...`),
+ * built from the same CSS properties as the CSS output, and each selected node becomes an
+ * exported function component composing them. CSS variable references are replaced with
+ * theme interpolations (${({ theme }) => theme.colors.fillPrimary}); the theme module
+ * (theme.ts) holds their values, to be passed to the library's <ThemeProvider>.
+ *
+ * Merged COMPONENT_SETs get typed variant props, passed to the root as data attributes
+ * and matched by nested blocks in the styled components (e.g., [data-size="lg"] &).
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits JSX comments
+ * @param prettify - Whether to format the JSX with indentation (true) or keep it compact (false)
+ * @param library - Library the styled import and the theme typing are written for
+ * @returns GeneratedStyledComponents object with the TSX module, the theme module and used variables
+ */
+export function generateStyledComponents(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "tsx",
+  prettify: boolean = true,
+  library: StyledLibrary = "styled-components"
+): GeneratedStyledComponents {
+  const context: StyledContext = { variableMap: {}, tokens: {}, componentNames: new Set(), declarations: [], warnings: [] };
+
+  const components = nodes.map((node) => {
+    const componentName = uniqueComponentName(nodeNameToComponentName(node.name), context);
+    return generateComponent(node, componentName, context, annotationFormat, prettify);
+  });
+
+  const importLine = library === "emotion"
+    ? `import styled from "@emotion/styled";`
+    : `import styled from "styled-components";`;
+  const tsx = `${importLine}\n\n${components.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(context.variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    tsx,
+    theme: generateThemeModule(nodes, context, library),
+    themeFileName: "theme.ts",
+    stylesheet: tsx,
+    usedVariables: usedVariables,
+    warnings: context.warnings,
+  };
+}
@@ -0,0 +1,431 @@
+import { ExtractedNode, ExtractedComponentProperty } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat, SvelteStyling } from "@common/networkSides";
+import {
+  CSSRule,
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateThemeStylesheet,
+  generateStylesheet,
+  styleBlockToCSSFile,
+  getImageElementFill,
+} from "./cssGenerator";
+import { filterUselessProperties, generateRichTextContent, nodeToCSSProperties } from "./domGenerator";
+import { nodeToTailwindClasses } from "./tailwindDomGenerator";
+import {
+  propertyNameToPropName,
+  escapeAttribute,
+  formatAnnotation,
+  generateInlineSVG,
+  svgColorToStyleAttribute,
+} from "./generatorHelpers";
+import { VariantCondition, VariantTokens, groupVariantTokens } from "./variantStyles";
+
+export interface GeneratedSvelte {
+  svelte: string; // Svelte component (script, markup and style)
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * A Figma component property exposed as a Svelte prop (or a slot for INSTANCE_SWAP properties).
+ */
+interface SvelteProp {
+  name: string; // Prop or slot name (e.g., "showIcon")
+  property: string; // Figma property name (e.g., "Show icon#12:1")
+  type: string; // TypeScript type (e.g., "boolean", "\"sm\" | \"lg\""), empty for slots
+  definition: ExtractedComponentProperty;
+}
+
+/**
+ * Svelte props of the component, keyed by Figma property name.
+ */
+type SveltePropMap = Map<string, SvelteProp>;
+
+/**
+ * State shared by the layers of the component while generating the markup.
+ */
+interface MarkupContext {
+  styling: SvelteStyling;
+  classNames: Set<string>; // Classes already used in the style block
+  rules: CSSRule[]; // Rules of the style block, in document order (scoped CSS styling)
+  modifiers: { [modifierClass: string]: string }; // Modifier classes of the current root, with the expression toggling them
+  variableMap: VariableMap;
+  props: SveltePropMap;
+}
+
+/**
+ * Converts a node name (or variant value) to a kebab-case class name.
+ * Examples: "Label" → "label", "Icon / Leading" → "icon-leading", "2 Col" → "layer-2-col"
+ */
+function nodeNameToClass(nodeName: string): string {
+  const name = nodeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  if (!name) return "layer";
+  return /^[0-9]/.test(name) ? `layer-${name}` : name;
+}
+
+/**
+ * Escapes text content for Svelte markup (HTML entities plus the { and } expression delimiters).
+ */
+function escapeMarkupText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\{/g, "&#123;")
+    .replace(/\}/g, "&#125;");
+}
+
+/**
+ * Reserves a class name in the style block (e.g., "label", "label-2").
+ */
+function uniqueClass(baseName: string, context: MarkupContext): string {
+  let className = baseName;
+  for (let suffix = 2; context.classNames.has(className); suffix++) {
+    className = `${baseName}-${suffix}`;
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Returns the TypeScript type of a component property.
+ * TEXT → string, BOOLEAN → boolean, VARIANT → union of its options. INSTANCE_SWAP properties are slots.
+ */
+function propertyToPropType(definition: ExtractedComponentProperty): string {
+  switch (definition.type) {
+    case "TEXT":
+      return "string";
+    case "BOOLEAN":
+      return "boolean";
+    case "INSTANCE_SWAP":
+      return "";
+    case "VARIANT":
+      return definition.variantOptions && definition.variantOptions.length > 0
+        ? definition.variantOptions.map((option) => JSON.stringify(option)).join(" | ")
+        : "string";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Builds the Svelte props of the selected components from their Figma component properties.
+ * Variant axes of a merged COMPONENT_SET are always props (they toggle the variant classes).
+ * Prop names are made unique (e.g., two "Icon" properties → "icon", "icon2").
+ */
+function buildSvelteProps(nodes: ExtractedNode[]): SveltePropMap {
+  const props: SveltePropMap = new Map();
+  const usedNames = new Set<string>();
+
+  const addProp = (property: string, definition: ExtractedComponentProperty) => {
+    if (props.has(property)) return;
+    const baseName = propertyNameToPropName(property);
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    usedNames.add(name);
+    props.set(property, { name, property, type: propertyToPropType(definition), definition });
+  };
+
+  nodes.forEach((node) => {
+    Object.entries(node.componentProperties || {}).forEach(([property, definition]) => addProp(property, definition));
+    Object.keys(node.variants?.[0] || {}).forEach((property) => {
+      const options = [...new Set(node.variants!.map((variant: VariantCondition) => variant[property]))];
+      addProp(property, { type: "VARIANT", defaultValue: node.variants![0][property], variantOptions: options });
+    });
+  });
+
+  return props;
+}
+
+/**
+ * Converts a variant condition to the expression testing the variant props.
+ * Example: { Size: "lg", State: "hover" } → `size === "lg" && state === "hover"`
+ */
+function variantConditionToExpression(condition: VariantCondition, props: SveltePropMap): string {
+  return Object.entries(condition)
+    .map(([property, value]) => `${props.get(property)?.name || propertyNameToPropName(property)} === ${JSON.stringify(value)}`)
+    .join(" && ");
+}
+
+/**
+ * Converts a variant condition to the modifier class toggled on the component root.
+ * Example: { Size: "lg", State: "hover" } → "size-lg-state-hover"
+ */
+function variantConditionToModifierClass(condition: VariantCondition): string {
+  return Object.entries(condition)
+    .map(([property, value]) => `${nodeNameToClass(property.replace(/#[^#]*$/, ""))}-${nodeNameToClass(value)}`)
+    .join("-");
+}
+
+/**
+ * Generates the class attribute and class: directives of a layer (Tailwind styling).
+ *
+ * The classes shared by all variants are in the class attribute, the others are toggled
+ * by class: directives on the variant props (class:text-lg={size === "lg"}). Classes a
+ * directive name cannot hold (e.g., w-1/2) are added by an expression in the class attribute.
+ */
+function tailwindClassAttributes(baseClasses: string[], groups: VariantTokens | null, props: SveltePropMap): string[] {
+  const expressions: string[] = [];
+  const directives: string[] = [];
+  if (groups) {
+    [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+      const condition = variantConditionToExpression(group.condition, props);
+      const unsafe = group.tokens.filter((token) => !/^[^\s=\/>"'{}]+$/.test(token));
+      group.tokens.filter((token) => !unsafe.includes(token)).forEach((token) => {
+        directives.push(`class:${token}={${condition}}`);
+      });
+      if (unsafe.length > 0) {
+        expressions.push(`{${condition} ? ${JSON.stringify(unsafe.join(" "))} : ""}`);
+      }
+    });
+  }
+  const classes = [...baseClasses, ...expressions];
+  return [...(classes.length > 0 ? [`class="${classes.join(" ")}"`] : []), ...directives];
+}
+
+/**
+ * Recursively generates the Svelte markup of an extracted node tree.
+ *
+ * Layers bound to component properties use the props instead of their Figma content:
+ * - TEXT property bound to characters → {label}
+ * - BOOLEAN property bound to visible → {#if showIcon}...{/if}
+ * - INSTANCE_SWAP property bound to mainComponent → <slot name="icon"> (the default instance as fallback)
+ *
+ * Styling depends on context.styling:
+ * - "css": every layer with styles gets a class and a rule in the scoped style block. For a
+ *   merged COMPONENT_SET, the root toggles one modifier class per variant condition with
+ *   class: directives (class:size-lg={size === "lg"}), matched by modifier rules
+ *   (.button.size-lg .label)
+ * - "tailwind": every layer gets the Tailwind classes of the Tailwind output. The classes
+ *   that differ between variants are toggled by class: directives on the layer itself
+ *
+ * @param node - The extracted node with optional styles
+ * @param rootClass - Class of the component root (modifier rules are scoped to it)
+ * @param context - Markup context (collects the class rules and modifiers, holds the props)
+ * @param annotationFormat - "none" removes annotations, any other format emits HTML comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root (it gets the root class)
+ * @returns Markup string for this node and its children
+ */
+function generateMarkupRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  rootClass: string,
+  context: MarkupContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+
+  // Props bound to this layer (references to properties of nested components are ignored)
+  const references = node.propertyReferences || {};
+  const visibleProp = references.visible ? context.props.get(references.visible) : undefined;
+  const slotProp = references.mainComponent ? context.props.get(references.mainComponent) : undefined;
+  const textProp = references.characters ? context.props.get(references.characters) : undefined;
+
+  // Conditional and swappable layers are rendered one level deeper, inside their block
+  const depth = (visibleProp ? 1 : 0) + (slotProp ? 1 : 0);
+  const elementIndent = indent + depth;
+  const elementIndentStr = prettify ? "  ".repeat(elementIndent) : "";
+
+  let markup = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      markup += formatAnnotation(annotation, annotationFormat, indentStr, "html");
+    });
+  }
+
+  // A hidden layer toggled by a prop is shown whenever the prop is set
+  const hiddenToken = context.styling === "tailwind" ? "hidden" : "display: none";
+  const visibleTokens = (tokens: string[]) => {
+    return visibleProp ? tokens.filter((token) => token !== hiddenToken) : tokens;
+  };
+  const nodeTokens = (styles: ExtractedStyles) => {
+    return visibleTokens(context.styling === "tailwind"
+      ? nodeToTailwindClasses({ ...node, styles }, context.variableMap)
+      : filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap)));
+  };
+
+  // Tokens shared by all variants, plus the groups of tokens that differ between variants
+  const componentVariants = node.variants || variants;
+  let baseTokens: string[] = [];
+  let groups: VariantTokens | null = null;
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => styles ? nodeTokens(styles) : null);
+    groups = groupVariantTokens(tokensByVariant, componentVariants, hiddenToken);
+    baseTokens = groups.base;
+  } else if (node.styles) {
+    baseTokens = nodeTokens(node.styles);
+  }
+
+  const attrs: string[] = [];
+  if (context.styling === "tailwind") {
+    attrs.push(...tailwindClassAttributes([nodeNameToClass(node.name), ...baseTokens], groups, context.props));
+  } else {
+    const hasVariantTokens = !!groups && groups.variants.length + groups.compoundVariants.length > 0;
+    const className = isRoot ? rootClass : baseTokens.length > 0 || hasVariantTokens ? uniqueClass(nodeNameToClass(node.name), context) : "";
+    if (baseTokens.length > 0) {
+      context.rules.push({ selector: `.${className}`, properties: baseTokens });
+    }
+    if (groups) {
+      [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+        const modifier = variantConditionToModifierClass(group.condition);
+        context.modifiers[modifier] = variantConditionToExpression(group.condition, context.props);
+        context.rules.push({
+          selector: isRoot ? `.${rootClass}.${modifier}` : `.${rootClass}.${modifier} .${className}`,
+          properties: group.tokens,
+        });
+      });
+    }
+    if (className) {
+      attrs.push(`class="${className}"`);
+    }
+  }
+
+  let children = "";
+  if (!node.svg && node.type !== "TEXT" && node.children && node.children.length > 0) {
+    children = node.children
+      .map((child) => generateMarkupRecursive(child, rootClass, context, annotationFormat, prettify, elementIndent + 1, componentVariants))
+      .join(newline);
+  }
+
+  if (isRoot && context.styling === "css") {
+    // The root toggles the modifiers of every layer (collected while generating the children)
+    Object.entries(context.modifiers).forEach(([modifier, expression]) => {
+      attrs.push(`class:${modifier}={${expression}}`);
+    });
+  }
+
+  const imageFill = getImageElementFill(node);
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  let element: string;
+  const tag = imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+  if (node.svg) {
+    // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+    element = generateInlineSVG(node, context.variableMap, attributes, elementIndentStr, prettify, { shapeColor: svgColorToStyleAttribute });
+  } else if (node.type === "TEXT") {
+    let content: string;
+    if (textProp) {
+      content = `{${textProp.name}}`;
+    } else if (node.styles?.typography?.segments) {
+      content = generateRichTextContent(node.styles, context.variableMap, escapeMarkupText);
+    } else {
+      content = escapeMarkupText((node as any).characters || node.name || "");
+    }
+    element = `${elementIndentStr}<${tag}${attributes}>${content}</${tag}>`;
+  } else if (children) {
+    element = `${elementIndentStr}<${tag}${attributes}>${newline}${children}${newline}${elementIndentStr}</${tag}>`;
+  } else {
+    element = `${elementIndentStr}<${tag}${attributes} />`;
+  }
+
+  // <slot name="icon"><default instance></slot>, wrapped in {#if showIcon}...{/if}
+  if (slotProp) {
+    const slotIndentStr = prettify ? "  ".repeat(indent + (visibleProp ? 1 : 0)) : "";
+    element = `${slotIndentStr}<slot name="${slotProp.name}">${newline}${element}${newline}${slotIndentStr}</slot>`;
+  }
+  if (visibleProp) {
+    element = `${indentStr}{#if ${visibleProp.name}}${newline}${element}${newline}${indentStr}{/if}`;
+  }
+  return markup + element;
+}
+
+/**
+ * Generates the <script lang="ts"> block declaring the props with `export let`.
+ * Props default to the values of the Figma properties; INSTANCE_SWAP properties are slots and have no prop.
+ */
+function generateScript(props: SveltePropMap): string {
+  const propList = [...props.values()].filter((prop) => prop.definition.type !== "INSTANCE_SWAP");
+  if (propList.length === 0) {
+    return "";
+  }
+
+  const declarations = propList.map((prop) => {
+    return `  /** Figma ${prop.definition.type} property "${prop.property.replace(/#[^#]*$/, "")}" */\n  export let ${prop.name}: ${prop.type} = ${JSON.stringify(prop.definition.defaultValue)};`;
+  });
+
+  return `<script lang="ts">\n${declarations.join("\n")}\n</script>`;
+}
+
+/**
+ * Generates a Svelte component from extracted nodes.
+ *
+ * The component has up to three blocks:
+ * - <script lang="ts">: `export let` props from the Figma component properties
+ *   (TEXT → string, BOOLEAN → boolean, VARIANT → union of the variant values), with their defaults
+ * - Markup: the layers of each selected node, annotations as HTML comments and
+ *   INSTANCE_SWAP properties as named slots
+ * - <style>: the CSS variables (in :global() blocks, so they are not scoped to the component),
+ *   then the scoped class rules built from the same CSS properties as the CSS output
+ *
+ * With the "tailwind" styling, layers use the classes of the Tailwind output instead of
+ * scoped rules, and the style block only declares the CSS variables.
+ *
+ * Variant styles are toggled with class: directives on the variant props.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits HTML comments
+ * @param prettify - Whether to format the markup with indentation (true) or keep it compact (false)
+ * @param styling - Scoped CSS rules ("css", default) or Tailwind classes ("tailwind")
+ * @returns GeneratedSvelte object with the Svelte component and used variables
+ */
+export function generateSvelte(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true,
+  styling: SvelteStyling = "css"
+): GeneratedSvelte {
+  const context: MarkupContext = {
+    styling,
+    classNames: new Set(),
+    rules: [],
+    modifiers: {},
+    variableMap: {},
+    props: buildSvelteProps(nodes),
+  };
+  const newline = prettify ? "\n" : "";
+
+  const roots = nodes.map((node) => {
+    const rootClass = uniqueClass(nodeNameToClass(node.name), context);
+    context.modifiers = {};
+    return generateMarkupRecursive(node, rootClass, context, annotationFormat, prettify, 0, undefined, true);
+  });
+
+  // Variable blocks are global: :root and [data-theme] are outside the component
+  const variables = styleBlockToCSSFile(generateThemeStylesheet(context.variableMap, collectVariableModes(nodes)))
+    .replace(/^(\S[^\n]*) \{$/gm, (_, selector: string) => `:global(${selector}) {`);
+  const rules = styleBlockToCSSFile(generateStylesheet(context.rules, {}));
+  const css = [variables, rules].filter((part) => part).join("\n");
+
+  const svelte = [
+    generateScript(context.props),
+    roots.join(newline),
+    css ? `<style>\n${css}</style>` : "",
+  ].filter((block) => block).join("\n\n") + "\n";
+
+  const usedVariables = Object.keys(context.variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    svelte,
+    stylesheet: svelte,
+    usedVariables: usedVariables,
+  };
+}
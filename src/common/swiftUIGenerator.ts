@@ -0,0 +1,547 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import { figmaVariableToCSSVariable, collectVariableModes, getSVGColorBindings } from "./cssGenerator";
+import { formatAnnotation, nodeNameToComponentName } from "./generatorHelpers";
+
+export interface GeneratedSwiftUI {
+  swift: string;
+  theme: string; // Theme enum (one constant per variable, plus the values of the other modes)
+  themeFileName: string; // "AppTheme.swift"
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * Swift type of a theme constant, deciding how its values are written.
+ */
+type SwiftValueKind = "color" | "length" | "double" | "weight";
+
+/**
+ * Constant of the AppTheme enum holding a Figma variable.
+ */
+interface SwiftToken {
+  name: string; // Constant name (e.g., "fillPrimary")
+  kind: SwiftValueKind;
+  value: string; // Default-mode value as Swift code (e.g., "Color(red: 0.145, green: 0.388, blue: 0.922)", "16")
+}
+
+/**
+ * State shared while generating the views of the selected nodes.
+ */
+interface SwiftContext {
+  tokens: { [figmaVarName: string]: SwiftToken }; // Theme constants keyed by Figma variable name
+  viewNames: Set<string>; // Names of the generated views
+}
+
+const INDENT = "    ";
+
+/**
+ * Font.Weight of each numeric font weight.
+ */
+const FONT_WEIGHTS: { [weight: number]: string } = {
+  100: "ultraLight",
+  200: "thin",
+  300: "light",
+  400: "regular",
+  500: "medium",
+  600: "semibold",
+  700: "bold",
+  800: "heavy",
+  900: "black",
+};
+
+/**
+ * Converts a name to a camelCase Swift identifier (theme constants).
+ * Examples: "--spacing-4" → "spacing4", "Dark" → "dark"
+ */
+function nameToIdentifier(name: string, fallback: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter((word) => word);
+  const identifier = words
+    .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}${identifier}` : identifier;
+}
+
+/**
+ * Converts a name to an asset catalog name (lowercase kebab-case).
+ * Examples: "Arrow Right" → "arrow-right", "assets/4f2a.png" → "4f2a"
+ */
+function nameToAssetName(name: string): string {
+  return name
+    .replace(/^assets\//, "")
+    .replace(/\.[a-z0-9]+$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "image";
+}
+
+/**
+ * Escapes text for a Swift string literal (\( starts an interpolation).
+ */
+function escapeSwiftString(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats a number for Swift (integers stay integers, decimals are rounded to two places).
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Converts a hex color and opacity to a SwiftUI Color (sRGB components).
+ * Examples: ("#000000", 1) → "Color(red: 0, green: 0, blue: 0)", ("#000000", 0.5) → "Color(red: 0, green: 0, blue: 0, opacity: 0.5)"
+ */
+function colorToSwift(color: string, opacity: number = 1): string {
+  const component = (start: number) => String(Math.round((parseInt(color.slice(start, start + 2), 16) / 255) * 1000) / 1000);
+  const alpha = opacity < 1 ? `, opacity: ${opacity}` : "";
+  return `Color(red: ${component(1)}, green: ${component(3)}, blue: ${component(5)}${alpha})`;
+}
+
+/**
+ * Returns the Swift code of a value, replaced with its AppTheme constant when the value is
+ * bound to a Figma variable. The first use of a variable records its kind and default value.
+ *
+ * @param value - Value as Swift code (e.g., "16", ".bold")
+ * @param kind - Swift type of the value
+ * @param figmaVarName - Name of the bound Figma variable, if any
+ * @param context - Swift context (collects the theme constants)
+ * @returns "AppTheme.<name>", or the value itself
+ */
+function themeOrValue(value: string, kind: SwiftValueKind, figmaVarName: string | undefined, context: SwiftContext): string {
+  if (!figmaVarName) return value;
+  if (!context.tokens[figmaVarName]) {
+    const usedNames = new Set(Object.values(context.tokens).map((token) => token.name));
+    const baseName = nameToIdentifier(figmaVariableToCSSVariable(figmaVarName), "token");
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.tokens[figmaVarName] = { name, kind, value };
+  }
+  return `AppTheme.${context.tokens[figmaVarName].name}`;
+}
+
+/**
+ * Combines a vertical and a horizontal alignment into a SwiftUI Alignment.
+ * Examples: ("top", "leading") → ".topLeading", ("center", "trailing") → ".trailing"
+ */
+function combineAlignment(vertical: string, horizontal: string): string {
+  if (vertical === "center") return `.${horizontal}`;
+  if (horizontal === "center") return `.${vertical}`;
+  return `.${vertical}${horizontal[0].toUpperCase()}${horizontal.slice(1)}`;
+}
+
+/**
+ * Converts the four paddings of a layer to padding modifiers.
+ * Examples: all 16 → .padding(16), 8/16/8/16 → .padding(.horizontal, 16) + .padding(.vertical, 8)
+ */
+function paddingToModifiers(top: string, trailing: string, bottom: string, leading: string): string[] {
+  if (top === trailing && top === bottom && top === leading) {
+    return top === "0" ? [] : [`.padding(${top})`];
+  }
+  if (top === bottom && leading === trailing) {
+    return [
+      ...(leading !== "0" ? [`.padding(.horizontal, ${leading})`] : []),
+      ...(top !== "0" ? [`.padding(.vertical, ${top})`] : []),
+    ];
+  }
+  return [["top", top], ["leading", leading], ["bottom", bottom], ["trailing", trailing]]
+    .filter(([, value]) => value !== "0")
+    .map(([edge, value]) => `.padding(.${edge}, ${value})`);
+}
+
+/**
+ * Converts the typography of a TEXT node to text modifiers.
+ * SwiftUI has no line height: the extra space above the font size becomes lineSpacing.
+ */
+function typographyToModifiers(node: ExtractedNode & { styles?: ExtractedStyles }, context: SwiftContext): string[] {
+  const typography = node.styles?.typography;
+  const modifiers: string[] = [];
+
+  if (typography) {
+    const fontSize = Number(typography.fontSize) || 0;
+    const size = themeOrValue(formatNumber(fontSize || 17), "length", typography.fontSizeVariable, context);
+    if (typography.fontFamily) {
+      modifiers.push(`.font(.custom("${escapeSwiftString(typography.fontFamily)}", size: ${size}))`);
+    } else if (fontSize) {
+      modifiers.push(`.font(.system(size: ${size}))`);
+    }
+
+    const weights: { [style: string]: number } = {
+      thin: 100, extralight: 200, light: 300, regular: 400, medium: 500, semibold: 600, bold: 700, extrabold: 800, black: 900,
+    };
+    const fontWeight = typography.fontWeightValue || weights[String(typography.fontWeight || "").toLowerCase().replace(/\s+/g, "")];
+    if (fontWeight) {
+      const weight = `.${FONT_WEIGHTS[Math.round(fontWeight / 100) * 100] || "regular"}`;
+      modifiers.push(`.fontWeight(${themeOrValue(weight, "weight", typography.fontWeightVariable, context)})`);
+    }
+
+    const lineHeight = Number(typography.lineHeight) || 0;
+    if (lineHeight && typography.lineHeightUnit !== "AUTO") {
+      const value = typography.lineHeightUnit === "PERCENT" ? (fontSize * lineHeight) / 100 : lineHeight;
+      if (typography.lineHeightVariable) {
+        modifiers.push(`.lineSpacing(${themeOrValue(formatNumber(value), "length", typography.lineHeightVariable, context)} - ${size})`);
+      } else if (value > fontSize) {
+        modifiers.push(`.lineSpacing(${formatNumber(value - fontSize)})`);
+      }
+    }
+
+    const letterSpacing = Number(typography.letterSpacing) || 0;
+    if (letterSpacing || typography.letterSpacingVariable) {
+      const value = typography.letterSpacingUnit === "PERCENT" ? (fontSize * letterSpacing) / 100 : letterSpacing;
+      modifiers.push(`.tracking(${themeOrValue(formatNumber(value), "length", typography.letterSpacingVariable, context)})`);
+    }
+
+    if (typography.textDecoration === "UNDERLINE") {
+      modifiers.push(".underline()");
+    } else if (typography.textDecoration === "STRIKETHROUGH") {
+      modifiers.push(".strikethrough()");
+    }
+    if (typography.textCase === "UPPER") {
+      modifiers.push(".textCase(.uppercase)");
+    } else if (typography.textCase === "LOWER") {
+      modifiers.push(".textCase(.lowercase)");
+    }
+    const aligns: { [align: string]: string } = { CENTER: "center", RIGHT: "trailing" };
+    if (aligns[typography.textAlignHorizontal]) {
+      modifiers.push(`.multilineTextAlignment(.${aligns[typography.textAlignHorizontal]})`);
+    }
+  }
+
+  const fill = node.styles?.fills?.[0];
+  if (fill?.type === "SOLID") {
+    modifiers.push(`.foregroundColor(${themeOrValue(colorToSwift(fill.color, fill.opacity), "color", fill.variable, context)})`);
+  }
+  return modifiers;
+}
+
+/**
+ * Builds the modifiers of a layer, in the order SwiftUI applies them: padding (inside the
+ * frame), frame, background, corner radius, border overlay, shadow and opacity.
+ *
+ * FILL sizing becomes `maxWidth`/`maxHeight: .infinity`. Stacks with a frame get the frame
+ * alignment of their Figma alignment, so their content sits where it does in the design.
+ *
+ * @param node - The extracted node with styles
+ * @param parentLayoutMode - layoutMode of the parent
+ * @param context - Swift context (collects the theme constants)
+ * @param drawsFill - Whether the fill is a background (false for text, images and vectors)
+ * @returns Array of modifier calls (e.g., [".padding(16)", ".frame(width: 100)"])
+ */
+function nodeToModifiers(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: SwiftContext,
+  drawsFill: boolean
+): string[] {
+  const styles = node.styles;
+  if (!styles) return [];
+
+  const modifiers: string[] = [];
+  const layout = styles.layout || {};
+
+  if (layout.layoutMode) {
+    const padding = (side: string) => themeOrValue(
+      formatNumber(layout[`padding${side}`] || 0), "length", layout[`padding${side}Variable`], context
+    );
+    modifiers.push(...paddingToModifiers(padding("Top"), padding("Right"), padding("Bottom"), padding("Left")));
+  }
+
+  const fillWidth = layout.layoutSizingHorizontal === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "HORIZONTAL");
+  const fillHeight = layout.layoutSizingVertical === "FILL" || (layout.layoutGrow === 1 && parentLayoutMode === "VERTICAL");
+  const frame: string[] = [];
+  if (fillWidth) {
+    frame.push("maxWidth: .infinity");
+  } else if (layout.layoutSizingHorizontal !== "HUG" && layout.width !== undefined) {
+    frame.push(`width: ${themeOrValue(formatNumber(layout.width), "length", layout.widthVariable, context)}`);
+  }
+  if (fillHeight) {
+    frame.push("maxHeight: .infinity");
+  } else if (layout.layoutSizingVertical !== "HUG" && layout.height !== undefined) {
+    frame.push(`height: ${themeOrValue(formatNumber(layout.height), "length", layout.heightVariable, context)}`);
+  }
+  if (frame.length > 0) {
+    if (layout.layoutMode) {
+      const horizontal = layout.layoutMode === "HORIZONTAL";
+      const along: { [align: string]: string } = horizontal
+        ? { MIN: "leading", MAX: "trailing" }
+        : { MIN: "top", MAX: "bottom" };
+      const across: { [align: string]: string } = horizontal
+        ? { MIN: "top", MAX: "bottom" }
+        : { MIN: "leading", MAX: "trailing" };
+      const primary = along[layout.primaryAxisAlignItems] || "center";
+      const counter = across[layout.counterAxisAlignItems] || "center";
+      const alignment = horizontal ? combineAlignment(counter, primary) : combineAlignment(primary, counter);
+      if (alignment !== ".center") frame.push(`alignment: ${alignment}`);
+    }
+    modifiers.push(`.frame(${frame.join(", ")})`);
+  }
+
+  const fill = styles.fills?.[0];
+  if (drawsFill && fill?.type === "SOLID") {
+    modifiers.push(`.background(${themeOrValue(colorToSwift(fill.color, fill.opacity), "color", fill.variable, context)})`);
+  } else if (drawsFill && fill?.type === "IMAGE" && fill.src) {
+    const contentMode = fill.scaleMode === "FIT" ? "scaledToFit()" : "scaledToFill()";
+    modifiers.push(`.background(Image("${nameToAssetName(fill.src)}").resizable().${contentMode})`);
+  } else if (drawsFill && (fill?.type === "GRADIENT_LINEAR" || fill?.type === "GRADIENT_RADIAL")) {
+    modifiers.push("// Gradient fill: set .background(LinearGradient(...))");
+  }
+
+  let shape = "Rectangle()";
+  if (typeof layout.cornerRadius === "number" && (layout.cornerRadius > 0 || layout.cornerRadiusVariable)) {
+    const radius = themeOrValue(formatNumber(layout.cornerRadius), "length", layout.cornerRadiusVariable, context);
+    modifiers.push(`.cornerRadius(${radius})`);
+    shape = `RoundedRectangle(cornerRadius: ${radius})`;
+  } else if (layout.cornerRadius && typeof layout.cornerRadius === "object") {
+    const { topLeft, topRight, bottomRight, bottomLeft } = layout.cornerRadius;
+    shape = `UnevenRoundedRectangle(topLeadingRadius: ${formatNumber(topLeft)}, bottomLeadingRadius: ${formatNumber(bottomLeft)}, ` +
+      `bottomTrailingRadius: ${formatNumber(bottomRight)}, topTrailingRadius: ${formatNumber(topRight)})`;
+    modifiers.push(`.clipShape(${shape})`);
+  }
+
+  const stroke = styles.strokes?.strokes?.[0];
+  if (stroke?.type === "SOLID") {
+    const color = themeOrValue(colorToSwift(stroke.color, stroke.opacity), "color", stroke.variable, context);
+    const width = themeOrValue(formatNumber(styles.strokes.strokeWeight || 1), "length", styles.strokes.strokeWeightVariable, context);
+    const dashPattern: number[] | undefined = styles.strokes.strokeDashArray;
+    const strokeStyle = dashPattern && dashPattern.length > 0
+      ? `style: StrokeStyle(lineWidth: ${width}, dash: [${dashPattern.map(formatNumber).join(", ")}])`
+      : `lineWidth: ${width}`;
+    modifiers.push(`.overlay(${shape}.stroke(${color}, ${strokeStyle}))`);
+  }
+
+  const shadow = (styles.effects || []).find((effect: any) => effect.type === "DROP_SHADOW");
+  if (shadow) {
+    const opacity = shadow.opacity !== undefined ? shadow.opacity : 1;
+    modifiers.push(
+      `.shadow(color: ${colorToSwift(shadow.color, opacity)}, radius: ${formatNumber(shadow.radius / 2)}, ` +
+      `x: ${formatNumber(shadow.offset.x)}, y: ${formatNumber(shadow.offset.y)})`
+    );
+  }
+
+  if (layout.opacity !== undefined && layout.opacity < 1) {
+    modifiers.push(`.opacity(${themeOrValue(formatNumber(layout.opacity), "double", layout.opacityVariable, context)})`);
+  }
+
+  return modifiers;
+}
+
+/**
+ * Appends modifiers to a view expression, one per line: indented under a single-line view,
+ * aligned with the closing brace of a stack.
+ */
+function withModifiers(view: string, modifiers: string[], indent: string): string {
+  const modifierIndent = view.endsWith("}") ? indent : indent + INDENT;
+  return [view, ...modifiers.map((modifier) => `${modifierIndent}${modifier}`)].join("\n");
+}
+
+/**
+ * Recursively generates SwiftUI code from an extracted node tree.
+ *
+ * Auto layout frames become HStack (HORIZONTAL) or VStack (VERTICAL) with their gap as
+ * spacing and their counter axis alignment; SPACE_BETWEEN puts a Spacer between children.
+ * Other layers with children become a ZStack, TEXT nodes Text, leaf image fills and vectors
+ * Image (from the asset catalog) and empty layers a Rectangle. Layers hidden in the design
+ * are left as a comment.
+ *
+ * @param node - The extracted node with optional styles
+ * @param parentLayoutMode - layoutMode of the parent
+ * @param context - Swift context (collects the theme constants)
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @param indent - Current indentation
+ * @returns Swift code for this node and its children
+ */
+function generateViewRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  parentLayoutMode: string | undefined,
+  context: SwiftContext,
+  annotationFormat: AnnotationFormat,
+  indent: string
+): string {
+  let code = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      code += formatAnnotation(annotation, annotationFormat, indent, "line");
+    });
+  }
+
+  if (node.styles?.visible === false) {
+    return `${code}${indent}// "${node.name}" is hidden in the design`;
+  }
+
+  const layout = node.styles?.layout || {};
+  const fill = node.styles?.fills?.[0];
+
+  // Vectors are images of the asset catalog, imported from the exported SVG (single color variables tint them)
+  if (node.svg) {
+    const colors: { [figmaVarName: string]: string } = {};
+    const variables = [...new Set(getSVGColorBindings(node.styles, colors).map((binding) => binding.variable))];
+    const assetName = nameToAssetName(node.name);
+    const modifiers = [".resizable()"];
+    if (variables.length === 1) {
+      modifiers.push(".renderingMode(.template)", `.foregroundColor(${themeOrValue(colorToSwift(colors[variables[0]]), "color", variables[0], context)})`);
+    }
+    modifiers.push(...nodeToModifiers(node, parentLayoutMode, context, false));
+    return `${code}${indent}// Add the SVG of "${node.name}" to the asset catalog as ${assetName}\n` +
+      withModifiers(`${indent}Image("${assetName}")`, modifiers, indent);
+  }
+
+  if (node.type === "TEXT") {
+    let characters = (node as any).characters || node.name || "";
+    if (node.styles?.typography?.textCase === "TITLE") {
+      characters = characters.replace(/\b\w/g, (char: string) => char.toUpperCase());
+    }
+    const modifiers = [...typographyToModifiers(node, context), ...nodeToModifiers(node, parentLayoutMode, context, false)];
+    return code + withModifiers(`${indent}Text("${escapeSwiftString(characters)}")`, modifiers, indent);
+  }
+
+  const hasChildren = !!node.children && node.children.length > 0;
+  if (fill?.type === "IMAGE" && fill.src && !hasChildren) {
+    const contentMode = fill.scaleMode === "FIT" ? ".fit" : ".fill";
+    const modifiers = [".resizable()", `.aspectRatio(contentMode: ${contentMode})`, ...nodeToModifiers(node, parentLayoutMode, context, false), ".clipped()"];
+    return `${code}${indent}// ${fill.src} → asset catalog image ${nameToAssetName(fill.src)}\n` +
+      withModifiers(`${indent}Image("${nameToAssetName(fill.src)}")`, modifiers, indent);
+  }
+
+  const modifiers = nodeToModifiers(node, parentLayoutMode, context, true);
+  if (!hasChildren) {
+    // Empty layers draw their styles with a clear rectangle
+    return code + withModifiers(`${indent}Rectangle()`, [".fill(Color.clear)", ...modifiers], indent);
+  }
+
+  const childIndent = indent + INDENT;
+  const spaceBetween = layout.primaryAxisAlignItems === "SPACE_BETWEEN";
+  const children = node.children!.map((child) => generateViewRecursive(child, layout.layoutMode, context, annotationFormat, childIndent));
+  const content = spaceBetween
+    ? children.join(`\n${childIndent}Spacer(minLength: 0)\n`)
+    : children.join("\n");
+
+  let stack = "ZStack(alignment: .topLeading)";
+  if (layout.layoutMode === "HORIZONTAL" || layout.layoutMode === "VERTICAL") {
+    const horizontal = layout.layoutMode === "HORIZONTAL";
+    const alignments: { [align: string]: string } = horizontal
+      ? { MIN: ".top", MAX: ".bottom", BASELINE: ".firstTextBaseline" }
+      : { MIN: ".leading", MAX: ".trailing" };
+    const args: string[] = [];
+    if (alignments[layout.counterAxisAlignItems]) {
+      args.push(`alignment: ${alignments[layout.counterAxisAlignItems]}`);
+    }
+    if (spaceBetween) {
+      args.push("spacing: 0");
+    } else if (layout.itemSpacing !== undefined || layout.itemSpacingVariable) {
+      args.push(`spacing: ${themeOrValue(formatNumber(layout.itemSpacing || 0), "length", layout.itemSpacingVariable, context)}`);
+    }
+    stack = `${horizontal ? "HStack" : "VStack"}${args.length > 0 ? `(${args.join(", ")})` : ""}`;
+  }
+
+  return code + withModifiers(`${indent}${stack} {\n${content}\n${indent}}`, modifiers, indent);
+}
+
+/**
+ * Converts a Figma variable value of another mode to Swift code of the constant's kind.
+ */
+function modeValueToSwift(value: any, kind: SwiftValueKind): string {
+  if (value && typeof value === "object" && "r" in value && "g" in value && "b" in value) {
+    const hex = [value.r, value.g, value.b].map((channel: number) => Math.round(channel * 255).toString(16).padStart(2, "0")).join("");
+    return colorToSwift(`#${hex}`, value.a !== undefined ? value.a : 1);
+  }
+  const number = typeof value === "number" ? value : value && typeof value === "object" && "value" in value ? Number(value.value) : NaN;
+  if (!isNaN(number)) {
+    return kind === "weight" ? `.${FONT_WEIGHTS[Math.round(number / 100) * 100] || "regular"}` : formatNumber(number);
+  }
+  return JSON.stringify(String(value));
+}
+
+/**
+ * Generates the theme file: an AppTheme enum holding the default-mode value of every
+ * variable used by the views, plus one enum per other variable mode holding the values
+ * that differ.
+ */
+function generateThemeFile(nodes: (ExtractedNode & { styles?: ExtractedStyles })[], context: SwiftContext): string {
+  const types: { [kind: string]: string } = { length: ": CGFloat", double: ": Double", weight: ": Font.Weight", color: "" };
+  const tokens = Object.entries(context.tokens);
+  const constant = (token: SwiftToken, value: string) => `${INDENT}static let ${token.name}${types[token.kind]} = ${value}`;
+
+  const constants = tokens.map(([, token]) => constant(token, token.value));
+  const sections = [`enum AppTheme {${constants.length > 0 ? `\n${constants.join("\n")}\n` : ""}}`];
+
+  const variableModes = collectVariableModes(nodes);
+  const modes: { [modeName: string]: string[] } = {};
+  tokens.forEach(([figmaVarName, token]) => {
+    const modeValues = variableModes[figmaVarName];
+    if (!modeValues) return;
+    Object.entries(modeValues.valuesByMode).forEach(([modeName, value]) => {
+      if (modeName === modeValues.defaultMode) return;
+      const code = modeValueToSwift(value, token.kind);
+      if (code === token.value) return;
+      (modes[modeName] = modes[modeName] || []).push(constant(token, code));
+    });
+  });
+  Object.entries(modes).forEach(([modeName, constantsOfMode]) => {
+    const enumName = `AppTheme${nodeNameToComponentName(modeName)}`;
+    sections.push(`// Values of the "${modeName}" mode that differ from the default\nenum ${enumName} {\n${constantsOfMode.join("\n")}\n}`);
+  });
+
+  return `import SwiftUI\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Generates SwiftUI views from extracted nodes.
+ *
+ * Each selected node becomes a View struct (named with a "View" suffix, so "Button" does not
+ * shadow SwiftUI's Button). Auto layout maps to HStack/VStack with spacing, `.padding`,
+ * `.background`, `.cornerRadius` and a stroke overlay; text maps to Text with font modifiers.
+ * Values bound to Figma variables are read from the AppTheme enum of the theme file
+ * (AppTheme.swift).
+ *
+ * Merged COMPONENT_SETs are rendered with the styles of their default variant.
+ * The output is always indented, so `prettify` is accepted for a consistent signature only.
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits line comments
+ * @param prettify - Unused: Swift output is always indented
+ * @returns GeneratedSwiftUI object with the Swift file, the theme file and used variables
+ */
+export function generateSwiftUI(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedSwiftUI {
+  const context: SwiftContext = { tokens: {}, viewNames: new Set() };
+
+  const views = nodes.map((node) => {
+    const baseName = `${nodeNameToComponentName(node.name)}View`;
+    let name = baseName;
+    for (let suffix = 2; context.viewNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    context.viewNames.add(name);
+
+    const body = generateViewRecursive({ ...node, annotations: undefined }, undefined, context, annotationFormat, INDENT.repeat(2));
+    const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+      ? node.annotations.map((annotation) => `/// ${annotation.replace(/\n/g, " ")}\n`).join("")
+      : "";
+    return `${docComment}struct ${name}: View {\n${INDENT}var body: some View {\n${body}\n${INDENT}}\n}`;
+  });
+
+  const swift = `import SwiftUI\n\n${views.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(context.tokens)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    swift,
+    theme: generateThemeFile(nodes, context),
+    themeFileName: "AppTheme.swift",
+    stylesheet: swift,
+    usedVariables: usedVariables,
+  };
+}
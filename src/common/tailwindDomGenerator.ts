@@ -1,7 +1,23 @@
 import { ExtractedNode } from "@plugin/extractors/componentTraverser";
-import { VariableMap, figmaVariableToCSSVariable } from "./cssGenerator";
+import {
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateThemeStylesheet,
+  getSVGColorBindings,
+  getImageElementFill,
+  imageScaleModeToObjectFit,
+} from "./cssGenerator";
 import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
-import { AnnotationFormat } from "@common/networkSides";
+import { AnnotationFormat, ExtractionWarning } from "@common/networkSides";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+import {
+  InlineSVGOptions,
+  escapeHTML,
+  generateRichText,
+  formatAnnotation,
+  generateInlineSVG,
+} from "./generatorHelpers";
 import {
   layoutToTailwind,
   typographyToTailwind,
@@ -16,26 +32,7 @@ export interface GeneratedTailwindDOM {
   css: string;
   stylesheet: string;
   usedVariables: string[]; // List of unique variable names used
-}
-
-/**
- * Formats an annotation string based on the specified format.
- */
-function formatAnnotation(annotation: string, format: AnnotationFormat, indent: string): string {
-  if (format === "none") {
-    return "";
-  }
-  
-  const escapedAnnotation = annotation
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-  
-  if (format === "tsx") {
-    return `${indent}{/* ${escapedAnnotation} */}\n`;
-  }
-  
-  return `${indent}<!-- ${escapedAnnotation} -->\n`;
+  warnings: ExtractionWarning[]; // Layers left out because they failed to generate
 }
 
 /**
@@ -73,7 +70,7 @@ function nodeTypeToHTMLElement(nodeType: string, isText: boolean = false): strin
  * @param nodeName - The node name (e.g., "Slider.Root", "Label.Root")
  * @returns Tailwind-friendly class name (e.g., "slider-root", "label-root")
  */
-function nodeNameToTailwindClass(nodeName: string): string {
+export function nodeNameToTailwindClass(nodeName: string): string {
   return nodeName
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
@@ -82,17 +79,19 @@ function nodeNameToTailwindClass(nodeName: string): string {
 
 /**
  * Generates HTML attributes for a node with Tailwind classes.
- * For Tailwind format: only className attribute with all classes including node name.
+ * For Tailwind format: className attribute with all classes including node name,
+ * after element-specific attributes (e.g., src and alt of <img>).
  */
 function generateAttributes(
   nodeName: string,
   nodeType: string,
   tailwindClasses: string[],
   indent: number,
-  prettify: boolean
+  prettify: boolean,
+  elementAttrs: string[] = []
 ): string {
   const indentStr = "  ".repeat(indent);
-  const attrs: string[] = [];
+  const attrs: string[] = [...elementAttrs];
   
   // Convert node name to a class and add it to the classes array
   const nodeNameClass = nodeNameToTailwindClass(nodeName);
@@ -111,75 +110,223 @@ function generateAttributes(
 }
 
 /**
- * Recursively generates HTML from an extracted node tree with Tailwind classes.
+ * Converts the style of a text range to Tailwind classes (typography plus text color).
+ * 
+ * Only the raw values that can differ between segments are used (generateRichText
+ * passes the ones a segment overrides).
  */
-function generateHTMLRecursive(
-  node: ExtractedNode & { styles?: ExtractedStyles },
+function textRangeToTailwind(style: any, variableMap: VariableMap): string[] {
+  const classes = typographyToTailwind({
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fontWeight: style.fontWeight,
+    textDecoration: style.textDecoration,
+    textCase: style.textCase,
+  }, variableMap);
+
+  // Fills of text ranges are text colors: bg-* → text-*
+  fillsToTailwind(style.fills, variableMap).forEach((cls) => {
+    if (cls.startsWith("bg-")) {
+      classes.push(cls.replace("bg-", "text-"));
+    }
+  });
+
+  return classes;
+}
+
+/**
+ * Generates rich text content from the styled segments of a TEXT node, with
+ * `className` attributes holding the classes a segment overrides (see generateRichText).
+ * 
+ * @param styles - Extracted styles of the TEXT node (typography.segments must be set)
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @param escapeText - Escaping of the text: HTML (default) or JSX (escapeJSXText) for components
+ * @returns Markup with nested inline elements
+ */
+export function generateRichTextContent(
+  styles: ExtractedStyles,
   variableMap: VariableMap,
-  annotationFormat: AnnotationFormat,
-  prettify: boolean,
-  indent: number = 0
+  escapeText: (text: string) => string = escapeHTML
 ): string {
+  return generateRichText(styles, {
+    rangeToTokens: (style) => textRangeToTailwind(style, variableMap),
+    boldToken: "font-bold",
+    attribute: (classes) => classes.length > 0 ? ` className="${classes.join(" ")}"` : "",
+    escapeText,
+  });
+}
+
+/**
+ * Inline SVG options of Tailwind markup: SVG attributes are written as JSX (the <svg> gets
+ * className), and the shapes of SVGs using several color variables get fill-* / stroke-* classes.
+ */
+export const TAILWIND_SVG_OPTIONS: InlineSVGOptions = {
+  shapeColor: (binding) => `className="${binding.attribute}-${figmaVariableToTailwindClass(binding.variable)}"`,
+  jsx: true,
+};
+
+/**
+ * Converts the styles of a node to Tailwind classes (without the node name class).
+ * 
+ * Shared by the generators that build their own markup around the classes
+ * (e.g., React components).
+ * 
+ * @param node - The extracted node with optional styles
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @returns Array of Tailwind classes (empty if the node has no styles)
+ */
+export function nodeToTailwindClasses(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  variableMap: VariableMap
+): string[] {
+  if (!node.styles) return [];
+
   try {
-    const indentStr = prettify ? "  ".repeat(indent) : "";
-    const newline = prettify ? "\n" : "";
-    let tailwindClasses: string[] = [];
+    const classes: string[] = [];
+    const imageFill = getImageElementFill(node);
 
-    // Check if this node has absolutely positioned children - if so, add relative class
+    // Add relative class if this node has absolutely positioned children
     const hasAbsoluteChildren = node.children?.some((child: any) => 
       child.styles?.layout?.layoutPositioning === "ABSOLUTE"
     ) || false;
-
-    // Generate Tailwind classes if styles exist
-    if (node.styles) {
-      try {
-        const classes: string[] = [];
-        
-        // Add relative class if this node has absolutely positioned children
-        if (hasAbsoluteChildren) {
-          classes.push("relative");
-        }
-        
-        classes.push(...layoutToTailwind(node.styles.layout, variableMap, node.styles.positioning));
-        classes.push(...typographyToTailwind(node.styles.typography, variableMap));
-        
-        // SPECIAL CASE: Text node color handling
-        // In Figma, TEXT nodes use "fills" for text color, not background color.
-        // We need to convert bg-* classes to text-* classes for text nodes.
-        // Example: bg-fill-neutral-default → text-fill-neutral-default
-        if (node.type === "TEXT" && node.styles.fills) {
-          // Convert fills to text color classes for text nodes
-          const fillClasses = fillsToTailwind(node.styles.fills, variableMap);
-          // Replace bg- prefix with text- prefix for text color
-          const textColorClasses = fillClasses.map(cls => {
-            if (cls.startsWith("bg-")) {
-              return cls.replace("bg-", "text-");
-            }
-            return cls;
-          });
-          classes.push(...textColorClasses);
-        } else {
-          // For non-text nodes, fills are background colors
-          classes.push(...fillsToTailwind(node.styles.fills, variableMap));
-        }
-        
-        classes.push(...strokesToTailwind(node.styles.strokes, variableMap));
-        classes.push(...effectsToTailwind(node.styles.effects));
-        
-        if (node.styles.visible === false) {
-          classes.push("hidden");
-        }
-        
-        tailwindClasses = classes.filter(c => c); // Filter out empty strings
-      } catch (error) {
-        console.warn("Error generating Tailwind classes", { 
-          nodeType: node.type,
-          nodeName: node.name,
-          error: error instanceof Error ? error.message : String(error)
+    if (hasAbsoluteChildren) {
+      classes.push("relative");
+    }
+    
+    classes.push(...layoutToTailwind(node.styles.layout, variableMap, node.styles.positioning));
+    
+    if (node.svg) {
+      // Fills and strokes of vectors are part of the SVG markup
+      // A single color variable is passed to the SVG through currentColor
+      const svgVariables = [...new Set(getSVGColorBindings(node.styles, variableMap).map((binding) => binding.variable))];
+      if (svgVariables.length === 1) {
+        classes.push(`text-${figmaVariableToTailwindClass(svgVariables[0])}`);
+      }
+    } else {
+      classes.push(...typographyToTailwind(node.styles.typography, variableMap));
+    
+      // SPECIAL CASE: Text node color handling
+      // In Figma, TEXT nodes use "fills" for text color, not background color.
+      // We need to convert bg-* classes to text-* classes for text nodes.
+      // Example: bg-fill-neutral-default → text-fill-neutral-default
+      if (node.type === "TEXT" && node.styles.fills) {
+        // Convert fills to text color classes for text nodes
+        const fillClasses = fillsToTailwind(node.styles.fills, variableMap);
+        // Replace bg- prefix with text- prefix for text color
+        const textColorClasses = fillClasses.map(cls => {
+          if (cls.startsWith("bg-")) {
+            return cls.replace("bg-", "text-");
+          }
+          return cls;
         });
+        classes.push(...textColorClasses);
+      } else if (imageFill) {
+        // The image is the <img> content, scaled like the Figma paint
+        classes.push(`object-${imageScaleModeToObjectFit(imageFill.scaleMode)}`);
+      } else {
+        // For non-text nodes, fills are background colors
+        classes.push(...fillsToTailwind(node.styles.fills, variableMap));
       }
+    
+      classes.push(...strokesToTailwind(node.styles.strokes, variableMap));
     }
 
+    classes.push(...effectsToTailwind(node.styles.effects));
+    
+    if (node.styles.visible === false) {
+      classes.push("hidden");
+    }
+    
+    return classes.filter(c => c); // Filter out empty strings
+  } catch (error) {
+    console.warn("Error generating Tailwind classes", { 
+      nodeType: node.type,
+      nodeName: node.name,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+/**
+ * Converts a variant condition to a Tailwind data attribute modifier.
+ * 
+ * The component root matches its own data attributes (data-[size=lg]:), its layers match
+ * the root through the `group` class (group-data-[size=lg]:). Several properties stack.
+ * Example: { Size: "lg", State: "hover" } → "group-data-[size=lg]:group-data-[state=hover]"
+ */
+export function variantConditionToTailwindModifier(condition: VariantCondition, isRoot: boolean): string {
+  return Object.entries(condition)
+    .map(([property, value]) => {
+      const attribute = variantPropertyToDataAttribute(property).replace(/^data-/, "");
+      return `${isRoot ? "" : "group-"}data-[${attribute}=${value.replace(/\s+/g, "_")}]`;
+    })
+    .join(":");
+}
+
+/**
+ * Converts the styles of a layer of a variant-aware component (merged COMPONENT_SET)
+ * to Tailwind classes.
+ * 
+ * Classes shared by all variants are kept as is, the others get a data attribute modifier
+ * for the variants they apply to (e.g., group-data-[size=lg]:px-4). The root gets the
+ * `group` class so its layers can follow its data attributes.
+ * 
+ * @param node - The layer (node.variantStyles holds its styles per variant when they differ)
+ * @param variants - Variant values of each variant (default first)
+ * @param variableMap - Map of variable names to CSS values (populated during generation)
+ * @param isRoot - Whether the layer is the component root
+ * @returns Array of Tailwind classes
+ */
+export function nodeToVariantTailwindClasses(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  variants: VariantCondition[],
+  variableMap: VariableMap,
+  isRoot: boolean
+): string[] {
+  const rootClasses = isRoot ? ["group"] : [];
+  if (!node.variantStyles) {
+    return [...rootClasses, ...nodeToTailwindClasses(node, variableMap)];
+  }
+
+  const classesByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+    return styles ? nodeToTailwindClasses({ ...node, styles }, variableMap) : null;
+  });
+  const groups = groupVariantTokens(classesByVariant, variants, "hidden");
+  const modifierClasses: string[] = [];
+  [...groups.variants, ...groups.compoundVariants].forEach((group) => {
+    const modifier = variantConditionToTailwindModifier(group.condition, isRoot);
+    group.tokens.forEach((cls) => modifierClasses.push(`${modifier}:${cls}`));
+  });
+
+  return [...rootClasses, ...groups.base, ...modifierClasses];
+}
+
+/**
+ * Recursively generates HTML from an extracted node tree with Tailwind classes.
+ * 
+ * Layers of a merged COMPONENT_SET get data attribute modifiers for the classes that
+ * differ between variants, and the root gets the default variant as data attributes.
+ * Layers that fail to generate are left out and reported in `warnings`.
+ */
+function generateHTMLRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  variableMap: VariableMap,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number = 0,
+  variants?: VariantCondition[],
+  warnings?: ExtractionWarning[]
+): string {
+  try {
+    const indentStr = prettify ? "  ".repeat(indent) : "";
+    const newline = prettify ? "\n" : "";
+    const componentVariants = node.variants || variants;
+    const tailwindClasses = componentVariants
+      ? nodeToVariantTailwindClasses(node, componentVariants, variableMap, !!node.variants)
+      : nodeToTailwindClasses(node, variableMap);
+    const imageFill = getImageElementFill(node);
+
     // Add annotations before the element (format depends on annotationFormat)
     let html = "";
     if (node.annotations && node.annotations.length > 0) {
@@ -188,8 +335,24 @@ function generateHTMLRecursive(
       });
     }
 
-    const element = nodeTypeToHTMLElement(node.type, node.type === "TEXT");
-    const attributes = generateAttributes(node.name, node.type, tailwindClasses, indent, prettify);
+    const element = imageFill ? "img" : nodeTypeToHTMLElement(node.type, node.type === "TEXT");
+    const elementAttrs: string[] = [];
+    if (node.variants) {
+      // The default variant, switching a data attribute restyles the component
+      Object.entries(node.variants[0] || {}).forEach(([property, value]) => {
+        elementAttrs.push(`${variantPropertyToDataAttribute(property)}="${escapeHTML(value)}"`);
+      });
+    }
+    if (imageFill) {
+      elementAttrs.push(`src="${imageFill.src}"`, `alt="${escapeHTML(node.name)}"`);
+    }
+    const attributes = generateAttributes(node.name, node.type, tailwindClasses, indent, prettify, elementAttrs);
+
+    // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+    if (node.svg) {
+      html += generateInlineSVG(node, variableMap, attributes, indentStr, prettify, TAILWIND_SVG_OPTIONS);
+      return html;
+    }
 
     const openingTag = prettify
       ? `${indentStr}<${element}${attributes}${newline}${indentStr}`
@@ -203,8 +366,12 @@ function generateHTMLRecursive(
       html += `>`;
       
       if (hasText) {
-        const textContent = (node as any).characters || node.name || "";
-        html += escapeHTML(textContent);
+        if (node.styles?.typography?.segments) {
+          html += generateRichTextContent(node.styles, variableMap);
+        } else {
+          const textContent = (node as any).characters || node.name || "";
+          html += escapeHTML(textContent);
+        }
       }
 
       if (hasChildren && node.children) {
@@ -221,7 +388,9 @@ function generateHTMLRecursive(
               variableMap,
               annotationFormat,
               prettify,
-              indent + 1
+              indent + 1,
+              componentVariants,
+              warnings
             );
             if (prettify && node.children && i < node.children.length - 1) {
               html += newline;
@@ -233,6 +402,13 @@ function generateHTMLRecursive(
               childName: child.name,
               error: childError instanceof Error ? childError.message : String(childError)
             });
+            warnings?.push({
+              nodeId: child.id,
+              nodeName: child.name,
+              code: "NODE_GENERATION_FAILED",
+              message: `Could not generate the Tailwind HTML of this layer, it is missing from the output: ${childError instanceof Error ? childError.message : String(childError)}`,
+              severity: "error",
+            });
           }
         });
         if (prettify) {
@@ -257,20 +433,6 @@ function generateHTMLRecursive(
   }
 }
 
-/**
- * Escapes HTML special characters.
- */
-function escapeHTML(text: string): string {
-  const map: { [key: string]: string } = {
-    "&": "&amp;",
-    "<": "&lt;",
-    ">": "&gt;",
-    '"': "&quot;",
-    "'": "&#039;",
-  };
-  return text.replace(/[&<>"']/g, (m) => map[m]);
-}
-
 /**
  * Generates Tailwind config snippet with CSS variables.
  */
@@ -333,6 +495,7 @@ export function generateTailwindDOM(
   prettify: boolean = true
 ): GeneratedTailwindDOM {
   const variableMap: VariableMap = {};
+  const warnings: ExtractionWarning[] = [];
 
   // First pass: collect all variables by generating Tailwind classes
   nodes.forEach((node) => {
@@ -348,7 +511,7 @@ export function generateTailwindDOM(
   // Generate HTML for all nodes with Tailwind classes
   const htmlParts = nodes.map((node, index) => {
     try {
-      const html = generateHTMLRecursive(node, variableMap, annotationFormat, prettify, 0);
+      const html = generateHTMLRecursive(node, variableMap, annotationFormat, prettify, 0, undefined, warnings);
       return html;
     } catch (error) {
       console.error("Error generating HTML for node", { 
@@ -362,9 +525,12 @@ export function generateTailwindDOM(
   });
 
   const html = htmlParts.join(prettify ? "\n\n" : "");
-  
-  // Output only HTML, no config header
-  const stylesheet = html;
+
+  // Variables block backing the Tailwind theme classes, with a [data-theme] block per extra mode
+  const css = generateThemeStylesheet(variableMap, collectVariableModes(nodes));
+
+  // Output the variables block (if any) followed by HTML, no config header
+  const stylesheet = css ? `${css}${prettify ? "\n\n" : "\n"}${html}` : html;
 
   // Extract unique variable names
   const usedVariables = Object.keys(variableMap)
@@ -373,9 +539,9 @@ export function generateTailwindDOM(
 
   return {
     html,
-    css: "", // No config needed
+    css,
     stylesheet: stylesheet,
     usedVariables: usedVariables,
+    warnings,
   };
 }
-
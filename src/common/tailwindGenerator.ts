@@ -253,6 +253,15 @@ export function fillsToTailwind(fills: any, variableMap: VariableMap): string[]
       })
       .join(", ");
     classes.push(`bg-[radial-gradient(${gradientStops})]`);
+  } else if (fill.type === "IMAGE" && fill.src) {
+    // Image fills reference the exported asset (src is set by the plugin)
+    classes.push(`bg-[url('${fill.src}')]`);
+    if (fill.scaleMode === "TILE") {
+      classes.push("bg-repeat");
+    } else {
+      // FILL and CROP cover the node, FIT keeps the whole image visible
+      classes.push(fill.scaleMode === "FIT" ? "bg-contain" : "bg-cover", "bg-center", "bg-no-repeat");
+    }
   }
 
   return classes;
@@ -0,0 +1,127 @@
+import { TokenVariable } from "@plugin/extractors/styleExtractor";
+import { figmaVariableToCSSVariable, modeNameToThemeName } from "./cssGenerator";
+import { variableNameToTokenPath, variableValueToTokenValue, setTokenAtPath } from "./designTokensGenerator";
+
+export interface GeneratedTokensStudio {
+  json: string; // Single-file Tokens Studio document (token sets, $themes, $metadata)
+  fileName: string; // "tokens-studio.json"
+  stylesheet: string;
+  usedVariables: string[]; // CSS variable names of the exported variables
+}
+
+/**
+ * Tokens Studio token type of each Figma resolvedType.
+ */
+const TOKEN_TYPES: { [resolvedType: string]: string } = {
+  COLOR: "color",
+  FLOAT: "number",
+  STRING: "text",
+  BOOLEAN: "boolean",
+};
+
+/**
+ * Tokens Studio theme: a mode of a collection, enabling the set of that mode.
+ */
+interface TokensStudioTheme {
+  id: string;
+  name: string; // Mode name
+  group: string; // Collection name (themes of a group are exclusive)
+  selectedTokenSets: { [setName: string]: "enabled" | "source" };
+}
+
+/**
+ * Returns the token set name of a collection mode: the collection name for single-mode
+ * collections, "<collection>/<mode>" otherwise (shown as a folder per collection).
+ */
+function getTokenSetName(collection: string, modes: string[], modeName: string): string {
+  return modes.length > 1 ? `${collection}/${modeName}` : collection;
+}
+
+/**
+ * Generates a Tokens Studio (single file) document from Figma variables.
+ *
+ * TOKEN SETS:
+ * Each collection is a token set, or one set per mode ("Semantic/Light", "Semantic/Dark")
+ * when it has several modes. Tokens are nested by the slash path of the variable name, with
+ * a value, a type and a description; aliases are references ("{color.blue.500}").
+ *
+ * THEMES:
+ * Each mode of a collection with several modes is a theme of the collection's group. The
+ * theme enables the set of its mode; the sets of the other collections (their default mode)
+ * are sources, so references to them resolve without being output.
+ *
+ * $metadata.tokenSetOrder lists the sets in the order of the collections.
+ *
+ * @param variables - Variables to export (see getTokenVariables)
+ * @param prettify - Whether to indent the JSON (true) or write it on one line (false)
+ * @returns GeneratedTokensStudio object with the document and used variables
+ */
+export function generateTokensStudio(
+  variables: TokenVariable[],
+  prettify: boolean = true
+): GeneratedTokensStudio {
+  // Collections in order of appearance, with their modes
+  const collections = new Map<string, { modes: string[]; defaultMode: string }>();
+  variables.forEach((variable) => {
+    if (!collections.has(variable.collection)) {
+      collections.set(variable.collection, { modes: variable.modes, defaultMode: variable.defaultMode });
+    }
+  });
+
+  const document: { [key: string]: any } = {};
+  const tokenSetOrder: string[] = [];
+  collections.forEach(({ modes }, collection) => {
+    modes.forEach((modeName) => {
+      const setName = getTokenSetName(collection, modes, modeName);
+      document[setName] = {};
+      tokenSetOrder.push(setName);
+    });
+  });
+
+  variables.forEach((variable) => {
+    const path = variableNameToTokenPath(variable.name);
+    if (path.length === 0) return;
+    variable.modes.forEach((modeName) => {
+      const value = variable.valuesByMode[modeName];
+      if (value === undefined) return;
+      setTokenAtPath(document[getTokenSetName(variable.collection, variable.modes, modeName)], path, {
+        value: variableValueToTokenValue(value),
+        type: TOKEN_TYPES[variable.resolvedType] || "number",
+        ...(variable.description ? { description: variable.description } : {}),
+      });
+    });
+  });
+
+  const themes: TokensStudioTheme[] = [];
+  collections.forEach(({ modes }, collection) => {
+    // A single-mode collection has nothing to switch: its set is a source of the other themes
+    if (modes.length < 2) return;
+    modes.forEach((modeName) => {
+      const selectedTokenSets: TokensStudioTheme["selectedTokenSets"] = {};
+      collections.forEach((other, otherCollection) => {
+        if (otherCollection === collection) return;
+        selectedTokenSets[getTokenSetName(otherCollection, other.modes, other.defaultMode)] = "source";
+      });
+      selectedTokenSets[getTokenSetName(collection, modes, modeName)] = "enabled";
+      themes.push({
+        id: `${modeNameToThemeName(collection) || "collection"}-${modeNameToThemeName(modeName) || "mode"}`,
+        name: modeName,
+        group: collection,
+        selectedTokenSets,
+      });
+    });
+  });
+
+  document.$themes = themes;
+  document.$metadata = { tokenSetOrder };
+
+  const json = `${JSON.stringify(document, null, prettify ? 2 : undefined)}\n`;
+  const usedVariables = [...new Set(variables.map((variable) => figmaVariableToCSSVariable(variable.name)))].sort();
+
+  return {
+    json,
+    fileName: "tokens-studio.json",
+    stylesheet: json,
+    usedVariables,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Variant values a style applies to (e.g., { Size: "lg" } or { Size: "lg", State: "hover" }).
+ */
+export interface VariantCondition {
+  [property: string]: string;
+}
+
+/**
+ * Style tokens (CSS declarations or Tailwind classes) applied under a variant condition.
+ */
+export interface VariantTokenGroup {
+  condition: VariantCondition;
+  tokens: string[];
+}
+
+/**
+ * Style tokens of a layer grouped by the variants they apply to.
+ */
+export interface VariantTokens {
+  base: string[]; // Tokens shared by every variant that has the layer
+  variants: VariantTokenGroup[]; // Tokens that depend on a single variant property
+  compoundVariants: VariantTokenGroup[]; // Tokens that depend on several variant properties
+}
+
+/**
+ * Converts a Figma variant property name to a data attribute name.
+ * Examples: "Size" → "data-size", "Has icon" → "data-has-icon"
+ */
+export function variantPropertyToDataAttribute(property: string): string {
+  const name = property
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `data-${name || "variant"}`;
+}
+
+/**
+ * Adds tokens to the group with the same condition (or creates it), keeping the first-seen order.
+ */
+function addToGroup(groups: VariantTokenGroup[], condition: VariantCondition, token: string) {
+  const key = JSON.stringify(condition);
+  const group = groups.find((candidate) => JSON.stringify(candidate.condition) === key);
+  if (group) {
+    if (!group.tokens.includes(token)) group.tokens.push(token);
+  } else {
+    groups.push({ condition, tokens: [token] });
+  }
+}
+
+/**
+ * Groups the style tokens of a layer by the variants they apply to.
+ *
+ * Tokens shared by all variants go to the base. Every other token is explained, when
+ * possible, by a single variant property: a token present exactly in the variants where
+ * "Size" is "lg" goes to { Size: "lg" }. The remaining tokens are listed per variant as
+ * compound conditions. Each variant therefore receives exactly its own tokens, so the
+ * groups never conflict, whatever order they are applied in.
+ *
+ * A layer missing from a variant gets `hiddenToken` (e.g., "display: none") in that
+ * variant. Missing variants are ignored when grouping the layer's other tokens.
+ *
+ * @param tokensByVariant - Tokens of the layer in each variant (null where the layer does not exist)
+ * @param variants - Variant values of each variant, in the same order
+ * @param hiddenToken - Token hiding the layer (e.g., "display: none" or "hidden")
+ * @returns Tokens grouped into base, single-property variants and compound variants
+ */
+export function groupVariantTokens(
+  tokensByVariant: (string[] | null)[],
+  variants: VariantCondition[],
+  hiddenToken: string
+): VariantTokens {
+  const present = tokensByVariant
+    .map((tokens, index) => (tokens ? index : -1))
+    .filter((index) => index >= 0);
+  const firstTokens = present.length > 0 ? tokensByVariant[present[0]] || [] : [];
+
+  const base = firstTokens.filter((token) => present.every((index) => (tokensByVariant[index] || []).includes(token)));
+  const rest = tokensByVariant.map((tokens) => (tokens ? tokens.filter((token) => !base.includes(token)) : [hiddenToken]));
+
+  const allTokens: string[] = [];
+  rest.forEach((tokens) => tokens.forEach((token) => {
+    if (!allTokens.includes(token)) allTokens.push(token);
+  }));
+
+  const properties = Object.keys(variants[0] || {});
+  const result: VariantTokens = { base, variants: [], compoundVariants: [] };
+
+  allTokens.forEach((token) => {
+    // The hidden token is about presence, so every variant counts; other tokens only where the layer exists
+    const relevant = token === hiddenToken && present.length < tokensByVariant.length
+      ? tokensByVariant.map((_, index) => index)
+      : present;
+    const has = (index: number) => rest[index].includes(token);
+
+    const explainingProperty = properties.find((property) => {
+      const values = new Set(relevant.filter(has).map((index) => variants[index][property]));
+      return relevant.every((index) => has(index) === values.has(variants[index][property]));
+    });
+
+    if (explainingProperty) {
+      relevant.filter(has).forEach((index) => {
+        addToGroup(result.variants, { [explainingProperty]: variants[index][explainingProperty] }, token);
+      });
+    } else {
+      relevant.filter(has).forEach((index) => {
+        addToGroup(result.compoundVariants, { ...variants[index] }, token);
+      });
+    }
+  });
+
+  return result;
+}
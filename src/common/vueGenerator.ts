@@ -0,0 +1,345 @@
+import { ExtractedNode, ExtractedComponentProperty } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import {
+  CSSRule,
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateThemeStylesheet,
+  generateStylesheet,
+  styleBlockToCSSFile,
+  getImageElementFill,
+} from "./cssGenerator";
+import {
+  filterUselessProperties,
+  generateRichTextContent,
+  generateVariantRules,
+  nodeToCSSProperties,
+} from "./domGenerator";
+import {
+  propertyNameToPropName,
+  escapeAttribute,
+  formatAnnotation,
+  generateInlineSVG,
+  svgColorToStyleAttribute,
+} from "./generatorHelpers";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+
+export interface GeneratedVue {
+  vue: string; // Single-file component (script setup, template and styles)
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * A Figma component property exposed as a Vue prop (or a slot for INSTANCE_SWAP properties).
+ */
+interface VueProp {
+  name: string; // Prop or slot name (e.g., "showIcon")
+  property: string; // Figma property name (e.g., "Show icon#12:1")
+  type: string; // TypeScript type (e.g., "boolean", "\"sm\" | \"lg\""), empty for slots
+  definition: ExtractedComponentProperty;
+}
+
+/**
+ * Vue props of the component, keyed by Figma property name.
+ */
+type VuePropMap = Map<string, VueProp>;
+
+/**
+ * State shared by the layers of the component while generating the template.
+ */
+interface TemplateContext {
+  classNames: Set<string>; // Classes already used in the scoped style block
+  rules: CSSRule[]; // Rules of the scoped style block, in document order
+  variableMap: VariableMap;
+  props: VuePropMap;
+}
+
+/**
+ * Converts a node name to a kebab-case class name.
+ * Examples: "Label" → "label", "Icon / Leading" → "icon-leading", "2 Col" → "layer-2-col"
+ */
+function nodeNameToClass(nodeName: string): string {
+  const name = nodeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  if (!name) return "layer";
+  return /^[0-9]/.test(name) ? `layer-${name}` : name;
+}
+
+/**
+ * Escapes text content for a Vue template (HTML entities plus the {{ interpolation delimiter).
+ */
+function escapeTemplateText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\{\{/g, "&#123;&#123;");
+}
+
+/**
+ * Reserves a class name in the scoped style block (e.g., "label", "label-2").
+ */
+function uniqueClass(baseName: string, context: TemplateContext): string {
+  let className = baseName;
+  for (let suffix = 2; context.classNames.has(className); suffix++) {
+    className = `${baseName}-${suffix}`;
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Returns the TypeScript type of a component property.
+ * TEXT → string, BOOLEAN → boolean, VARIANT → union of its options. INSTANCE_SWAP properties are slots.
+ */
+function propertyToPropType(definition: ExtractedComponentProperty): string {
+  switch (definition.type) {
+    case "TEXT":
+      return "string";
+    case "BOOLEAN":
+      return "boolean";
+    case "INSTANCE_SWAP":
+      return "";
+    case "VARIANT":
+      return definition.variantOptions && definition.variantOptions.length > 0
+        ? definition.variantOptions.map((option) => JSON.stringify(option)).join(" | ")
+        : "string";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Builds the Vue props of the selected components from their Figma component properties.
+ * Prop names are made unique (e.g., two "Icon" properties → "icon", "icon2").
+ */
+function buildVueProps(nodes: ExtractedNode[]): VuePropMap {
+  const props: VuePropMap = new Map();
+  const usedNames = new Set<string>();
+
+  nodes.forEach((node) => {
+    Object.entries(node.componentProperties || {}).forEach(([property, definition]) => {
+      if (props.has(property)) return;
+      const baseName = propertyNameToPropName(property);
+      let name = baseName;
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}${suffix}`;
+      }
+      usedNames.add(name);
+      props.set(property, { name, property, type: propertyToPropType(definition), definition });
+    });
+  });
+
+  return props;
+}
+
+/**
+ * Recursively generates the Vue template of an extracted node tree.
+ *
+ * Every layer with styles gets its own class and a rule in the scoped style block. Layers
+ * bound to component properties use the props instead of their Figma content:
+ * - TEXT property bound to characters → {{ label }}
+ * - BOOLEAN property bound to visible → v-if="showIcon"
+ * - INSTANCE_SWAP property bound to mainComponent → <slot name="icon"> (the default instance as fallback)
+ *
+ * For a merged COMPONENT_SET, the root binds the VARIANT props to data attributes
+ * (:data-size="size") and the styles that differ between variants become modifier rules
+ * (e.g., .button[data-size="lg"] .label).
+ *
+ * @param node - The extracted node with optional styles
+ * @param rootClass - Class of the component root (modifier rules are scoped to it)
+ * @param context - Template context (collects the class rules, holds the props)
+ * @param annotationFormat - "none" removes annotations, any other format emits template comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root (it gets the root class)
+ * @returns Template string for this node and its children
+ */
+function generateTemplateRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  rootClass: string,
+  context: TemplateContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+
+  // Props bound to this layer (references to properties of nested components are ignored)
+  const references = node.propertyReferences || {};
+  const visibleProp = references.visible ? context.props.get(references.visible) : undefined;
+  const slotProp = references.mainComponent ? context.props.get(references.mainComponent) : undefined;
+  const textProp = references.characters ? context.props.get(references.characters) : undefined;
+
+  // A swappable layer is the fallback content of its slot, one level deeper
+  const elementIndent = slotProp ? indent + 1 : indent;
+  const elementIndentStr = prettify ? "  ".repeat(elementIndent) : "";
+
+  let template = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      template += formatAnnotation(annotation, annotationFormat, indentStr, "html");
+    });
+  }
+
+  // A hidden layer toggled by a prop is shown whenever the prop is set
+  const visibleProperties = (properties: string[]) => {
+    return visibleProp ? properties.filter((property) => property !== "display: none") : properties;
+  };
+
+  // Base rule of the layer, plus modifier rules for the styles that differ between variants
+  const componentVariants = node.variants || variants;
+  let className = isRoot ? rootClass : "";
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+      return styles ? visibleProperties(filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap))) : null;
+    });
+    const groups = groupVariantTokens(tokensByVariant, componentVariants, "display: none");
+    className = className || uniqueClass(nodeNameToClass(node.name), context);
+    if (groups.base.length > 0) {
+      context.rules.push({ selector: `.${className}`, properties: groups.base });
+    }
+    context.rules.push(...generateVariantRules(rootClass, isRoot ? null : className, groups));
+  } else {
+    const properties = visibleProperties(filterUselessProperties(nodeToCSSProperties(node, context.variableMap)));
+    if (properties.length > 0) {
+      className = className || uniqueClass(nodeNameToClass(node.name), context);
+      context.rules.push({ selector: `.${className}`, properties });
+    }
+  }
+
+  const imageFill = getImageElementFill(node);
+  const attrs: string[] = [];
+  if (visibleProp && !slotProp) {
+    attrs.push(`v-if="${visibleProp.name}"`);
+  }
+  if (className) {
+    attrs.push(`class="${className}"`);
+  }
+  if (node.variants) {
+    // Variant props select the modifier rules through data attributes
+    Object.keys(node.variants[0] || {}).forEach((property) => {
+      const prop = context.props.get(property);
+      if (prop) {
+        attrs.push(`:${variantPropertyToDataAttribute(property)}="${prop.name}"`);
+      }
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  let element: string;
+  const tag = imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+  if (node.svg) {
+    // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+    element = generateInlineSVG(node, context.variableMap, attributes, elementIndentStr, prettify, { shapeColor: svgColorToStyleAttribute });
+  } else if (node.type === "TEXT") {
+    let content: string;
+    if (textProp) {
+      content = `{{ ${textProp.name} }}`;
+    } else if (node.styles?.typography?.segments) {
+      content = generateRichTextContent(node.styles, context.variableMap, escapeTemplateText);
+    } else {
+      content = escapeTemplateText((node as any).characters || node.name || "");
+    }
+    element = `${elementIndentStr}<${tag}${attributes}>${content}</${tag}>`;
+  } else if (node.children && node.children.length > 0) {
+    const children = node.children
+      .map((child) => generateTemplateRecursive(child, rootClass, context, annotationFormat, prettify, elementIndent + 1, componentVariants))
+      .join(newline);
+    element = `${elementIndentStr}<${tag}${attributes}>${newline}${children}${newline}${elementIndentStr}</${tag}>`;
+  } else {
+    element = `${elementIndentStr}<${tag}${attributes} />`;
+  }
+
+  if (!slotProp) {
+    return template + element;
+  }
+
+  // <slot name="icon" v-if="showIcon"><default instance></slot>
+  const slotCondition = visibleProp ? ` v-if="${visibleProp.name}"` : "";
+  return `${template}${indentStr}<slot name="${slotProp.name}"${slotCondition}>${newline}${element}${newline}${indentStr}</slot>`;
+}
+
+/**
+ * Generates the <script setup> block declaring the props with defineProps.
+ * Props default to the values of the Figma properties (withDefaults); INSTANCE_SWAP
+ * properties are slots and have no prop.
+ */
+function generateScriptSetup(props: VuePropMap): string {
+  const propList = [...props.values()].filter((prop) => prop.definition.type !== "INSTANCE_SWAP");
+  if (propList.length === 0) {
+    return "";
+  }
+
+  const members = propList.map((prop) => {
+    return `  /** Figma ${prop.definition.type} property "${prop.property.replace(/#[^#]*$/, "")}" */\n  ${prop.name}?: ${prop.type};`;
+  });
+  const defaults = propList.map((prop) => `  ${prop.name}: ${JSON.stringify(prop.definition.defaultValue)},`);
+
+  return `<script setup lang="ts">\nwithDefaults(defineProps<{\n${members.join("\n")}\n}>(), {\n${defaults.join("\n")}\n});\n</script>`;
+}
+
+/**
+ * Generates a Vue 3 single-file component from extracted nodes.
+ *
+ * The component has up to four blocks:
+ * - <script setup lang="ts">: defineProps from the Figma component properties
+ *   (TEXT → string, BOOLEAN → boolean, VARIANT → union of the variant values), with their defaults
+ * - <template>: the layers of each selected node, annotations as template comments and
+ *   INSTANCE_SWAP properties as named slots
+ * - <style>: the CSS variables (:root and [data-theme] blocks), global so the tokens
+ *   are not scoped to the component
+ * - <style scoped>: one class per layer with styles, built from the same CSS properties as the CSS output
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits template comments
+ * @param prettify - Whether to format the template with indentation (true) or keep it compact (false)
+ * @returns GeneratedVue object with the single-file component and used variables
+ */
+export function generateVue(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedVue {
+  const context: TemplateContext = { classNames: new Set(), rules: [], variableMap: {}, props: buildVueProps(nodes) };
+  const newline = prettify ? "\n" : "";
+
+  // Several selected nodes are rendered as the roots of a fragment
+  const roots = nodes.map((node) => {
+    const rootClass = uniqueClass(nodeNameToClass(node.name), context);
+    return generateTemplateRecursive(node, rootClass, context, annotationFormat, prettify, 1, undefined, true);
+  });
+  const template = `<template>${newline}${roots.join(newline)}${newline}</template>`;
+
+  const variables = styleBlockToCSSFile(generateThemeStylesheet(context.variableMap, collectVariableModes(nodes)));
+  const rules = styleBlockToCSSFile(generateStylesheet(context.rules, {}));
+
+  const vue = [
+    generateScriptSetup(context.props),
+    template,
+    variables ? `<style>\n${variables}</style>` : "",
+    rules ? `<style scoped>\n${rules}</style>` : "",
+  ].filter((block) => block).join("\n\n") + "\n";
+
+  const usedVariables = Object.keys(context.variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    vue,
+    stylesheet: vue,
+    usedVariables: usedVariables,
+  };
+}
@@ -0,0 +1,433 @@
+import { ExtractedNode } from "@plugin/extractors/componentTraverser";
+import { ExtractedStyles } from "@plugin/extractors/styleExtractor";
+import { AnnotationFormat } from "@common/networkSides";
+import {
+  CSSRule,
+  VariableMap,
+  figmaVariableToCSSVariable,
+  collectVariableModes,
+  generateThemeStylesheet,
+  generateStylesheet,
+  styleBlockToCSSFile,
+  getImageElementFill,
+} from "./cssGenerator";
+import {
+  filterUselessProperties,
+  generateRichTextContent,
+  generateVariantRules,
+  nodeToCSSProperties,
+} from "./domGenerator";
+import {
+  propertyNameToPropName,
+  escapeAttribute,
+  escapeHTML,
+  formatAnnotation,
+  generateInlineSVG,
+  svgColorToStyleAttribute,
+  nodeNameToComponentName,
+} from "./generatorHelpers";
+import { nodeNameToTailwindClass } from "./tailwindDomGenerator";
+import { VariantCondition, groupVariantTokens, variantPropertyToDataAttribute } from "./variantStyles";
+
+export interface GeneratedWebComponent {
+  ts: string; // Custom element classes, their stylesheets and customElements.define() calls
+  stylesheet: string;
+  usedVariables: string[]; // List of unique variable names used
+}
+
+/**
+ * State shared by the layers of a custom element while generating its shadow DOM.
+ */
+interface ShadowContext {
+  classNames: Set<string>; // Classes already used in the element's stylesheet
+  rules: CSSRule[]; // Rules of the element's stylesheet, in document order
+  variableMap: VariableMap;
+  slots: { [property: string]: string }; // Slot names of the TEXT and INSTANCE_SWAP properties, keyed by Figma property name
+}
+
+/**
+ * Members of HTMLElement (and Element, Node) a variant property name can produce.
+ * An accessor with one of these names would shadow the built-in member (e.g., `style`).
+ */
+const HTML_ELEMENT_MEMBERS = new Set([
+  "accessKey", "attributes", "autocapitalize", "autofocus", "baseURI", "childNodes", "children", "className",
+  "classList", "contentEditable", "dataset", "dir", "draggable", "enterKeyHint", "hidden", "id", "inert",
+  "innerHTML", "innerText", "inputMode", "isConnected", "lang", "localName", "nodeName", "nodeType", "nodeValue",
+  "nonce", "outerHTML", "outerText", "part", "popover", "prefix", "role", "shadowRoot", "slot", "spellcheck",
+  "style", "tabIndex", "tagName", "textContent", "title", "translate",
+  "after", "animate", "append", "before", "blur", "click", "closest", "focus", "matches", "prepend", "remove",
+]);
+
+/**
+ * Global HTML attributes a variant property name can produce. Observing one of them would mix
+ * the variant with the built-in attribute (e.g., `hidden` hides the element).
+ */
+const GLOBAL_ATTRIBUTES = new Set([
+  "accesskey", "autocapitalize", "autofocus", "class", "contenteditable", "dir", "draggable", "enterkeyhint",
+  "exportparts", "hidden", "id", "inert", "inputmode", "is", "lang", "nonce", "part", "popover", "role", "slot",
+  "spellcheck", "style", "tabindex", "title", "translate",
+]);
+
+/**
+ * A variant property of a custom element: an observed attribute with a property accessor,
+ * mirrored to a data attribute of the root layer.
+ */
+interface VariantAttribute {
+  accessor: string; // Property accessor (e.g., "size")
+  attribute: string; // Observed attribute (e.g., "size")
+  dataAttribute: string; // Data attribute of the root layer selected by the modifier rules (e.g., "data-size")
+  defaultValue: string;
+}
+
+/**
+ * Returns the attribute and accessor of a variant property. When either would collide with a
+ * built-in (an HTMLElement member or a global attribute), both get a "Variant" suffix:
+ * "Style" → styleVariant / style-variant, "Size" → size / size.
+ */
+function variantPropertyToAttribute(property: string, defaultValue: string): VariantAttribute {
+  const dataAttribute = variantPropertyToDataAttribute(property);
+  const attribute = dataAttribute.replace(/^data-/, "");
+  const accessor = propertyNameToPropName(property);
+  const collides = HTML_ELEMENT_MEMBERS.has(accessor) || /^on[a-z]+$/.test(accessor) || /^aria[A-Z]/.test(accessor)
+    || GLOBAL_ATTRIBUTES.has(attribute) || /^aria-/.test(attribute);
+  return {
+    accessor: collides ? `${accessor}Variant` : accessor,
+    attribute: collides ? `${attribute}-variant` : attribute,
+    dataAttribute,
+    defaultValue,
+  };
+}
+
+/**
+ * Converts a node name to a valid custom element name.
+ * Custom element names start with a letter and contain a hyphen, so other names are prefixed with "x-".
+ * Examples: "Icon Button" → "icon-button", "Button" → "x-button"
+ */
+function nodeNameToElementName(nodeName: string): string {
+  const name = nodeNameToTailwindClass(nodeName);
+  return /^[a-z][a-z0-9]*-[a-z0-9-]*$/.test(name) ? name : `x-${name || "component"}`;
+}
+
+/**
+ * Escapes text embedded in a template literal (backslashes, backticks and ${).
+ */
+function escapeTemplateLiteral(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${");
+}
+
+/**
+ * Reserves a class name in the element's stylesheet (e.g., "label", "label-2").
+ */
+function uniqueClass(baseName: string, context: ShadowContext): string {
+  let className = baseName || "layer";
+  for (let suffix = 2; context.classNames.has(className); suffix++) {
+    className = `${baseName || "layer"}-${suffix}`;
+  }
+  context.classNames.add(className);
+  return className;
+}
+
+/**
+ * Builds the slot names of the TEXT and INSTANCE_SWAP properties of a component.
+ * Slot names are kebab-case and unique (e.g., "Label#12:0" → "label", "Icon#12:2" → "icon").
+ */
+function buildSlots(node: ExtractedNode): { [property: string]: string } {
+  const slots: { [property: string]: string } = {};
+  const usedNames = new Set<string>();
+
+  Object.entries(node.componentProperties || {}).forEach(([property, definition]) => {
+    if (definition.type !== "TEXT" && definition.type !== "INSTANCE_SWAP") return;
+    const baseName = nodeNameToTailwindClass(property.replace(/#[^#]*$/, "")) || "slot";
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}-${suffix}`;
+    }
+    usedNames.add(name);
+    slots[property] = name;
+  });
+
+  return slots;
+}
+
+/**
+ * Recursively generates the shadow DOM markup of an extracted node tree.
+ *
+ * Every layer with styles gets its own class and a rule in the element's stylesheet.
+ * Layers bound to component properties become named slots, with the design's content as fallback:
+ * - TEXT property bound to characters → <p class="label"><slot name="label">Button</slot></p>
+ * - INSTANCE_SWAP property bound to mainComponent → <slot name="icon"><default instance></slot>
+ *
+ * For a merged COMPONENT_SET, the root starts with the default variant's data attributes
+ * (data-size="sm") and the styles that differ between variants become modifier rules
+ * (e.g., .button[data-size="lg"] .label). The element keeps the data attributes in sync
+ * with its observed attributes.
+ *
+ * @param node - The extracted node with optional styles
+ * @param rootClass - Class of the component root (modifier rules are scoped to it)
+ * @param context - Shadow context (collects the class rules, holds the slot names)
+ * @param annotationFormat - "none" removes annotations, any other format emits HTML comments
+ * @param prettify - Whether to format with indentation or keep compact
+ * @param indent - Current indentation level for formatting
+ * @param variants - Variant values of each variant of a merged COMPONENT_SET (default first)
+ * @param isRoot - Whether the node is the component root (it gets the root class)
+ * @returns Markup string for this node and its children
+ */
+function generateShadowMarkupRecursive(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  rootClass: string,
+  context: ShadowContext,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean,
+  indent: number,
+  variants?: VariantCondition[],
+  isRoot: boolean = false
+): string {
+  const indentStr = prettify ? "  ".repeat(indent) : "";
+  const newline = prettify ? "\n" : "";
+
+  // Slots of the properties bound to this layer (references to properties of nested components are ignored)
+  const references = node.propertyReferences || {};
+  const swapSlot = references.mainComponent ? context.slots[references.mainComponent] : undefined;
+  const textSlot = references.characters ? context.slots[references.characters] : undefined;
+
+  // A swappable layer is the fallback content of its slot, one level deeper
+  const elementIndent = swapSlot ? indent + 1 : indent;
+  const elementIndentStr = prettify ? "  ".repeat(elementIndent) : "";
+
+  let markup = "";
+  if (node.annotations && node.annotations.length > 0) {
+    node.annotations.forEach((annotation) => {
+      markup += formatAnnotation(annotation, annotationFormat, indentStr, "html");
+    });
+  }
+
+  // Base rule of the layer, plus modifier rules for the styles that differ between variants
+  const componentVariants = node.variants || variants;
+  let className = isRoot ? rootClass : "";
+  if (componentVariants && node.variantStyles) {
+    const tokensByVariant = node.variantStyles.map((styles: ExtractedStyles | null) => {
+      return styles ? filterUselessProperties(nodeToCSSProperties({ ...node, styles }, context.variableMap)) : null;
+    });
+    const groups = groupVariantTokens(tokensByVariant, componentVariants, "display: none");
+    className = className || uniqueClass(nodeNameToTailwindClass(node.name), context);
+    if (groups.base.length > 0) {
+      context.rules.push({ selector: `.${className}`, properties: groups.base });
+    }
+    context.rules.push(...generateVariantRules(rootClass, isRoot ? null : className, groups));
+  } else {
+    const properties = filterUselessProperties(nodeToCSSProperties(node, context.variableMap));
+    if (properties.length > 0) {
+      className = className || uniqueClass(nodeNameToTailwindClass(node.name), context);
+      context.rules.push({ selector: `.${className}`, properties });
+    }
+  }
+
+  const imageFill = getImageElementFill(node);
+  const attrs: string[] = [];
+  if (className) {
+    attrs.push(`class="${className}"`);
+  }
+  if (node.variants) {
+    // The default variant, updated from the observed attributes
+    Object.entries(node.variants[0] || {}).forEach(([property, value]) => {
+      attrs.push(`${variantPropertyToDataAttribute(property)}="${escapeAttribute(value)}"`);
+    });
+  }
+  if (imageFill) {
+    attrs.push(`src="${imageFill.src}"`, `alt="${escapeAttribute(node.name)}"`);
+  }
+  const attributes = attrs.length > 0 ? ` ${attrs.join(" ")}` : "";
+
+  let element: string;
+  const tag = imageFill ? "img" : node.type === "TEXT" ? "p" : "div";
+  if (node.svg) {
+    // Vector-like nodes are inlined as their exported SVG (children are part of the markup)
+    element = generateInlineSVG(node, context.variableMap, attributes, elementIndentStr, prettify, { shapeColor: svgColorToStyleAttribute });
+  } else if (node.type === "TEXT") {
+    let content: string;
+    if (node.styles?.typography?.segments) {
+      content = generateRichTextContent(node.styles, context.variableMap);
+    } else {
+      content = escapeHTML((node as any).characters || node.name || "");
+    }
+    if (textSlot) {
+      content = `<slot name="${textSlot}">${content}</slot>`;
+    }
+    element = `${elementIndentStr}<${tag}${attributes}>${content}</${tag}>`;
+  } else if (node.children && node.children.length > 0) {
+    const children = node.children
+      .map((child) => generateShadowMarkupRecursive(child, rootClass, context, annotationFormat, prettify, elementIndent + 1, componentVariants))
+      .join(newline);
+    element = `${elementIndentStr}<${tag}${attributes}>${newline}${children}${newline}${elementIndentStr}</${tag}>`;
+  } else {
+    element = `${elementIndentStr}<${tag}${attributes}></${tag}>`;
+  }
+
+  if (!swapSlot) {
+    return markup + element;
+  }
+  return `${markup}${indentStr}<slot name="${swapSlot}">${newline}${element}${newline}${indentStr}</slot>`;
+}
+
+/**
+ * Generates the stylesheet of a custom element: the CSS variables on :host (themes follow a
+ * data-theme attribute on the element or an ancestor), then the class rules.
+ */
+function generateElementCSS(nodes: (ExtractedNode & { styles?: ExtractedStyles })[], context: ShadowContext): string {
+  const variables = styleBlockToCSSFile(generateThemeStylesheet(context.variableMap, collectVariableModes(nodes)))
+    .replace(/^:root \{$/gm, ":host {")
+    .replace(/^(\[data-theme="[^"]*"\]) \{$/gm, (_, theme: string) => `:host(${theme}),\n:host-context(${theme}) {`);
+  const rules = styleBlockToCSSFile(generateStylesheet(context.rules, {}));
+  return [variables, rules].filter((part) => part).join("\n");
+}
+
+/**
+ * Generates a custom element class rendering a node in its shadow root.
+ */
+function generateElement(
+  node: ExtractedNode & { styles?: ExtractedStyles },
+  className: string,
+  elementName: string,
+  annotationFormat: AnnotationFormat,
+  prettify: boolean
+): { code: string; variableMap: VariableMap } {
+  const context: ShadowContext = { classNames: new Set(), rules: [], variableMap: {}, slots: buildSlots(node) };
+  const rootClass = uniqueClass(nodeNameToTailwindClass(node.name), context);
+
+  // Annotations of the root node document the class
+  const markup = generateShadowMarkupRecursive(
+    { ...node, annotations: undefined }, rootClass, context, annotationFormat, prettify, 3, undefined, true
+  );
+  const css = generateElementCSS([node], context);
+  const sheetName = `${className[0].toLowerCase()}${className.slice(1)}Styles`;
+  const docComment = annotationFormat !== "none" && node.annotations && node.annotations.length > 0
+    ? `/**\n${node.annotations.map((annotation) => ` * ${annotation.replace(/\*\//g, "* /")}`).join("\n")}\n */\n`
+    : "";
+
+  // Variant properties: observed attributes (size="lg") mirrored to the root's data attributes
+  const attributes = Object.entries(node.variants?.[0] || {})
+    .map(([property, defaultValue]) => variantPropertyToAttribute(property, defaultValue));
+  // Attributes renamed to avoid a built-in keep the data attribute of the property
+  const renamed = attributes.filter(({ attribute, dataAttribute }) => `data-${attribute}` !== dataAttribute);
+
+  const members: string[] = [];
+  if (attributes.length > 0) {
+    members.push([
+      `  static defaults: { [attribute: string]: string } = {`,
+      ...attributes.map(({ attribute, defaultValue }) => `    ${JSON.stringify(attribute)}: ${JSON.stringify(defaultValue)},`),
+      `  };`,
+    ].join("\n"));
+    if (renamed.length > 0) {
+      members.push([
+        `  static dataAttributes: { [attribute: string]: string } = {`,
+        ...renamed.map(({ attribute, dataAttribute }) => `    ${JSON.stringify(attribute)}: ${JSON.stringify(dataAttribute)},`),
+        `  };`,
+      ].join("\n"));
+    }
+    members.push(`  static get observedAttributes() {\n    return Object.keys(${className}.defaults);\n  }`);
+  }
+
+  members.push([
+    `  constructor() {`,
+    `    super();`,
+    `    const shadow = this.attachShadow({ mode: "open" });`,
+    `    shadow.adoptedStyleSheets = [${sheetName}];`,
+    prettify
+      ? `    shadow.innerHTML = \`\n${escapeTemplateLiteral(markup)}\n    \`;`
+      : `    shadow.innerHTML = \`${escapeTemplateLiteral(markup)}\`;`,
+    `  }`,
+  ].join("\n"));
+
+  if (attributes.length > 0) {
+    members.push([
+      `  attributeChangedCallback(name: string, _oldValue: string | null, value: string | null) {`,
+      `    const root = this.shadowRoot?.querySelector(".${rootClass}");`,
+      renamed.length > 0
+        ? `    root?.setAttribute(${className}.dataAttributes[name] ?? \`data-\${name}\`, value ?? ${className}.defaults[name]);`
+        : `    root?.setAttribute(\`data-\${name}\`, value ?? ${className}.defaults[name]);`,
+      `  }`,
+    ].join("\n"));
+    attributes.forEach(({ accessor, attribute }) => {
+      members.push([
+        `  get ${accessor}(): string {`,
+        `    return this.getAttribute(${JSON.stringify(attribute)}) ?? ${className}.defaults[${JSON.stringify(attribute)}];`,
+        `  }`,
+        "",
+        `  set ${accessor}(value: string) {`,
+        `    this.setAttribute(${JSON.stringify(attribute)}, value);`,
+        `  }`,
+      ].join("\n"));
+    });
+  }
+
+  const code = [
+    `const ${sheetName} = new CSSStyleSheet();`,
+    css ? `${sheetName}.replaceSync(\`\n${escapeTemplateLiteral(css)}\`);` : `${sheetName}.replaceSync("");`,
+    "",
+    `${docComment}export class ${className} extends HTMLElement {\n${members.join("\n\n")}\n}`,
+    "",
+    `customElements.define(${JSON.stringify(elementName)}, ${className});`,
+  ].join("\n");
+
+  return { code, variableMap: context.variableMap };
+}
+
+/**
+ * Generates framework-agnostic custom elements (Web Components) from extracted nodes.
+ *
+ * Each selected node becomes a `class X extends HTMLElement` defined as a custom element
+ * named after the node (e.g., "icon-button"; names without a hyphen get an "x-" prefix).
+ * The element renders its layers in an open shadow root:
+ * - Styles: a CSSStyleSheet adopted by the shadow root, with the same CSS properties as the
+ *   CSS output. CSS variables are declared on :host
+ * - Variant properties: observed attributes (<x-button size="lg">) with property accessors,
+ *   mirrored to data attributes of the root that select the modifier rules. Attributes and
+ *   accessors named like a built-in get a "Variant" suffix (style-variant, styleVariant)
+ * - TEXT and INSTANCE_SWAP properties: named slots, with the design's content as fallback
+ *
+ * @param nodes - Array of extracted nodes with styles
+ * @param annotationFormat - "none" removes annotations, any other format emits HTML comments
+ * @param prettify - Whether to format the shadow DOM markup with indentation (true) or keep it compact (false)
+ * @returns GeneratedWebComponent object with the TypeScript module and used variables
+ */
+export function generateWebComponent(
+  nodes: (ExtractedNode & { styles?: ExtractedStyles })[],
+  annotationFormat: AnnotationFormat = "html",
+  prettify: boolean = true
+): GeneratedWebComponent {
+  const usedClassNames = new Set<string>();
+  const usedElementNames = new Set<string>();
+  const variableMap: VariableMap = {};
+
+  const elements = nodes.map((node) => {
+    const baseClassName = nodeNameToComponentName(node.name);
+    let className = baseClassName;
+    for (let suffix = 2; usedClassNames.has(className); suffix++) {
+      className = `${baseClassName}${suffix}`;
+    }
+    usedClassNames.add(className);
+
+    const baseElementName = nodeNameToElementName(node.name);
+    let elementName = baseElementName;
+    for (let suffix = 2; usedElementNames.has(elementName); suffix++) {
+      elementName = `${baseElementName}-${suffix}`;
+    }
+    usedElementNames.add(elementName);
+
+    const element = generateElement(node, className, elementName, annotationFormat, prettify);
+    Object.assign(variableMap, element.variableMap);
+    return element.code;
+  });
+
+  const ts = `${elements.join("\n\n")}\n`;
+
+  const usedVariables = Object.keys(variableMap)
+    .map(figmaVarName => figmaVariableToCSSVariable(figmaVarName))
+    .sort();
+
+  return {
+    ts,
+    stylesheet: ts,
+    usedVariables: usedVariables,
+  };
+}
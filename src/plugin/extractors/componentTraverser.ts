@@ -1,3 +1,22 @@
+import { ExtractionWarning } from "@common/networkSides";
+
+/**
+ * A Figma component property (TEXT, BOOLEAN, INSTANCE_SWAP or VARIANT).
+ * For INSTANCE_SWAP properties, defaultValue is the id of the default component.
+ */
+export interface ExtractedComponentProperty {
+  type: ComponentPropertyType;
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+}
+
+/**
+ * Component properties keyed by Figma property name (e.g., "Label#12:0", "Size").
+ */
+export interface ExtractedComponentProperties {
+  [propertyName: string]: ExtractedComponentProperty;
+}
+
 export interface ExtractedNode {
   id: string;
   name: string;
@@ -7,6 +26,22 @@ export interface ExtractedNode {
   styles?: any;
   // Annotations/comments from Figma
   annotations?: string[];
+  // SVG markup for vector-like nodes (exported during style extraction)
+  svg?: string;
+  // Component property definitions (only on selected COMPONENT, COMPONENT_SET and INSTANCE nodes)
+  componentProperties?: ExtractedComponentProperties;
+  // Component properties bound to this layer: node property → Figma property name
+  // (e.g., { characters: "Label#12:0", visible: "Show icon#12:1" })
+  propertyReferences?: { [nodeProperty: string]: string };
+  // Variant values of a variant COMPONENT (e.g., { Size: "sm", State: "hover" })
+  variantProperties?: { [property: string]: string };
+  // Variant axes of a COMPONENT_SET and their values (e.g., { Size: ["sm", "lg"] })
+  variantGroupProperties?: { [property: string]: string[] };
+  // Merged COMPONENT_SET (see variantMerger): the variants, default variant first
+  variants?: { [property: string]: string }[];
+  // Merged COMPONENT_SET layers: styles in each variant, indexed like the root's variants
+  // (null where the layer does not exist). Only set when the variants differ.
+  variantStyles?: any[];
 }
 
 /**
@@ -36,6 +71,55 @@ function extractAnnotations(node: SceneNode): string[] {
   return annotations;
 }
 
+/**
+ * Extracts the component property definitions of a selected node.
+ * 
+ * - COMPONENT_SET and standalone COMPONENT nodes: componentPropertyDefinitions
+ * - Variant COMPONENT nodes: the definitions of their set (Figma throws when reading them
+ *   on a variant), with VARIANT defaults set to the values of this variant
+ * - INSTANCE nodes: the current componentProperties values are used as defaults
+ * 
+ * @param node - The selected Figma node
+ * @param warnings - Extraction warnings (a failure to read the properties is added to it)
+ * @returns Component properties keyed by property name, or undefined if the node has none
+ */
+function extractComponentProperties(node: SceneNode, warnings?: ExtractionWarning[]): ExtractedComponentProperties | undefined {
+  const properties: ExtractedComponentProperties = {};
+
+  try {
+    if (node.type === "INSTANCE") {
+      Object.entries(node.componentProperties).forEach(([name, property]) => {
+        properties[name] = { type: property.type, defaultValue: property.value };
+      });
+    } else if (node.type === "COMPONENT" || node.type === "COMPONENT_SET") {
+      const isVariant = node.type === "COMPONENT" && node.parent?.type === "COMPONENT_SET";
+      const definitions = isVariant
+        ? (node.parent as ComponentSetNode).componentPropertyDefinitions
+        : node.componentPropertyDefinitions;
+
+      Object.entries(definitions).forEach(([name, definition]) => {
+        const variantValue = isVariant ? (node as ComponentNode).variantProperties?.[name] : undefined;
+        properties[name] = {
+          type: definition.type,
+          defaultValue: variantValue !== undefined ? variantValue : definition.defaultValue,
+          variantOptions: definition.variantOptions,
+        };
+      });
+    }
+  } catch (e) {
+    console.warn(`Could not read component properties of ${node.name}:`, e);
+    warnings?.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      code: "COMPONENT_PROPERTIES_FAILED",
+      message: `Could not read component properties: ${e instanceof Error ? e.message : String(e)}`,
+      severity: "warning",
+    });
+  }
+
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
 /**
  * Recursively traverses a Figma node and builds a tree structure.
  * 
@@ -54,6 +138,8 @@ function extractAnnotations(node: SceneNode): string[] {
  * - name: Node name from Figma
  * - type: Node type (FRAME, TEXT, COMPONENT, etc.)
  * - annotations: Array of annotation strings (comments attached to nodes)
+ * - propertyReferences: Component properties bound to the node (text, visibility, instance swap)
+ * - variantProperties / variantGroupProperties: Variant values of variants and axes of component sets
  * - children: Array of child ExtractedNode objects (recursive structure)
  * 
  * NOTE: Styles are NOT extracted here. The styles property is populated later
@@ -70,6 +156,22 @@ export function traverseComponent(node: SceneNode): ExtractedNode {
     annotations: extractAnnotations(node),
   };
 
+  if (node.type === "COMPONENT" && node.parent?.type === "COMPONENT_SET" && node.variantProperties) {
+    extracted.variantProperties = { ...node.variantProperties };
+  }
+
+  if (node.type === "COMPONENT_SET") {
+    const variantGroupProperties: { [property: string]: string[] } = {};
+    Object.entries(node.variantGroupProperties).forEach(([property, group]) => {
+      variantGroupProperties[property] = [...group.values];
+    });
+    extracted.variantGroupProperties = variantGroupProperties;
+  }
+
+  if (node.componentPropertyReferences && Object.keys(node.componentPropertyReferences).length > 0) {
+    extracted.propertyReferences = { ...node.componentPropertyReferences } as { [nodeProperty: string]: string };
+  }
+
   // Recursively traverse children if the node has them
   if ("children" in node && node.children) {
     extracted.children = node.children.map((child: SceneNode) => traverseComponent(child));
@@ -89,10 +191,21 @@ export function traverseComponent(node: SceneNode): ExtractedNode {
  * a tree structure for each component variant, which are then processed separately
  * in the extraction pipeline.
  * 
+ * Component property definitions are only read for the selected nodes, as they
+ * define the props of the generated components.
+ * 
  * @param selection - Array of selected Figma SceneNodes
+ * @param warnings - Extraction warnings (failures to read component properties are added to it)
  * @returns Array of ExtractedNode objects, one for each selected node
  */
-export function traverseSelection(selection: readonly SceneNode[]): ExtractedNode[] {
-  return selection.map((node) => traverseComponent(node));
+export function traverseSelection(selection: readonly SceneNode[], warnings?: ExtractionWarning[]): ExtractedNode[] {
+  return selection.map((node) => {
+    const extracted = traverseComponent(node);
+    const componentProperties = extractComponentProperties(node, warnings);
+    if (componentProperties) {
+      extracted.componentProperties = componentProperties;
+    }
+    return extracted;
+  });
 }
 
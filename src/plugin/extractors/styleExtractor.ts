@@ -1,4 +1,5 @@
 // SceneNode is a global type from Figma API
+import { ExtractionWarning } from "@common/networkSides";
 
 export interface ExtractedStyles {
   fills?: any;
@@ -9,12 +10,268 @@ export interface ExtractedStyles {
   positioning?: any;
   opacity?: number;
   visible?: boolean;
+  // Values of every variable bound to this node, for each mode of its collection
+  variableModes?: VariableModeMap;
 }
 
 export interface VariableInfo {
   name?: string;
   value: any;
   isVariable: boolean;
+  // Owning collection name and its default mode name
+  collection?: string;
+  defaultMode?: string;
+  // Library metadata for variables published from a team library
+  remote?: boolean;
+  key?: string;
+  library?: string;
+  // Resolved value for every mode of the variable's collection, keyed by mode name
+  valuesByMode?: { [modeName: string]: any };
+  // Alias hops for the default mode (e.g., ["color/blue/500"] for color/button/bg → color/blue/500)
+  aliasChain?: string[];
+  // Alias hops for every mode, keyed by mode name (only modes whose value is an alias)
+  aliasesByMode?: { [modeName: string]: string[] };
+  // IDs of every variable reached through an alias chain, in any mode
+  aliasIds?: string[];
+}
+
+/**
+ * Style of a range of characters in a TEXT node (from getStyledTextSegments).
+ */
+export interface TextSegmentStyle {
+  characters: string;
+  start: number;
+  end: number;
+  fontFamily: string;
+  fontWeight: string; // Font style name (e.g., "Bold"), same format as typography.fontWeight
+  fontWeightValue: number; // Numeric weight (e.g., 700)
+  fontSize: number;
+  textDecoration: string;
+  textCase: string;
+  fills: any; // Same format as extractFills output
+  hyperlink?: string; // URL of the link, if the range is a URL hyperlink
+}
+
+/**
+ * Values of a single variable across all modes of its collection.
+ */
+export interface VariableModeValues {
+  id?: string; // Figma variable ID (used to export the variable as a design token)
+  collection: string;
+  defaultMode: string;
+  // Set for variables published from a team library (remote collections)
+  remote?: boolean;
+  key?: string;
+  library?: string;
+  // Final (alias-resolved) value per mode name
+  valuesByMode: { [modeName: string]: any };
+  // Alias hops per mode name, first entry is the variable referenced directly
+  aliasesByMode?: { [modeName: string]: string[] };
+}
+
+/**
+ * Map of Figma variable name -> values per mode
+ */
+export interface VariableModeMap {
+  [variableName: string]: VariableModeValues;
+}
+
+/**
+ * Variable exported as a design token, with its own value in every mode of its collection.
+ * Unlike VariableModeValues, aliases are not resolved: they are kept as references.
+ */
+export interface TokenVariable {
+  name: string; // Slash-separated variable name (e.g., "color/button/bg")
+  collection: string;
+  modes: string[]; // Mode names of the collection, in order
+  defaultMode: string;
+  resolvedType: VariableResolvedDataType; // "COLOR" | "FLOAT" | "STRING" | "BOOLEAN"
+  description?: string;
+  // Raw value per mode name: { r, g, b, a } colors, numbers, strings, booleans,
+  // or { alias: "<variable name>" } for values referencing another variable
+  valuesByMode: { [modeName: string]: any };
+  remote?: boolean;
+  library?: string;
+}
+
+/**
+ * Library name per remote collection key, populated by loadLibraryVariableCollections()
+ */
+const libraryNamesByCollectionKey = new Map<string, string>();
+
+/**
+ * Variable resolution failures of the node whose styles are being extracted (or of the
+ * token export). Reset by extractStyles() and getTokenVariables(), which report them as
+ * extraction warnings.
+ */
+let variableFailures: string[] = [];
+
+/**
+ * Logs a variable resolution failure and records it for the node being extracted.
+ */
+function reportVariableFailure(message: string, error?: unknown) {
+  if (error === undefined) {
+    console.warn(message);
+  } else {
+    console.warn(`${message}:`, error);
+  }
+  const failure = error === undefined ? message : `${message}: ${error instanceof Error ? error.message : String(error)}`;
+  if (!variableFailures.includes(failure)) {
+    variableFailures.push(failure);
+  }
+}
+
+/**
+ * Finds the variable collection that contains the given variable.
+ * 
+ * Local collections are searched first. Variables published from a team library are not
+ * part of the local collections, so their (remote) collection is looked up by ID.
+ * 
+ * @param variable - The variable to look up
+ * @param variableCollections - All local variable collections from the current file
+ * @returns The owning VariableCollection, or undefined if not found
+ */
+function findVariableCollection(
+  variable: Variable,
+  variableCollections: readonly VariableCollection[]
+): VariableCollection | undefined {
+  const localCollection = variableCollections.find((collection) => collection.variableIds.includes(variable.id));
+  if (localCollection) {
+    return localCollection;
+  }
+
+  try {
+    return figma.variables.getVariableCollectionById(variable.variableCollectionId) || undefined;
+  } catch (e) {
+    reportVariableFailure(`Could not get variable collection ${variable.variableCollectionId}`, e);
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a variable value is a reference to another variable.
+ */
+function isVariableAlias(value: any): value is VariableAlias {
+  return typeof value === "object" && value !== null && value.type === "VARIABLE_ALIAS" && typeof value.id === "string";
+}
+
+/**
+ * Follows a chain of VariableAlias values until a concrete value is reached.
+ * 
+ * ALIAS RESOLUTION:
+ * Semantic tokens usually alias primitives (color/button/bg → color/blue/500 → #2563eb).
+ * Each hop is recorded so generators can keep the reference (var(--color-blue-500)).
+ * When the aliased variable lives in the same collection, the same mode is used;
+ * otherwise the target collection's default mode is used.
+ * Cycles stop resolution and yield an undefined value.
+ * 
+ * @param value - The value to resolve (returned as-is if it is not an alias)
+ * @param modeId - The mode the value was read from
+ * @param collection - The collection the value was read from
+ * @param variableCollections - All variable collections from the current file
+ * @param visited - Variable IDs already on the chain (for cycle detection)
+ * @returns The final value and the variables visited along the chain, in order
+ */
+function resolveAliasChain(
+  value: any,
+  modeId: string,
+  collection: VariableCollection | undefined,
+  variableCollections: readonly VariableCollection[],
+  visited: Set<string>
+): { value: any; aliases: Variable[] } {
+  const aliases: Variable[] = [];
+  let currentValue = value;
+  let currentModeId = modeId;
+  let currentCollection = collection;
+
+  while (isVariableAlias(currentValue)) {
+    if (visited.has(currentValue.id)) {
+      reportVariableFailure(`Variable alias cycle detected at ${currentValue.id}`);
+      return { value: undefined, aliases };
+    }
+    visited.add(currentValue.id);
+
+    const target = figma.variables.getVariableById(currentValue.id);
+    if (!target) {
+      return { value: undefined, aliases };
+    }
+    aliases.push(target);
+
+    const targetCollection = findVariableCollection(target, variableCollections);
+    if (targetCollection !== currentCollection) {
+      currentModeId = targetCollection?.defaultModeId || targetCollection?.modes[0]?.modeId || "";
+      currentCollection = targetCollection;
+    }
+    currentValue = target.valuesByMode[currentModeId];
+  }
+
+  return { value: currentValue, aliases };
+}
+
+/**
+ * Resolves a variable by ID to its value in the collection's default mode and in every other mode.
+ * 
+ * MODE RESOLUTION:
+ * The default value comes from the collection's defaultModeId. valuesByMode is keyed by
+ * mode name (e.g., "Light", "Dark") so generators can emit one theme block per mode.
+ * 
+ * ALIAS RESOLUTION:
+ * Values that are aliases of other variables are followed to their final value
+ * (see resolveAliasChain). The hops are kept in aliasChain / aliasesByMode.
+ * 
+ * LIBRARY VARIABLES:
+ * Remote variables (published from a team library) resolve through their remote collection
+ * and carry their key and library name (see loadLibraryVariableCollections).
+ * 
+ * @param variableId - The variable ID from a VariableAlias binding
+ * @param variableCollections - All variable collections from the current file
+ * @returns VariableInfo with name, default value and values per mode, or null if not resolvable
+ */
+export function resolveVariableById(
+  variableId: string,
+  variableCollections: readonly VariableCollection[]
+): VariableInfo | null {
+  const variable = figma.variables.getVariableById(variableId);
+  if (!variable) {
+    return null;
+  }
+
+  const collection = findVariableCollection(variable, variableCollections);
+  const defaultMode = collection?.modes.find((mode) => mode.modeId === collection.defaultModeId)
+    || collection?.modes[0];
+
+  const valuesByMode: { [modeName: string]: any } = {};
+  const aliasesByMode: { [modeName: string]: string[] } = {};
+  const aliasIds = new Set<string>();
+  collection?.modes.forEach((mode) => {
+    const resolved = resolveAliasChain(
+      variable.valuesByMode[mode.modeId],
+      mode.modeId,
+      collection,
+      variableCollections,
+      new Set([variable.id])
+    );
+    valuesByMode[mode.name] = resolved.value;
+    if (resolved.aliases.length > 0) {
+      aliasesByMode[mode.name] = resolved.aliases.map((alias) => alias.name);
+      resolved.aliases.forEach((alias) => aliasIds.add(alias.id));
+    }
+  });
+
+  return {
+    name: variable.name,
+    value: defaultMode ? valuesByMode[defaultMode.name] : undefined,
+    isVariable: true,
+    collection: collection?.name,
+    defaultMode: defaultMode?.name,
+    remote: variable.remote || undefined,
+    key: variable.remote ? variable.key : undefined,
+    library: variable.remote && collection ? libraryNamesByCollectionKey.get(collection.key) : undefined,
+    valuesByMode,
+    aliasChain: defaultMode ? aliasesByMode[defaultMode.name] : undefined,
+    aliasesByMode: Object.keys(aliasesByMode).length > 0 ? aliasesByMode : undefined,
+    aliasIds: aliasIds.size > 0 ? Array.from(aliasIds) : undefined,
+  };
 }
 
 /**
@@ -25,8 +282,8 @@ export interface VariableInfo {
  * 2. Handles array-based bindings (common for typography properties)
  * 3. Extracts variable ID from VariableAlias object
  * 4. Looks up variable in variable collections
- * 5. Resolves value for the current mode (defaults to first mode)
- * 6. Returns VariableInfo with name and resolved value, or raw value if not bound
+ * 5. Resolves value for the default mode and for every other mode of the collection
+ * 6. Returns VariableInfo with name and resolved values, or raw value if not bound
  * 
  * PROPERTY NAME MAPPING:
  * Figma uses different property names in boundVariables than node properties:
@@ -40,7 +297,7 @@ export interface VariableInfo {
  * 
  * MODE RESOLUTION:
  * Variables can have different values per mode (e.g., light/dark themes).
- * This function uses the first mode from the variable collection as the default.
+ * The returned value is the collection's default mode; valuesByMode holds every mode.
  * 
  * @param node - The Figma node to check for variable bindings
  * @param property - The property name to check in boundVariables (may differ from node property name)
@@ -72,28 +329,12 @@ function resolveVariable(
       // VariableAlias has an id property that is a string
       if (typeof variableId === "string") {
         try {
-          const variable = figma.variables.getVariableById(variableId);
-          if (variable) {
-            // Get the value for the current mode (default to first mode)
-            // Find the collection that contains this variable
-            let modeId = "";
-            for (const collection of variableCollections) {
-              if (collection.variableIds.includes(variableId)) {
-                modeId = collection.modes[0]?.modeId || "";
-                break;
-              }
-            }
-          
-          const value = variable.valuesByMode[modeId];
-          
-            return {
-              name: variable.name,
-              value: value,
-              isVariable: true,
-            };
+          const variableInfo = resolveVariableById(variableId, variableCollections);
+          if (variableInfo) {
+            return variableInfo;
           }
         } catch (e) {
-          console.warn(`Could not resolve variable ${variableId}:`, e);
+          reportVariableFailure(`Could not resolve variable ${variableId}`, e);
         }
       }
     }
@@ -121,6 +362,27 @@ function rgbToHex(r: number, g: number, b: number): string {
   return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
 }
 
+/**
+ * Returns the color of a variable-bound paint: the variable's value when it resolved to an
+ * RGB(A) color, otherwise the paint's own color. A variable without a color value (alias
+ * cycle, missing target, collection or mode) is reported as a resolution failure.
+ *
+ * @param colorVar - Variable info of the paint's binding (or the paint color when unbound)
+ * @param paintColor - Color of the paint itself
+ * @returns The color to output
+ */
+function getPaintColor(colorVar: VariableInfo, paintColor: RGB): RGB | RGBA {
+  if (!colorVar.isVariable) {
+    return paintColor;
+  }
+  const value = colorVar.value;
+  if (value && typeof value === "object" && typeof value.r === "number" && typeof value.g === "number" && typeof value.b === "number") {
+    return value;
+  }
+  reportVariableFailure(`Variable ${colorVar.name} has no color value, the paint color is used`);
+  return paintColor;
+}
+
 /**
  * Extracts fill (background) properties from a node, including variable resolution.
  * 
@@ -152,31 +414,18 @@ function extractFills(node: SceneNode, variables: readonly VariableCollection[])
           const variableId = fillBinding.id;
           if (typeof variableId === "string") {
             try {
-              const variable = figma.variables.getVariableById(variableId);
-              if (variable) {
-                // Get the value for the current mode (default to first mode)
-                let modeId = "";
-                for (const collection of variables) {
-                  if (collection.variableIds.includes(variableId)) {
-                    modeId = collection.modes[0]?.modeId || "";
-                    break;
-                  }
-                }
-                const value = variable.valuesByMode[modeId];
-                colorVar = {
-                  name: variable.name,
-                  value: value,
-                  isVariable: true,
-                };
+              const variableInfo = resolveVariableById(variableId, variables);
+              if (variableInfo) {
+                colorVar = variableInfo;
               }
             } catch (e) {
-              console.warn(`Could not resolve fill variable ${variableId}:`, e);
+              reportVariableFailure(`Could not resolve fill variable ${variableId}`, e);
             }
           }
         }
       }
       
-      const color = colorVar.isVariable ? colorVar.value : fill.color;
+      const color = getPaintColor(colorVar, fill.color);
       
       const hex = rgbToHex(color.r, color.g, color.b);
       const opacity = fill.opacity !== undefined ? fill.opacity : 1;
@@ -193,9 +442,12 @@ function extractFills(node: SceneNode, variables: readonly VariableCollection[])
         gradientStops: fill.gradientStops,
       };
     } else if (fill.type === "IMAGE") {
+      // src (asset path) is set once the image bytes are exported
       return {
         type: "IMAGE",
         imageHash: fill.imageHash,
+        scaleMode: fill.scaleMode,
+        opacity: fill.opacity !== undefined ? fill.opacity : 1,
       };
     }
     return fill;
@@ -234,31 +486,18 @@ function extractStrokes(node: SceneNode, variables: readonly VariableCollection[
           const variableId = strokeBinding.id;
           if (typeof variableId === "string") {
             try {
-              const variable = figma.variables.getVariableById(variableId);
-              if (variable) {
-                // Get the value for the current mode (default to first mode)
-                let modeId = "";
-                for (const collection of variables) {
-                  if (collection.variableIds.includes(variableId)) {
-                    modeId = collection.modes[0]?.modeId || "";
-                    break;
-                  }
-                }
-                const value = variable.valuesByMode[modeId];
-                colorVar = {
-                  name: variable.name,
-                  value: value,
-                  isVariable: true,
-                };
+              const variableInfo = resolveVariableById(variableId, variables);
+              if (variableInfo) {
+                colorVar = variableInfo;
               }
             } catch (e) {
-              console.warn(`Could not resolve stroke variable ${variableId}:`, e);
+              reportVariableFailure(`Could not resolve stroke variable ${variableId}`, e);
             }
           }
         }
       }
       
-      const color = colorVar.isVariable ? colorVar.value : stroke.color;
+      const color = getPaintColor(colorVar, stroke.color);
       
       const hex = rgbToHex(color.r, color.g, color.b);
       const opacity = stroke.opacity !== undefined ? stroke.opacity : 1;
@@ -339,6 +578,76 @@ function extractEffects(node: SceneNode): any {
   });
 }
 
+/**
+ * Extracts the styled text segments of a text node.
+ * 
+ * A segment is a range of characters sharing the same font, weight, size, fill,
+ * decoration, case and hyperlink. Segment fills bound to variables are resolved
+ * through the paint's own boundVariables.color binding.
+ * 
+ * @param textNode - The Figma TEXT node
+ * @param variables - All variable collections for resolving variable values
+ * @returns Array of segment styles, or undefined if the text has a single uniform style
+ */
+function extractTextSegments(textNode: TextNode, variables: readonly VariableCollection[]): TextSegmentStyle[] | undefined {
+  const segments = textNode.getStyledTextSegments([
+    "fontName",
+    "fontWeight",
+    "fontSize",
+    "textDecoration",
+    "textCase",
+    "fills",
+    "hyperlink",
+  ]);
+
+  if (segments.length <= 1) {
+    return undefined;
+  }
+
+  return segments.map((segment) => {
+    const fills = segment.fills.map((fill) => {
+      if (fill.type !== "SOLID") {
+        return { type: fill.type };
+      }
+
+      let colorVar: VariableInfo = { value: fill.color, isVariable: false };
+      const colorBinding = fill.boundVariables?.color;
+      if (colorBinding) {
+        try {
+          const variableInfo = resolveVariableById(colorBinding.id, variables);
+          if (variableInfo) {
+            colorVar = variableInfo;
+          }
+        } catch (e) {
+          reportVariableFailure(`Could not resolve text fill variable ${colorBinding.id}`, e);
+        }
+      }
+
+      const color = getPaintColor(colorVar, fill.color);
+      return {
+        type: "SOLID",
+        color: rgbToHex(color.r, color.g, color.b),
+        opacity: fill.opacity !== undefined ? fill.opacity : 1,
+        variable: colorVar.isVariable ? colorVar.name : undefined,
+      };
+    });
+
+    return {
+      characters: segment.characters,
+      start: segment.start,
+      end: segment.end,
+      fontFamily: segment.fontName.family,
+      fontWeight: segment.fontName.style,
+      fontWeightValue: segment.fontWeight,
+      fontSize: segment.fontSize,
+      textDecoration: segment.textDecoration,
+      textCase: segment.textCase,
+      fills: fills.length > 0 ? fills : null,
+      hyperlink: segment.hyperlink?.type === "URL" ? segment.hyperlink.value : undefined,
+    };
+  });
+}
+
 /**
  * Extracts typography properties from a text node, including variable resolution.
  * 
@@ -346,6 +655,11 @@ function extractEffects(node: SceneNode): any {
  * For example, fontSize might be bound as: boundVariables.fontSize = [{ id: "VariableID:...", type: "VariableAlias" }]
  * The resolveVariable function handles extracting the first element from these arrays.
  * 
+ * RICH TEXT:
+ * When ranges of the text are styled differently (figma.mixed values), the styled
+ * segments are returned in `segments`, and the node-level properties fall back to
+ * the first segment's style.
+ * 
  * @param node - The Figma node (must be TEXT type)
  * @param variables - All variable collections for resolving variable values
  * @returns Object with typography properties and variable names, or null if not a text node
@@ -356,14 +670,18 @@ function extractTypography(node: SceneNode, variables: readonly VariableCollecti
   }
 
   const textNode = node as TextNode;
-  const fontSize = textNode.fontSize;
+  const segments = extractTextSegments(textNode, variables);
+  const baseSegment = segments?.[0];
+
+  const fontSize = textNode.fontSize !== figma.mixed ? textNode.fontSize : baseSegment?.fontSize;
   const fontName = textNode.fontName;
-  const fontFamilyRaw = (fontName !== figma.mixed && fontName) ? fontName.family : "";
-  const fontWeightRaw = (fontName !== figma.mixed && fontName) ? fontName.style : "";
+  const fontFamilyRaw = (fontName !== figma.mixed && fontName) ? fontName.family : (baseSegment?.fontFamily || "");
+  const fontWeightRaw = (fontName !== figma.mixed && fontName) ? fontName.style : (baseSegment?.fontWeight || "");
+  const fontWeightValue = textNode.fontWeight !== figma.mixed ? textNode.fontWeight : baseSegment?.fontWeightValue;
   const lineHeight = textNode.lineHeight;
   const letterSpacing = textNode.letterSpacing;
-  const textDecoration = textNode.textDecoration;
-  const textCase = textNode.textCase;
+  const textDecoration = textNode.textDecoration !== figma.mixed ? textNode.textDecoration : baseSegment?.textDecoration;
+  const textCase = textNode.textCase !== figma.mixed ? textNode.textCase : baseSegment?.textCase;
   const textAlignHorizontal = textNode.textAlignHorizontal;
 
   const boundVars = node.boundVariables as any;
@@ -385,7 +703,12 @@ function extractTypography(node: SceneNode, variables: readonly VariableCollecti
   // Check for lineHeight variable - check multiple possible property names
   let lineHeightValue: number | string = 0;
   let lineHeightVariable: string | undefined;
+  let lineHeightUnit: string | undefined; // "PIXELS", "PERCENT" or "AUTO"
   if (lineHeight !== figma.mixed) {
+    if (typeof lineHeight === "object" && "unit" in lineHeight) {
+      lineHeightUnit = lineHeight.unit;
+    }
+
     const lineHeightPropertyNames = ["lineHeight", "line-height", "lineHeightUnit"];
     let lineHeightVar: VariableInfo = { value: lineHeight, isVariable: false };
     
@@ -416,7 +739,12 @@ function extractTypography(node: SceneNode, variables: readonly VariableCollecti
   // Check for letterSpacing variable - check multiple possible property names
   let letterSpacingValue: number | string = 0;
   let letterSpacingVariable: string | undefined;
+  let letterSpacingUnit: string | undefined; // "PIXELS" or "PERCENT"
   if (letterSpacing !== figma.mixed) {
+    if (typeof letterSpacing === "object" && "unit" in letterSpacing) {
+      letterSpacingUnit = letterSpacing.unit;
+    }
+
     const letterSpacingPropertyNames = ["letterSpacing", "letter-spacing", "letterSpacingUnit"];
     let letterSpacingVar: VariableInfo = { value: letterSpacing, isVariable: false };
     
@@ -473,20 +801,35 @@ function extractTypography(node: SceneNode, variables: readonly VariableCollecti
     }
   }
 
+  // Name of the applied text style (e.g., "Heading/H1"), unset for mixed or local typography
+  let textStyle: string | undefined;
+  if (textNode.textStyleId !== figma.mixed && textNode.textStyleId) {
+    try {
+      textStyle = figma.getStyleById(textNode.textStyleId)?.name;
+    } catch (error) {
+      console.warn(`Could not get text style of ${node.name}:`, error);
+    }
+  }
+
   return {
+    textStyle,
     fontSize: fontSizeVar.isVariable ? fontSizeVar.value : fontSize,
     fontSizeVariable: fontSizeVar.isVariable ? fontSizeVar.name : undefined,
     fontFamily,
     fontFamilyVariable,
     fontWeight,
     fontWeightVariable,
+    fontWeightValue,
     lineHeight: lineHeightValue,
     lineHeightVariable,
+    lineHeightUnit,
     letterSpacing: letterSpacingValue,
     letterSpacingVariable,
+    letterSpacingUnit,
     textDecoration,
     textCase,
     textAlignHorizontal,
+    segments,
   };
 }
 
@@ -702,6 +1045,67 @@ function extractPositioning(node: SceneNode): any {
   };
 }
 
+/**
+ * Collects the values of every variable bound to a node, for every mode of its collection.
+ * 
+ * Walks node.boundVariables (single aliases and alias arrays such as fills/strokes) and,
+ * for INSTANCE nodes, the mainComponent bindings as well (same fallback as border radius).
+ * Variables reached through alias chains are included too, so every var() reference
+ * emitted for an alias has a declaration.
+ * 
+ * @param node - The Figma node to collect variable bindings from
+ * @param variables - All variable collections for resolving variable values
+ * @returns Map of variable name to its values per mode, or undefined if nothing is bound
+ */
+function extractVariableModes(node: SceneNode, variables: readonly VariableCollection[]): VariableModeMap | undefined {
+  const variableModes: VariableModeMap = {};
+
+  const bindingSources: any[] = [];
+  if (node.type === "INSTANCE" && node.mainComponent?.boundVariables) {
+    bindingSources.push(node.mainComponent.boundVariables);
+  }
+  if (node.boundVariables) {
+    bindingSources.push(node.boundVariables);
+  }
+
+  const visited = new Set<string>();
+  const addVariable = (variableId: string) => {
+    if (visited.has(variableId)) return;
+    visited.add(variableId);
+    try {
+      const variableInfo = resolveVariableById(variableId, variables);
+      if (variableInfo?.name && variableInfo.valuesByMode) {
+        variableModes[variableInfo.name] = {
+          id: variableId,
+          collection: variableInfo.collection || "",
+          defaultMode: variableInfo.defaultMode || "",
+          remote: variableInfo.remote,
+          key: variableInfo.key,
+          library: variableInfo.library,
+          valuesByMode: variableInfo.valuesByMode,
+          aliasesByMode: variableInfo.aliasesByMode,
+        };
+        variableInfo.aliasIds?.forEach(addVariable);
+      }
+    } catch (e) {
+      reportVariableFailure(`Could not resolve variable modes for ${variableId}`, e);
+    }
+  };
+
+  bindingSources.forEach((boundVars) => {
+    Object.values(boundVars).forEach((binding: any) => {
+      const aliases = Array.isArray(binding) ? binding : [binding];
+      aliases.forEach((alias: any) => {
+        if (isVariableAlias(alias)) {
+          addVariable(alias.id);
+        }
+      });
+    });
+  });
+
+  return Object.keys(variableModes).length > 0 ? variableModes : undefined;
+}
+
 /**
  * Extracts all style properties from a Figma node, including fills, strokes, effects,
  * typography, layout, positioning, opacity, and visibility.
@@ -717,6 +1121,7 @@ function extractPositioning(node: SceneNode): any {
  * 5. Layout: Dimensions, padding, gap, flex properties, border radius, opacity (with variable resolution)
  * 6. Positioning: X, Y coordinates, rotation
  * 7. Visibility: Visible/hidden state
+ * 8. Variable modes: Values of every bound variable in each mode (for theme blocks)
  * 
  * VARIABLE RESOLUTION:
  * All extractor functions check for Figma variable bindings and resolve them using
@@ -727,8 +1132,12 @@ function extractPositioning(node: SceneNode): any {
  * values when extraction fails. This ensures partial extraction is possible even if
  * some properties cannot be extracted.
  * 
+ * Variables that cannot be resolved fall back to raw values and are reported in
+ * `warnings` (VARIABLE_RESOLUTION_FAILED).
+ * 
  * @param node - The Figma node to extract styles from
  * @param variables - All variable collections for resolving variable values
+ * @param warnings - Extraction warnings (variable resolution failures are added to it)
  * @returns ExtractedStyles object containing all extracted style information:
  *   - fills: Array of fill objects with colors, gradients, or images
  *   - strokes: Object with stroke colors, width, style, and alignment
@@ -738,12 +1147,15 @@ function extractPositioning(node: SceneNode): any {
  *   - positioning: Object with x, y coordinates and rotation
  *   - opacity: Opacity value (0-1)
  *   - visible: Visibility flag (true/false)
+ *   - variableModes: Values of bound variables per mode
  */
 export function extractStyles(
   node: SceneNode,
-  variables: readonly VariableCollection[]
+  variables: readonly VariableCollection[],
+  warnings?: ExtractionWarning[]
 ): ExtractedStyles {
-  return {
+  variableFailures = [];
+  const styles: ExtractedStyles = {
     fills: extractFills(node, variables),
     strokes: extractStrokes(node, variables),
     effects: extractEffects(node),
@@ -752,12 +1164,28 @@ export function extractStyles(
     positioning: extractPositioning(node),
     opacity: "opacity" in node ? node.opacity : 1,
     visible: node.visible,
+    variableModes: extractVariableModes(node, variables),
   };
+
+  variableFailures.forEach((message) => {
+    warnings?.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      code: "VARIABLE_RESOLUTION_FAILED",
+      message,
+      severity: "warning",
+    });
+  });
+
+  return styles;
 }
 
 /**
  * Retrieves all local variable collections from the current Figma file.
  * 
+ * Library (remote) collections are not included; they are resolved on demand from
+ * the variables bound to nodes (see findVariableCollection).
+ * 
  * @returns Array of VariableCollection objects, or empty array if retrieval fails
  */
 export function getAllVariables(): readonly VariableCollection[] {
@@ -767,3 +1195,112 @@ export function getAllVariables(): readonly VariableCollection[] {
     return [];
   }
 }
+
+/**
+ * Walks variable collections and returns their variables with raw values per mode,
+ * for design token exports.
+ * 
+ * Without variableIds, every variable of the local collections is returned, collection by
+ * collection. With variableIds (e.g., the variables used by the selection), only those
+ * variables are returned. Variables referenced by an alias are always added (after the
+ * variable referencing them), so every reference of the export resolves to a token.
+ * 
+ * Variables that cannot be read are left out of the export and reported as warnings.
+ * 
+ * @param variableCollections - All local variable collections from the current file
+ * @param variableIds - IDs of the variables to export, or undefined for the entire collections
+ * @param node - Node the warnings select (the first selected node)
+ * @param warnings - Extraction warnings (variables that could not be exported are added to it)
+ * @returns The variables with their collection, modes, type, description and values per mode
+ */
+export function getTokenVariables(
+  variableCollections: readonly VariableCollection[],
+  variableIds: string[] | undefined,
+  node?: SceneNode,
+  warnings?: ExtractionWarning[]
+): TokenVariable[] {
+  variableFailures = [];
+  const queue = variableIds
+    ? [...variableIds]
+    : variableCollections.flatMap((collection) => collection.variableIds);
+  const visited = new Set<string>();
+  const tokenVariables: TokenVariable[] = [];
+
+  for (let i = 0; i < queue.length; i++) {
+    const variableId = queue[i];
+    if (visited.has(variableId)) continue;
+    visited.add(variableId);
+
+    try {
+      const variable = figma.variables.getVariableById(variableId);
+      if (!variable) continue;
+      const collection = findVariableCollection(variable, variableCollections);
+      if (!collection) continue;
+      const defaultMode = collection.modes.find((mode) => mode.modeId === collection.defaultModeId) || collection.modes[0];
+
+      const valuesByMode: { [modeName: string]: any } = {};
+      collection.modes.forEach((mode) => {
+        const value = variable.valuesByMode[mode.modeId];
+        if (isVariableAlias(value)) {
+          const target = figma.variables.getVariableById(value.id);
+          if (!target) return;
+          valuesByMode[mode.name] = { alias: target.name };
+          queue.push(target.id);
+        } else {
+          valuesByMode[mode.name] = value;
+        }
+      });
+
+      tokenVariables.push({
+        name: variable.name,
+        collection: collection.name,
+        modes: collection.modes.map((mode) => mode.name),
+        defaultMode: defaultMode?.name || "",
+        resolvedType: variable.resolvedType,
+        description: variable.description || undefined,
+        valuesByMode,
+        remote: variable.remote || undefined,
+        library: variable.remote ? libraryNamesByCollectionKey.get(collection.key) : undefined,
+      });
+    } catch (e) {
+      reportVariableFailure(`Could not export variable ${variableId}, it is missing from the token exports`, e);
+    }
+  }
+
+  variableFailures.forEach((message) => {
+    if (node) {
+      warnings?.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        code: "TOKEN_EXPORT_FAILED",
+        message,
+        severity: "warning",
+      });
+    }
+  });
+
+  return tokenVariables;
+}
+
+/**
+ * Loads the variable collections available from enabled team libraries and remembers
+ * their library names, so remote variables can be marked with the library they come from.
+ * 
+ * Requires the "teamlibrary" manifest permission. Failures leave remote variables
+ * without a library name rather than failing the extraction.
+ * 
+ * @returns Array of LibraryVariableCollection objects, or empty array if retrieval fails
+ */
+export async function loadLibraryVariableCollections(): Promise<LibraryVariableCollection[]> {
+  libraryNamesByCollectionKey.clear();
+  try {
+    const libraryCollections = await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    libraryCollections.forEach((collection) => {
+      libraryNamesByCollectionKey.set(collection.key, collection.libraryName);
+    });
+    return libraryCollections;
+  } catch (e) {
+    console.warn("Could not load library variable collections:", e);
+    return [];
+  }
+}
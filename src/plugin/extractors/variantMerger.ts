@@ -0,0 +1,134 @@
+import { ExtractionWarning } from "@common/networkSides";
+import { ExtractedNode } from "./componentTraverser";
+
+/**
+ * Aligns the children of the same layer across variants.
+ *
+ * Children are matched by type and name (the n-th "Icon" of a variant matches the n-th
+ * "Icon" of the others). Children that only exist in some variants are inserted after
+ * the last matched sibling, so the merged order follows the variants.
+ *
+ * @param childLists - Children of the layer in each variant (empty where the layer is absent)
+ * @returns One row per merged child, holding the matching child of each variant (or undefined)
+ */
+function alignChildren(childLists: ExtractedNode[][]): (ExtractedNode | undefined)[][] {
+  const rows: { key: string; cells: (ExtractedNode | undefined)[] }[] = [];
+
+  childLists.forEach((children, variantIndex) => {
+    const occurrences: { [key: string]: number } = {};
+    let insertAt = 0;
+
+    children.forEach((child) => {
+      const baseKey = `${child.type}:${child.name}`;
+      occurrences[baseKey] = (occurrences[baseKey] || 0) + 1;
+      const key = `${baseKey}#${occurrences[baseKey]}`;
+
+      const rowIndex = rows.findIndex((row) => row.key === key);
+      if (rowIndex >= 0) {
+        rows[rowIndex].cells[variantIndex] = child;
+        insertAt = rowIndex + 1;
+      } else {
+        const cells: (ExtractedNode | undefined)[] = new Array(childLists.length).fill(undefined);
+        cells[variantIndex] = child;
+        rows.splice(insertAt, 0, { key, cells });
+        insertAt++;
+      }
+    });
+  });
+
+  return rows.map((row) => row.cells);
+}
+
+/**
+ * Merges the same layer of every variant into one layer.
+ *
+ * The first variant that has the layer provides its structure and content. When the
+ * styles differ between variants (or the layer is missing in some of them), the styles
+ * of every variant are kept in variantStyles. Text and SVG markup are not kept per
+ * variant: when they differ, a warning names the first variant layer that is not output.
+ *
+ * @param layers - The layer in each variant (undefined where it does not exist)
+ * @param warnings - Extraction warnings (content differences are added to it)
+ * @returns The merged layer with merged children
+ */
+function mergeLayers(layers: (ExtractedNode | undefined)[], warnings?: ExtractionWarning[]): ExtractedNode {
+  const base = layers.find((layer) => layer) as ExtractedNode;
+  const { children, variantProperties, ...rest } = base;
+  const merged: ExtractedNode = { ...rest };
+
+  const baseStyles = JSON.stringify(base.styles || null);
+  const differs = layers.some((layer) => !layer || JSON.stringify(layer.styles || null) !== baseStyles);
+  if (differs) {
+    merged.variantStyles = layers.map((layer) => (layer ? layer.styles || null : null));
+  }
+
+  const differentText = layers.find((layer) => layer && (layer as any).characters !== (base as any).characters);
+  const differentSVG = layers.find((layer) => layer && layer.svg !== base.svg);
+  const differentContent = differentText || differentSVG;
+  if (differentContent) {
+    warnings?.push({
+      nodeId: differentContent.id,
+      nodeName: differentContent.name,
+      code: "VARIANT_CONTENT_DIFFERS",
+      message: `The ${differentText ? "text" : "vector"} differs between variants, only the one of the default variant is output`,
+      severity: "warning",
+    });
+  }
+
+  const childRows = alignChildren(layers.map((layer) => layer?.children || []));
+  if (children || childRows.length > 0) {
+    merged.children = childRows.map((row) => mergeLayers(row, warnings));
+  }
+
+  return merged;
+}
+
+/**
+ * Merges the variants of an extracted COMPONENT_SET into a single component tree.
+ *
+ * Instead of one tree per variant, the result has the structure shared by the variants
+ * once, and generators express the differences between variants as conditional styles:
+ * - variants: the variant values of each variant (default variant first), from variantProperties
+ * - variantStyles: on layers whose styles differ, the styles in each variant
+ *
+ * The default variant is the one matching the defaults of the VARIANT properties
+ * (Figma's default variant). The merged root keeps the set's name, component properties
+ * and variant axes (variantGroupProperties).
+ *
+ * @param setNode - Extracted COMPONENT_SET node with its variants (styles extracted)
+ * @param warnings - Extraction warnings (text or SVG differences between variants are added to it)
+ * @returns The merged component, or the set unchanged if it has no variants
+ */
+export function mergeComponentSet(setNode: ExtractedNode, warnings?: ExtractionWarning[]): ExtractedNode {
+  const variantNodes = (setNode.children || []).filter((child) => child.type === "COMPONENT");
+  if (variantNodes.length === 0) {
+    return setNode;
+  }
+
+  // Default variant first: its values are the defaults of the VARIANT properties
+  const defaults: { [property: string]: string } = {};
+  Object.entries(setNode.componentProperties || {}).forEach(([property, definition]) => {
+    if (definition.type === "VARIANT") {
+      defaults[property] = String(definition.defaultValue);
+    }
+  });
+  const defaultIndex = Math.max(0, variantNodes.findIndex((variant) => {
+    return Object.entries(defaults).every(([property, value]) => variant.variantProperties?.[property] === value);
+  }));
+  const orderedVariants = [
+    variantNodes[defaultIndex],
+    ...variantNodes.filter((_, index) => index !== defaultIndex),
+  ];
+
+  const merged = mergeLayers(orderedVariants, warnings);
+  return {
+    ...merged,
+    id: setNode.id,
+    name: setNode.name,
+    type: setNode.type,
+    annotations: setNode.annotations && setNode.annotations.length > 0 ? setNode.annotations : merged.annotations,
+    componentProperties: setNode.componentProperties,
+    variantGroupProperties: setNode.variantGroupProperties,
+    variants: orderedVariants.map((variant) => variant.variantProperties || {}),
+  };
+}
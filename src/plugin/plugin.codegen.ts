@@ -0,0 +1,89 @@
+import { AnnotationFormat, CSSOutputOptions } from "@common/networkSides";
+import { generateDOM } from "@common/domGenerator";
+import { generateTailwindDOM } from "@common/tailwindDomGenerator";
+import { generateRawJSON } from "@common/rawJsonGenerator";
+import { extractNodes } from "@plugin/plugin.network";
+
+/**
+ * Codegen options from the Dev Mode preferences (declared in figma.manifest.ts).
+ * Defaults match the plugin window: HTML annotations, prettified output, inline styles.
+ */
+function getCodegenOptions(): { annotationFormat: AnnotationFormat; prettify: boolean; cssOptions: CSSOutputOptions } {
+  const settings = figma.codegen.preferences.customSettings;
+  const annotationFormats: AnnotationFormat[] = ["html", "tsx", "none"];
+  const annotationFormat = annotationFormats.includes(settings.annotationFormat as AnnotationFormat)
+    ? settings.annotationFormat as AnnotationFormat
+    : "html";
+  const classNamings: CSSOutputOptions["classNaming"][] = ["bem", "type", "hash"];
+  const classNaming = classNamings.find((naming) => naming === settings.cssStyles);
+
+  return {
+    annotationFormat,
+    prettify: settings.prettify !== "false",
+    // The CSS result shows the rules, so the stylesheet is never a separate file
+    cssOptions: {
+      styleMode: classNaming ? "classes" : "inline",
+      classNaming: classNaming || "bem",
+      stylesheetTarget: "style",
+    },
+  };
+}
+
+/**
+ * Generates the codegen results of the inspected node in the selected language.
+ *
+ * - css: HTML with inline styles or classes, plus the CSS variables block (and class rules)
+ * - tailwind: HTML with Tailwind classes, plus the CSS variables backing the theme classes
+ * - raw: the extracted node structure as JSON
+ *
+ * @param node - The node inspected in Dev Mode
+ * @param language - The codegen language value (see codegenLanguages in figma.manifest.ts)
+ * @returns Codegen results shown in the Dev Mode inspect panel
+ */
+async function generateCodegenResults(node: SceneNode, language: string): Promise<CodegenResult[]> {
+  const { extractedNodes } = await extractNodes([node], { lightweight: true });
+  const { annotationFormat, prettify, cssOptions } = getCodegenOptions();
+
+  switch (language) {
+    case "tailwind": {
+      const tailwindDom = generateTailwindDOM(extractedNodes, annotationFormat, prettify);
+      const results: CodegenResult[] = [{ title: "HTML", code: tailwindDom.html, language: "HTML" }];
+      if (tailwindDom.css) {
+        results.push({ title: "CSS variables", code: tailwindDom.css, language: "CSS" });
+      }
+      return results;
+    }
+    case "raw": {
+      const rawJson = generateRawJSON(extractedNodes, prettify);
+      return [{ title: "Raw JSON", code: rawJson.json, language: "JSON" }];
+    }
+    case "css":
+    default: {
+      const cssDom = generateDOM(extractedNodes, annotationFormat, prettify, cssOptions);
+      const results: CodegenResult[] = [{ title: "HTML", code: cssDom.html, language: "HTML" }];
+      if (cssDom.css) {
+        results.push({ title: "CSS", code: cssDom.css, language: "CSS" });
+      }
+      return results;
+    }
+  }
+}
+
+/**
+ * Registers the plugin as a Dev Mode codegen provider.
+ * Changing a codegen preference regenerates the results automatically.
+ */
+export function registerCodegen() {
+  figma.codegen.on("generate", async (event) => {
+    try {
+      return await generateCodegenResults(event.node, event.language);
+    } catch (error) {
+      console.error("Error generating code:", error);
+      return [{
+        title: "Error",
+        code: `Failed to generate code: ${error instanceof Error ? error.message : "Unknown error"}`,
+        language: "PLAINTEXT",
+      }];
+    }
+  });
+}
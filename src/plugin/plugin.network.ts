@@ -1,9 +1,41 @@
-import { PLUGIN, UI, AnnotationFormat } from "@common/networkSides";
-import { traverseSelection } from "@plugin/extractors/componentTraverser";
-import { extractStyles, getAllVariables } from "@plugin/extractors/styleExtractor";
+import {
+  PLUGIN,
+  UI,
+  AnnotationFormat,
+  CSSOutputOptions,
+  StyledLibrary,
+  SvelteStyling,
+  TokenScope,
+  VariableMapping,
+  ImageAsset,
+  SelectionInfo,
+  ExtractionProgress,
+  ExtractionWarning,
+  ExtractionWarningCode,
+  FormatOutput,
+} from "@common/networkSides";
+import { ExtractedNode, traverseSelection } from "@plugin/extractors/componentTraverser";
+import { mergeComponentSet } from "@plugin/extractors/variantMerger";
+import { extractStyles, getAllVariables, getTokenVariables, loadLibraryVariableCollections, resolveVariableById } from "@plugin/extractors/styleExtractor";
 import { generateDOM } from "@common/domGenerator";
+import { collectVariableModes } from "@common/cssGenerator";
 import { generateTailwindDOM } from "@common/tailwindDomGenerator";
 import { generateRawJSON } from "@common/rawJsonGenerator";
+import { generateReactComponent } from "@common/reactGenerator";
+import { generateCvaVariants } from "@common/cvaGenerator";
+import { generateCSSModules } from "@common/cssModulesGenerator";
+import { generateSCSS } from "@common/scssGenerator";
+import { generateStyledComponents } from "@common/styledComponentsGenerator";
+import { generateVue } from "@common/vueGenerator";
+import { generateSvelte } from "@common/svelteGenerator";
+import { generateWebComponent } from "@common/webComponentGenerator";
+import { generateReactNative } from "@common/reactNativeGenerator";
+import { generateCompose } from "@common/composeGenerator";
+import { generateSwiftUI } from "@common/swiftUIGenerator";
+import { generateFlutter } from "@common/flutterGenerator";
+import { generateDesignTokens } from "@common/designTokensGenerator";
+import { generateStyleDictionary } from "@common/styleDictionaryGenerator";
+import { generateTokensStudio } from "@common/tokensStudioGenerator";
 
 export const PLUGIN_CHANNEL = PLUGIN.channelBuilder()
   .emitsTo(UI, (message) => {
@@ -16,6 +48,21 @@ export const PLUGIN_CHANNEL = PLUGIN.channelBuilder()
   })
   .startListening();
 
+/**
+ * Node types exported as inline SVG markup instead of being rebuilt from styles.
+ */
+const SVG_NODE_TYPES: string[] = ["VECTOR", "BOOLEAN_OPERATION", "STAR", "POLYGON", "LINE"];
+
+/**
+ * Minimum delay between two progress events (ms).
+ */
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Set by the cancelExtraction request, checked between nodes by the running extraction.
+ */
+let extractionCancelled = false;
+
 // ---------- Message handlers
 
 PLUGIN_CHANNEL.registerMessageHandler("ping", () => {
@@ -106,12 +153,9 @@ function getNodeTypeLabel(node: SceneNode): string {
 }
 
 /**
- * Gets the name and type of the currently selected node(s) in Figma.
- * Used to update the UI when selection changes.
- * 
- * @returns Object with name and type of the first selected node
+ * Returns the name and type label of the first selected node.
  */
-PLUGIN_CHANNEL.registerMessageHandler("getSelectionName", async () => {
+function getSelectionInfo(): SelectionInfo {
   const selectedNodes = figma.currentPage.selection;
   
   if (selectedNodes.length === 0) {
@@ -123,6 +167,48 @@ PLUGIN_CHANNEL.registerMessageHandler("getSelectionName", async () => {
     name: node.name || "Unnamed",
     type: getNodeTypeLabel(node)
   };
+}
+
+/**
+ * Gets the name and type of the currently selected node(s) in Figma.
+ * Used by the UI to show the selection when it opens; later changes are pushed
+ * with the selectionChanged event.
+ * 
+ * @returns Object with name and type of the first selected node
+ */
+PLUGIN_CHANNEL.registerMessageHandler("getSelectionName", async () => {
+  return getSelectionInfo();
+});
+
+/**
+ * Cancels the running extraction. It stops before the next node and returns the
+ * outputs of the nodes extracted so far (cancelled is set on the result).
+ */
+PLUGIN_CHANNEL.registerMessageHandler("cancelExtraction", () => {
+  extractionCancelled = true;
+});
+
+/**
+ * Selects a node and zooms to it (used by the warnings list of the UI).
+ * Switches to the page of the node when it is on another page.
+ */
+PLUGIN_CHANNEL.registerMessageHandler("selectNode", async (nodeId) => {
+  const node = figma.getNodeById(nodeId);
+  if (!node || node.type === "DOCUMENT" || node.type === "PAGE") {
+    figma.notify("This layer no longer exists.");
+    return;
+  }
+
+  let page: BaseNode | null = node.parent;
+  while (page && page.type !== "PAGE") {
+    page = page.parent;
+  }
+  if (page && page !== figma.currentPage) {
+    figma.currentPage = page as PageNode;
+  }
+
+  figma.currentPage.selection = [node as SceneNode];
+  figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
 });
 
 /**
@@ -180,166 +266,554 @@ PLUGIN_CHANNEL.registerMessageHandler("exportSelection", async () => {
 });
 
 /**
- * Main extraction handler: extracts component DOM structure from selected Figma nodes.
+ * Detects the file extension of image bytes from their signature (defaults to png).
+ */
+function getImageExtension(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpg";
+  }
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return "gif";
+  }
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 && bytes[8] === 0x57 && bytes[9] === 0x45) {
+    return "webp";
+  }
+  return "png";
+}
+
+/**
+ * Fetches the bytes of an image fill and registers it as an asset.
+ * Each image hash is fetched once, even if several nodes use the same image.
+ * 
+ * @param imageHash - The imageHash of the IMAGE paint
+ * @param assets - Assets exported so far, keyed by image hash
+ * @returns The asset, or null if the image is not available
+ */
+async function exportImageAsset(imageHash: string, assets: Map<string, ImageAsset>): Promise<ImageAsset | null> {
+  const existing = assets.get(imageHash);
+  if (existing) {
+    return existing;
+  }
+
+  const image = figma.getImageByHash(imageHash);
+  if (!image) {
+    return null;
+  }
+
+  const bytes = await image.getBytesAsync();
+  const asset: ImageAsset = {
+    hash: imageHash,
+    path: `assets/${imageHash}.${getImageExtension(bytes)}`,
+    bytes,
+  };
+  assets.set(imageHash, asset);
+  return asset;
+}
+
+/**
+ * Extracted nodes with styles, ready to be passed to the generators.
+ */
+interface NodeExtraction {
+  extractedNodes: ExtractedNode[];
+  variables: readonly VariableCollection[]; // Local variable collections used to resolve bindings
+  imageAssets: Map<string, ImageAsset>; // Image fills referenced by the nodes, keyed by image hash
+  cancelled: boolean; // Whether the extraction was cancelled (extractedNodes only holds the nodes extracted so far)
+  warnings: ExtractionWarning[]; // Problems met while extracting (styles, variables, fonts, images, SVGs)
+}
+
+/**
+ * Progress reporting and cancellation of an extraction.
+ */
+interface ExtractionOptions {
+  onProgress?: (progress: ExtractionProgress) => void;
+  isCancelled?: () => boolean;
+  lightweight?: boolean; // Skips the slow exports (image bytes, team library collections, SVGs), for Dev Mode codegen
+}
+
+/**
+ * Builds an extraction warning for a Figma node, with the error message appended.
+ */
+function createWarning(
+  node: SceneNode,
+  code: ExtractionWarningCode,
+  message: string,
+  severity: ExtractionWarning["severity"],
+  error?: unknown
+): ExtractionWarning {
+  const detail = error === undefined ? "" : `: ${error instanceof Error ? error.message : String(error)}`;
+  return { nodeId: node.id, nodeName: node.name, code, message: `${message}${detail}`, severity };
+}
+
+/**
+ * Generates one output format. An error of its generator is added to the warnings
+ * (on the given node) and leaves the format empty, so the other formats are still generated.
+ *
+ * @param formatName - Name of the format shown in the warning (e.g., "React")
+ * @param node - Node the warning selects (the first selected node)
+ * @param warnings - Warnings of the extraction, the failure is appended to them
+ * @param generate - Runs the generator and returns the format output
+ * @returns The format output, or an empty output when the generator failed
+ */
+function generateFormat(
+  formatName: string,
+  node: SceneNode,
+  warnings: ExtractionWarning[],
+  generate: () => FormatOutput
+): FormatOutput {
+  try {
+    return generate();
+  } catch (error) {
+    console.error(`Failed to generate ${formatName}:`, error);
+    warnings.push(createWarning(node, "FORMAT_GENERATION_FAILED", `The ${formatName} output could not be generated`, "error", error));
+    return { stylesheet: "", usedVariables: [] };
+  }
+}
+
+/**
+ * Counts the nodes of extracted trees.
+ */
+function countExtractedNodes(nodes: ExtractedNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countExtractedNodes(node.children || []), 0);
+}
+
+/**
+ * Extracts the tree and styles of Figma nodes.
  * 
  * Extraction process:
- * 1. Handles COMPONENT_SET nodes by extracting all component variants
- * 2. Traverses nodes to build tree structure
- * 3. Recursively extracts styles (with variable resolution) and text content
- * 4. Generates all three output formats at once: CSS, Tailwind, and Raw JSON
+ * 1. Traverses nodes to build tree structure (COMPONENT_SET nodes include their variants)
+ * 2. Recursively extracts styles (with variable resolution) and text content
+ * 3. Merges COMPONENT_SET variants into a single component whose variant axes become props
  * 
- * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
- * @param prettify - Whether to prettify the output (true) or use compact format (false)
- * @returns Object with css, tailwind, and raw outputs, plus componentName and variableMappings
+ * Shared by the plugin window (extractComponent) and Dev Mode codegen.
+ * 
+ * Progress is reported at most every PROGRESS_INTERVAL ms, and the extraction then
+ * yields to the event loop so the progress is sent and a cancel request can be handled.
+ * When cancelled, the layers not extracted yet are dropped: the result holds the
+ * nodes extracted so far.
+ * 
+ * A lightweight extraction (Dev Mode codegen runs on every inspected node) does not fetch
+ * image bytes, does not load the team library collections (remote variables get no library
+ * name) and rebuilds vector-like layers from their styles instead of exporting them as SVG.
+ * 
+ * @param nodes - The Figma nodes to extract
+ * @param options - Optional progress callback, cancellation check and lightweight mode
+ * @returns The extracted nodes with styles, the variable collections, the image assets and the warnings
  */
-PLUGIN_CHANNEL.registerMessageHandler("extractComponent", async (annotationFormat: AnnotationFormat = "html", prettify: boolean = true) => {
-  const selectedNodes = figma.currentPage.selection;
+export async function extractNodes(nodes: readonly SceneNode[], options: ExtractionOptions = {}): Promise<NodeExtraction> {
+  // Step 1: Collect the nodes to extract
+  // A COMPONENT_SET is extracted whole: its variants are traversed as its children
+  // and merged into a single variant-aware component after style extraction (Step 5)
+  const nodesToExtract: SceneNode[] = [...nodes];
   
-  if (selectedNodes.length === 0) {
-    throw new Error("Please select at least one component to extract.");
+  // Step 2: Get all variable collections for resolving variable bindings
+  // Library collections are loaded so remote variables can be marked with their library name
+  if (!options.lightweight) {
+    await loadLibraryVariableCollections();
   }
+  const variables = getAllVariables();
 
-  try {
-    // Step 1: Handle COMPONENT_SET nodes - extract all component variants from the set
-    // When a COMPONENT_SET is selected, we extract all individual component variants
-    // instead of just the set itself, so users get all variants in the output
-    let nodesToExtract: SceneNode[] = [];
-    for (const node of selectedNodes) {
-      if (node.type === "COMPONENT_SET") {
-        // Get all component variants from the set
-        if ("children" in node && node.children.length > 0) {
-          node.children.forEach((child) => {
-            if (child.type === "COMPONENT") {
-              nodesToExtract.push(child);
-            }
-          });
-        } else {
-          // Fallback: if no children, use the node itself (shouldn't happen in normal cases)
-          nodesToExtract.push(node);
-        }
-      } else {
-        nodesToExtract.push(node);
-      }
+  // Step 3: Traverse the selected components to build node tree structure
+  // This creates a hierarchical representation of the component structure
+  // Problems are collected as warnings instead of failing the extraction
+  const warnings: ExtractionWarning[] = [];
+  const extractedNodes = traverseSelection(nodesToExtract, warnings);
+
+  // Image fills exported while extracting styles (sent to the UI for the ZIP export)
+  const imageAssets = new Map<string, ImageAsset>();
+
+  // Progress over the whole tree (variants of a COMPONENT_SET included)
+  const total = countExtractedNodes(extractedNodes);
+  let visited = 0;
+  let lastProgressAt = 0;
+  let cancelled = false;
+
+  const reportProgress = async (nodeName: string) => {
+    if (!options.onProgress || Date.now() - lastProgressAt < PROGRESS_INTERVAL) return;
+    lastProgressAt = Date.now();
+    options.onProgress({ visited, total, nodeName });
+    // Yield to the event loop so the progress message is sent and a cancel request can be received
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  /**
+   * Recursively extracts styles for a node and its children.
+   * 
+   * This function is async because font loading is required before accessing
+   * text content from TEXT nodes. The function:
+   * - Extracts styles (with variable resolution) for the current node
+   * - Fetches the bytes of image fills (fill.src is set to the asset path)
+   * - Loads fonts and extracts text content for TEXT nodes
+   * - Recursively processes all children, unless the extraction is cancelled
+   * 
+   * @param node - The extracted node structure (will be populated with styles)
+   * @param figmaNode - The original Figma node to extract from
+   */
+  async function extractStylesRecursive(node: any, figmaNode: SceneNode) {
+    visited++;
+    await reportProgress(figmaNode.name);
+
+    // Extract styles for current node (includes variable resolution)
+    try {
+      node.styles = extractStyles(figmaNode, variables, warnings);
+    } catch (styleError) {
+      // Continue with empty styles rather than failing completely
+      // This allows partial extraction if some nodes have issues
+      node.styles = null;
+      warnings.push(createWarning(figmaNode, "STYLE_EXTRACTION_FAILED", "Could not extract styles, the layer is output without styles", "error", styleError));
     }
-    
-    // Step 2: Get all variable collections for resolving variable bindings
-    const variables = getAllVariables();
-
-    // Step 3: Traverse the selected components to build node tree structure
-    // This creates a hierarchical representation of the component structure
-    const extractedNodes = traverseSelection(nodesToExtract);
-
-    /**
-     * Recursively extracts styles for a node and its children.
-     * 
-     * This function is async because font loading is required before accessing
-     * text content from TEXT nodes. The function:
-     * - Extracts styles (with variable resolution) for the current node
-     * - Loads fonts and extracts text content for TEXT nodes
-     * - Recursively processes all children
-     * 
-     * @param node - The extracted node structure (will be populated with styles)
-     * @param figmaNode - The original Figma node to extract from
-     */
-    async function extractStylesRecursive(node: any, figmaNode: SceneNode) {
-      // Extract styles for current node (includes variable resolution)
-      try {
-        node.styles = extractStyles(figmaNode, variables);
-      } catch (styleError) {
-        // Continue with empty styles rather than failing completely
-        // This allows partial extraction if some nodes have issues
-        node.styles = null;
-      }
 
-      // Extract text content if it's a text node
-      // Font loading is required before accessing characters property
-      if (figmaNode.type === "TEXT") {
-        const textNode = figmaNode as TextNode;
+    // Export image fills as assets so the outputs can reference them
+    if (node.styles?.fills && !options.lightweight) {
+      for (const fill of node.styles.fills) {
+        if (fill.type !== "IMAGE" || !fill.imageHash) continue;
         try {
-          // Load font if needed (required before accessing characters)
-          if (textNode.fontName !== figma.mixed && textNode.fontName) {
-            await figma.loadFontAsync(textNode.fontName as FontName);
+          const asset = await exportImageAsset(fill.imageHash, imageAssets);
+          if (asset) {
+            fill.src = asset.path;
+          } else {
+            warnings.push(createWarning(figmaNode, "IMAGE_EXPORT_FAILED", `Image ${fill.imageHash} is not available`, "warning"));
           }
-          (node as any).characters = textNode.characters;
         } catch (e) {
-          console.warn(`Could not load text content for ${textNode.name}:`, e);
-          // Fallback to node name if text extraction fails
-          (node as any).characters = textNode.name || "";
+          console.warn(`Could not export image for ${figmaNode.name}:`, e);
+          warnings.push(createWarning(figmaNode, "IMAGE_EXPORT_FAILED", "Could not export the image fill", "warning", e));
         }
       }
+    }
 
-      // Recursively extract styles for children
-      if (node.children && "children" in figmaNode) {
-        const figmaChildren = (figmaNode as ChildrenMixin).children;
-        
-        // Process each child, maintaining the same order
-        for (let index = 0; index < node.children.length; index++) {
-          if (figmaChildren[index]) {
-            try {
-              await extractStylesRecursive(node.children[index], figmaChildren[index]);
-            } catch (childError) {
-              throw childError;
-            }
-          }
+    // Extract text content if it's a text node
+    // Font loading is required before accessing characters property
+    if (figmaNode.type === "TEXT") {
+      const textNode = figmaNode as TextNode;
+      try {
+        // Load fonts if needed (required before accessing characters)
+        // Rich text with mixed fonts needs every font used in the text
+        const fontNames = textNode.fontName !== figma.mixed
+          ? [textNode.fontName]
+          : textNode.getRangeAllFontNames(0, textNode.characters.length);
+        for (const fontName of fontNames) {
+          await figma.loadFontAsync(fontName);
         }
+        (node as any).characters = textNode.characters;
+      } catch (e) {
+        console.warn(`Could not load text content for ${textNode.name}:`, e);
+        // Fallback to node name if text extraction fails
+        (node as any).characters = textNode.name || "";
+        warnings.push(createWarning(figmaNode, "FONT_LOAD_FAILED", "Could not load the fonts, the layer name is used as text", "warning", e));
       }
     }
 
-    // Step 4: Extract styles for all root nodes recursively
-    // This processes the entire tree structure, extracting styles and text content
-    for (let index = 0; index < nodesToExtract.length; index++) {
-      if (extractedNodes[index]) {
-        try {
-          await extractStylesRecursive(extractedNodes[index], nodesToExtract[index]);
-        } catch (styleError) {
-          throw new Error(`Failed to extract styles for ${nodesToExtract[index].name}: ${styleError instanceof Error ? styleError.message : "Unknown error"}`);
+    // Vector-like nodes are exported as SVG markup (icons, shapes)
+    // The SVG already contains their children, so they are not extracted separately
+    if (SVG_NODE_TYPES.includes(figmaNode.type) && !options.lightweight) {
+      try {
+        node.svg = await figmaNode.exportAsync({ format: "SVG_STRING" });
+        visited += countExtractedNodes(node.children || []);
+        return;
+      } catch (e) {
+        console.warn(`Could not export SVG for ${figmaNode.name}:`, e);
+        warnings.push(createWarning(figmaNode, "SVG_EXPORT_FAILED", "Could not export as SVG, the layer is rebuilt from its styles", "warning", e));
+      }
+    }
+
+    // Recursively extract styles for children
+    if (node.children && "children" in figmaNode) {
+      const figmaChildren = (figmaNode as ChildrenMixin).children;
+      
+      // Process each child, maintaining the same order
+      for (let index = 0; index < node.children.length; index++) {
+        if (cancelled || (options.isCancelled && options.isCancelled())) {
+          // Keep the children extracted so far
+          cancelled = true;
+          node.children = node.children.slice(0, index);
+          break;
+        }
+        if (figmaChildren[index]) {
+          try {
+            await extractStylesRecursive(node.children[index], figmaChildren[index]);
+          } catch (childError) {
+            throw childError;
+          }
         }
       }
     }
+  }
 
-    // Step 5: Generate all three output formats from extracted nodes with styles
-    // CSS: HTML with inline styles using CSS variables
-    // Tailwind: HTML with Tailwind utility classes
-    // Raw: JSON representation of the extracted node structure
-    let cssDom;
-    let tailwindDom;
-    let rawJson;
-    
-    try {
-      cssDom = generateDOM(extractedNodes, annotationFormat, prettify);
-    } catch (domError) {
-      throw new Error(`Failed to generate CSS DOM: ${domError instanceof Error ? domError.message : "Unknown error"}`);
+  // Step 4: Extract styles for all root nodes recursively
+  // This processes the entire tree structure, extracting styles and text content
+  for (let index = 0; index < nodesToExtract.length; index++) {
+    if (cancelled || (options.isCancelled && options.isCancelled())) {
+      // Keep the root nodes extracted so far
+      cancelled = true;
+      extractedNodes.splice(index);
+      break;
     }
-    
-    try {
-      tailwindDom = generateTailwindDOM(extractedNodes, annotationFormat, prettify);
-    } catch (domError) {
-      throw new Error(`Failed to generate Tailwind DOM: ${domError instanceof Error ? domError.message : "Unknown error"}`);
+    if (extractedNodes[index]) {
+      try {
+        await extractStylesRecursive(extractedNodes[index], nodesToExtract[index]);
+      } catch (styleError) {
+        throw new Error(`Failed to extract styles for ${nodesToExtract[index].name}: ${styleError instanceof Error ? styleError.message : "Unknown error"}`);
+      }
     }
-    
-    try {
-      rawJson = generateRawJSON(extractedNodes, prettify);
-    } catch (jsonError) {
-      throw new Error(`Failed to generate Raw JSON: ${jsonError instanceof Error ? jsonError.message : "Unknown error"}`);
+  }
+
+  // Step 5: Merge each COMPONENT_SET into a single variant-aware component
+  // The shared structure is kept once, with the styles of every variant on the layers that differ
+  for (let index = 0; index < extractedNodes.length; index++) {
+    if (extractedNodes[index].type === "COMPONENT_SET") {
+      extractedNodes[index] = mergeComponentSet(extractedNodes[index], warnings);
     }
-    
+  }
+
+  return { extractedNodes, variables, imageAssets, cancelled, warnings };
+}
+
+/**
+ * Main extraction handler: extracts component DOM structure from selected Figma nodes.
+ * 
+ * Extraction process:
+ * 1. Traverses nodes to build tree structure (COMPONENT_SET nodes include their variants)
+ * 2. Recursively extracts styles (with variable resolution) and text content
+ * 3. Merges COMPONENT_SET variants into a single component whose variant axes become props
+ * 4. Generates all output formats at once: CSS, Tailwind, Raw JSON, React TSX, cva() variants, CSS Modules, SCSS,
+ *    styled-components/Emotion, Vue, Svelte, Web Components, React Native, Jetpack Compose, SwiftUI and Flutter
+ * 5. Exports the variables (used by the selection, or the entire collections) as DTCG, Style Dictionary and Tokens Studio tokens
+ * 
+ * @param annotationFormat - Format for annotations: "html", "tsx", or "none"
+ * @param prettify - Whether to prettify the output (true) or use compact format (false)
+ * @param cssOptions - Inline styles (default) or class-based CSS output with a stylesheet
+ * @param styledLibrary - Library of the CSS-in-JS output: "styled-components" (default) or "emotion"
+ * @param svelteStyling - Styling of the Svelte output: scoped CSS rules ("css", default) or Tailwind classes
+ * @param tokenScope - Variables of the token exports: used by the selection ("used", default) or the entire local collections ("all")
+ * @returns Object with css, tailwind, raw, react, cva, cssModules, scss, styled, vue, svelte, webComponent, reactNative, compose, swiftUI, flutter, designTokens, styleDictionary and tokensStudio outputs, plus componentName and variableMappings
+ */
+PLUGIN_CHANNEL.registerMessageHandler("extractComponent", async (annotationFormat: AnnotationFormat = "html", prettify: boolean = true, cssOptions?: CSSOutputOptions, styledLibrary: StyledLibrary = "styled-components", svelteStyling: SvelteStyling = "css", tokenScope: TokenScope = "used") => {
+  const selectedNodes = figma.currentPage.selection;
+  
+  if (selectedNodes.length === 0) {
+    throw new Error("Please select at least one component to extract.");
+  }
+
+  try {
+    // Steps 1-5: Extract the selected nodes with their styles
+    // Progress is pushed to the UI; a cancelExtraction request stops the extraction with partial results
+    extractionCancelled = false;
+    const { extractedNodes, variables, imageAssets, cancelled, warnings } = await extractNodes(selectedNodes, {
+      onProgress: (progress) => PLUGIN_CHANNEL.emit(UI, "extractionProgress", [progress]),
+      isCancelled: () => extractionCancelled,
+    });
+
+    // Step 6: Generate all output formats from extracted nodes with styles
+    // CSS: HTML with inline styles (or classes and a stylesheet) using CSS variables
+    // Tailwind: HTML with Tailwind utility classes
+    // Raw: JSON representation of the extracted node structure
+    // React: TSX components with typed props from the component properties
+    // CVA: Tailwind classes of each layer grouped into cva() configs by variant
+    // CSS Modules: TSX components importing a .module.css with one class per layer
+    // SCSS: HTML with nested SCSS rules, plus a tokens file (variables, maps, typography mixins)
+    // Styled: TSX components with one styled component per layer, plus a theme module
+    // Vue: single-file component with defineProps, a template and scoped styles
+    // Svelte: component with export let props, markup and scoped styles (or Tailwind classes)
+    // Web Component: custom element class with a shadow root and an adopted stylesheet
+    // React Native: View/Text/Image components with a StyleSheet, plus a tokens module
+    // Compose: Kotlin composables (Row/Column with modifiers), plus an AppTheme object
+    // SwiftUI: Swift views (HStack/VStack with modifiers), plus an AppTheme enum
+    // Flutter: Dart widgets (Row/Column, Container decorations), plus an AppTokens class
+    // A generator that fails leaves its format empty and adds a FORMAT_GENERATION_FAILED warning
+
+    // Warnings of the extraction, then layers the generators had to leave out or flatten and formats that failed
+    const allWarnings: ExtractionWarning[] = [...warnings];
+    const formatOutput = (formatName: string, generate: () => FormatOutput) =>
+      generateFormat(formatName, selectedNodes[0], allWarnings, generate);
+
+    // CSS format output
+    const css = formatOutput("CSS", () => {
+      const cssDom = generateDOM(extractedNodes, annotationFormat, prettify, cssOptions);
+      allWarnings.push(...cssDom.warnings);
+      return {
+        html: cssDom.html,
+        files: cssDom.cssFile !== undefined && cssDom.cssFileName
+          ? [{ name: cssDom.cssFileName, content: cssDom.cssFile }]
+          : undefined,
+        stylesheet: cssDom.stylesheet,
+        usedVariables: cssDom.usedVariables,
+      };
+    });
+
+    // Tailwind format output
+    const tailwind = formatOutput("Tailwind", () => {
+      const tailwindDom = generateTailwindDOM(extractedNodes, annotationFormat, prettify);
+      allWarnings.push(...tailwindDom.warnings);
+      return {
+        html: tailwindDom.html,
+        stylesheet: tailwindDom.stylesheet,
+        usedVariables: tailwindDom.usedVariables,
+      };
+    });
+
+    // Raw JSON format output
+    const raw = formatOutput("Raw JSON", () => {
+      const rawJson = generateRawJSON(extractedNodes, prettify);
+      return {
+        json: rawJson.json,
+        stylesheet: rawJson.stylesheet,
+        usedVariables: rawJson.usedVariables,
+      };
+    });
+
+    // React TSX output (Tailwind classes, component properties as props)
+    const react = formatOutput("React", () => {
+      const reactComponent = generateReactComponent(extractedNodes, annotationFormat, prettify);
+      return {
+        tsx: reactComponent.tsx,
+        stylesheet: reactComponent.stylesheet,
+        usedVariables: reactComponent.usedVariables,
+      };
+    });
+
+    // cva() variant configs (Tailwind classes per layer, keyed by variant property)
+    const cva = formatOutput("CVA", () => {
+      const cvaVariants = generateCvaVariants(extractedNodes, annotationFormat, prettify);
+      return {
+        ts: cvaVariants.ts,
+        stylesheet: cvaVariants.stylesheet,
+        usedVariables: cvaVariants.usedVariables,
+      };
+    });
+
+    // CSS Modules output (Component.tsx importing Component.module.css)
+    const cssModules = formatOutput("CSS Modules", () => {
+      const modules = generateCSSModules(extractedNodes, annotationFormat, prettify);
+      allWarnings.push(...modules.warnings);
+      return {
+        tsx: modules.tsx,
+        tsxFileName: modules.tsxFileName,
+        files: [{ name: modules.cssFileName, content: modules.css }],
+        stylesheet: modules.stylesheet,
+        usedVariables: modules.usedVariables,
+      };
+    });
+
+    // SCSS output (HTML, nested component stylesheet and tokens file)
+    const scss = formatOutput("SCSS", () => {
+      const scssOutput = generateSCSS(extractedNodes, annotationFormat, prettify);
+      allWarnings.push(...scssOutput.warnings);
+      return {
+        html: scssOutput.html,
+        files: [
+          { name: scssOutput.scssFileName, content: scssOutput.scss },
+          { name: scssOutput.tokensFileName, content: scssOutput.tokens },
+        ],
+        stylesheet: scssOutput.stylesheet,
+        usedVariables: scssOutput.usedVariables,
+      };
+    });
+
+    // styled-components/Emotion output (styled components per layer, theme module)
+    const styled = formatOutput("Styled", () => {
+      const styledComponents = generateStyledComponents(extractedNodes, annotationFormat, prettify, styledLibrary);
+      allWarnings.push(...styledComponents.warnings);
+      return {
+        tsx: styledComponents.tsx,
+        files: [{ name: styledComponents.themeFileName, content: styledComponents.theme }],
+        stylesheet: styledComponents.stylesheet,
+        usedVariables: styledComponents.usedVariables,
+      };
+    });
+
+    // Vue single-file component (script setup, template, scoped styles)
+    const vue = formatOutput("Vue", () => {
+      const vueComponent = generateVue(extractedNodes, annotationFormat, prettify);
+      return {
+        vue: vueComponent.vue,
+        stylesheet: vueComponent.stylesheet,
+        usedVariables: vueComponent.usedVariables,
+      };
+    });
+
+    // Svelte component (script, markup, style)
+    const svelte = formatOutput("Svelte", () => {
+      const svelteComponent = generateSvelte(extractedNodes, annotationFormat, prettify, svelteStyling);
+      return {
+        svelte: svelteComponent.svelte,
+        stylesheet: svelteComponent.stylesheet,
+        usedVariables: svelteComponent.usedVariables,
+      };
+    });
+
+    // Web Component (custom element classes with shadow DOM)
+    const webComponent = formatOutput("Web Component", () => {
+      const customElement = generateWebComponent(extractedNodes, annotationFormat, prettify);
+      return {
+        ts: customElement.ts,
+        stylesheet: customElement.stylesheet,
+        usedVariables: customElement.usedVariables,
+      };
+    });
+
+    // React Native output (StyleSheet components, tokens module)
+    const reactNative = formatOutput("React Native", () => {
+      const nativeComponent = generateReactNative(extractedNodes, annotationFormat, prettify);
+      return {
+        tsx: nativeComponent.tsx,
+        files: [{ name: nativeComponent.tokensFileName, content: nativeComponent.tokens }],
+        stylesheet: nativeComponent.stylesheet,
+        usedVariables: nativeComponent.usedVariables,
+      };
+    });
+
+    // Jetpack Compose output (composables, AppTheme object)
+    const compose = formatOutput("Compose", () => {
+      const composables = generateCompose(extractedNodes, annotationFormat, prettify);
+      return {
+        kotlin: composables.kotlin,
+        files: [{ name: composables.themeFileName, content: composables.theme }],
+        stylesheet: composables.stylesheet,
+        usedVariables: composables.usedVariables,
+      };
+    });
+
+    // SwiftUI output (views, AppTheme enum)
+    const swiftUI = formatOutput("SwiftUI", () => {
+      const views = generateSwiftUI(extractedNodes, annotationFormat, prettify);
+      return {
+        swift: views.swift,
+        files: [{ name: views.themeFileName, content: views.theme }],
+        stylesheet: views.stylesheet,
+        usedVariables: views.usedVariables,
+      };
+    });
+
+    // Flutter output (widgets, AppTokens class)
+    const flutter = formatOutput("Flutter", () => {
+      const widgets = generateFlutter(extractedNodes, annotationFormat, prettify);
+      return {
+        dart: widgets.dart,
+        files: [{ name: widgets.tokensFileName, content: widgets.tokens }],
+        stylesheet: widgets.stylesheet,
+        usedVariables: widgets.usedVariables,
+      };
+    });
+
     // Get component name from first selected node (use original selection for naming)
     const componentName = selectedNodes.length > 0 
       ? selectedNodes[0].name || "Component"
       : "Component";
 
     // Collect variable mappings for reference (optional metadata)
-    const variableMappings: Array<{ name: string; value: any }> = [];
+    // value is the default mode; valuesByMode holds every mode keyed by mode name.
+    // Aliases are resolved to their final value, with the hops kept in aliasChain.
+    const variableMappings: VariableMapping[] = [];
     variables.forEach((collection) => {
       collection.variableIds.forEach((variableId) => {
         try {
-          const variable = figma.variables.getVariableById(variableId);
-          if (variable) {
-            const modeId = collection.modes[0]?.modeId || "";
-            const value = variable.valuesByMode[modeId];
+          const variableInfo = resolveVariableById(variableId, variables);
+          if (variableInfo?.name) {
             variableMappings.push({
-              name: variable.name,
-              value: value,
+              name: variableInfo.name,
+              value: variableInfo.value,
+              valuesByMode: variableInfo.valuesByMode,
+              aliasChain: variableInfo.aliasChain,
+              collection: variableInfo.collection,
             });
           }
         } catch (e) {
@@ -348,36 +822,109 @@ PLUGIN_CHANNEL.registerMessageHandler("extractComponent", async (annotationForma
       });
     });
 
+    // Library (remote) variables are not in the local collections: add the ones used by the selection
+    const usedVariableModes = collectVariableModes(extractedNodes);
+    Object.entries(usedVariableModes).forEach(([name, modes]) => {
+      if (!modes.remote) return;
+      variableMappings.push({
+        name,
+        value: modes.valuesByMode[modes.defaultMode],
+        valuesByMode: modes.valuesByMode,
+        aliasChain: modes.aliasesByMode?.[modes.defaultMode],
+        collection: modes.collection,
+        remote: true,
+        key: modes.key,
+        library: modes.library,
+      });
+    });
+
+    // Token exports of the used variables (with the variables they alias) or of every local variable
+    // Design tokens: DTCG JSON, one file per mode
+    // Style Dictionary: Category/Type/Item source JSON, one file per mode
+    // Tokens Studio: token sets per collection (and mode) with a theme per mode
+    const usedVariableIds = Object.values(usedVariableModes)
+      .map((modes) => modes.id)
+      .filter((id): id is string => !!id);
+    const tokenVariables = getTokenVariables(variables, tokenScope === "all" ? undefined : usedVariableIds, selectedNodes[0], allWarnings);
+
+    // Design tokens output (DTCG JSON of the default modes, one file per other mode)
+    const designTokens = formatOutput("Design tokens", () => {
+      const dtcg = generateDesignTokens(tokenVariables, prettify);
+      return {
+        json: dtcg.json,
+        files: dtcg.files,
+        stylesheet: dtcg.stylesheet,
+        usedVariables: dtcg.usedVariables,
+      };
+    });
+
+    // Style Dictionary output (source JSON of the default modes, one file per other mode)
+    const styleDictionary = formatOutput("Style Dictionary", () => {
+      const sources = generateStyleDictionary(tokenVariables, prettify);
+      return {
+        json: sources.json,
+        files: sources.files,
+        stylesheet: sources.stylesheet,
+        usedVariables: sources.usedVariables,
+      };
+    });
+
+    // Tokens Studio output (token sets, themes and metadata in a single file)
+    const tokensStudio = formatOutput("Tokens Studio", () => {
+      const document = generateTokensStudio(tokenVariables, prettify);
+      return {
+        json: document.json,
+        stylesheet: document.stylesheet,
+        usedVariables: document.usedVariables,
+      };
+    });
+
     // Combine all used variables from all formats (deduplicated)
+    // Token exports are left out: with the "all" scope they hold variables the selection does not use
     const allUsedVariables = [...new Set([
-      ...cssDom.usedVariables,
-      ...tailwindDom.usedVariables,
-      ...rawJson.usedVariables,
-    ])].sort();
+      css,
+      tailwind,
+      raw,
+      react,
+      cva,
+      cssModules,
+      scss,
+      styled,
+      vue,
+      svelte,
+      webComponent,
+      reactNative,
+      compose,
+      swiftUI,
+      flutter,
+    ].flatMap((output) => output.usedVariables))].sort();
 
     const result = {
-      // CSS format output
-      css: {
-        html: cssDom.html,
-        stylesheet: cssDom.stylesheet,
-        usedVariables: cssDom.usedVariables,
-      },
-      // Tailwind format output
-      tailwind: {
-        html: tailwindDom.html,
-        stylesheet: tailwindDom.stylesheet,
-        usedVariables: tailwindDom.usedVariables,
-      },
-      // Raw JSON format output
-      raw: {
-        json: rawJson.json,
-        stylesheet: rawJson.stylesheet,
-        usedVariables: rawJson.usedVariables,
-      },
+      css,
+      tailwind,
+      raw,
+      react,
+      cva,
+      cssModules,
+      scss,
+      styled,
+      vue,
+      svelte,
+      webComponent,
+      reactNative,
+      compose,
+      swiftUI,
+      flutter,
+      designTokens,
+      styleDictionary,
+      tokensStudio,
       // Shared metadata
       componentName: componentName,
       variableMappings: variableMappings.length > 0 ? variableMappings : undefined,
       usedVariables: allUsedVariables.length > 0 ? allUsedVariables : undefined,
+      assets: imageAssets.size > 0 ? [...imageAssets.values()] : undefined,
+      warnings: allWarnings.length > 0 ? allWarnings : undefined,
+      cancelled: cancelled || undefined,
     };
     
     return result;
@@ -386,3 +933,58 @@ PLUGIN_CHANNEL.registerMessageHandler("extractComponent", async (annotationForma
     throw new Error(`Failed to extract component: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 });
+
+// ---------- Document events
+
+/**
+ * Returns the ids of the selected nodes affected by document changes.
+ * A change to a selected node or to any of its descendants counts for the selected node.
+ * Removed nodes are ignored: removing a selected node changes the selection instead.
+ * 
+ * @param changes - Changes of a documentchange event
+ * @returns Ids of the affected selected nodes
+ */
+function getChangedSelectionIds(changes: DocumentChange[]): string[] {
+  const selectedIds = new Set(figma.currentPage.selection.map((node) => node.id));
+  const changedIds = new Set<string>();
+  if (selectedIds.size === 0) {
+    return [];
+  }
+
+  changes.forEach((change) => {
+    // Style changes have no node
+    if (!("node" in change) || change.node.removed) return;
+
+    let current: BaseNode | null = change.node;
+    while (current) {
+      if (selectedIds.has(current.id)) {
+        changedIds.add(current.id);
+        return;
+      }
+      current = current.parent;
+    }
+  });
+
+  return [...changedIds];
+}
+
+/**
+ * Pushes selection and document changes to the UI, so it does not need to poll:
+ * - selectionChanged: the new selection info, when the selection or the current page changes
+ * - documentChanged: the ids of the selected nodes whose subtree was edited
+ */
+export function listenForDocumentEvents() {
+  const emitSelection = () => {
+    PLUGIN_CHANNEL.emit(UI, "selectionChanged", [getSelectionInfo()]);
+  };
+
+  figma.on("selectionchange", emitSelection);
+  figma.on("currentpagechange", emitSelection);
+
+  figma.on("documentchange", (event) => {
+    const nodeIds = getChangedSelectionIds(event.documentChanges);
+    if (nodeIds.length > 0) {
+      PLUGIN_CHANNEL.emit(UI, "documentChanged", [nodeIds]);
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { PLUGIN, UI } from "@common/networkSides";
-import { PLUGIN_CHANNEL } from "@plugin/plugin.network";
+import { PLUGIN_CHANNEL, listenForDocumentEvents } from "@plugin/plugin.network";
+import { registerCodegen } from "@plugin/plugin.codegen";
 import { Networker } from "monorepo-networker";
 
 async function bootstrap() {
@@ -12,10 +13,14 @@ async function bootstrap() {
     themeColors: true,
   };
 
-  if (figma.editorType === "figma") {
-    figma.showUI(__html__, uiOptions);
-  } else if (figma.editorType === "figjam") {
+  if (figma.mode === "codegen") {
+    // Dev Mode codegen: results are generated for the inspected node, without a window
+    registerCodegen();
+  } else if (figma.editorType === "figma" || figma.editorType === "dev") {
     figma.showUI(__html__, uiOptions);
+
+    // Selection and document changes are pushed to the UI
+    listenForDocumentEvents();
   }
 
   console.log("Bootstrapped @", Networker.getCurrentSide().name);
@@ -1,5 +1,18 @@
-import { PLUGIN, SelectionInfo } from "@common/networkSides";
+import {
+  PLUGIN,
+  SelectionInfo,
+  VariableMapping,
+  ImageAsset,
+  ExtractionProgress,
+  ExtractionWarning,
+  CSSOutputOptions,
+  OutputFile,
+  StyledLibrary,
+  SvelteStyling,
+  TokenScope,
+} from "@common/networkSides";
 import { UI_CHANNEL } from "@ui/app.network";
+import { figmaVariableToCSSVariable } from "@common/cssGenerator";
 import { NetworkError } from "monorepo-networker";
 import { useState, useEffect, useRef, useCallback } from "react";
 import JSZip from "jszip";
@@ -11,6 +24,10 @@ import "./app.scss";
 interface FormatOutput {
   html?: string;
   json?: string;
+  tsx?: string;
+  tsxFileName?: string;
+  ts?: string;
+  files?: OutputFile[];
   stylesheet: string;
   usedVariables: string[];
 }
@@ -20,16 +37,70 @@ interface MultiFormatExtractionResult {
   css: FormatOutput;
   tailwind: FormatOutput;
   raw: FormatOutput;
+  react: FormatOutput;
+  cva: FormatOutput;
+  cssModules: FormatOutput;
+  scss: FormatOutput;
+  styled: FormatOutput;
+  vue: FormatOutput;
+  svelte: FormatOutput;
+  webComponent: FormatOutput;
+  reactNative: FormatOutput;
+  compose: FormatOutput;
+  swiftUI: FormatOutput;
+  flutter: FormatOutput;
+  designTokens: FormatOutput;
+  styleDictionary: FormatOutput;
+  tokensStudio: FormatOutput;
   componentName: string;
-  variableMappings?: Array<{ name: string; value: any }>;
+  variableMappings?: VariableMapping[];
   usedVariables?: string[];
+  assets?: ImageAsset[];
+  warnings?: ExtractionWarning[];
+  cancelled?: boolean;
 }
 
-type OutputFormat = "css" | "tailwind" | "raw";
+type OutputFormat = "css" | "tailwind" | "raw" | "react" | "cva" | "cssModules" | "scss" | "styled" | "vue" | "svelte" | "webComponent" | "reactNative" | "compose" | "swiftUI" | "flutter" | "designTokens" | "styleDictionary" | "tokensStudio";
 type AnnotationFormat = "html" | "tsx" | "none";
 
+// Output format, with its option in the output format toggle and its checkbox in the export dropdown
+interface FormatOption {
+  value: OutputFormat;
+  label: string;
+  exportLabel: string;
+  usesTailwind: boolean; // Its variables are those of the Tailwind output (otherwise those of the CSS output)
+  usesAssets: boolean; // Its output references the image assets, exported with it
+  tokenProfile?: boolean; // Picked in the Profile select of the token exports instead of the toggle
+}
+
+const FORMAT_OPTIONS: FormatOption[] = [
+  { value: "css", label: "CSS", exportLabel: "CSS", usesTailwind: false, usesAssets: true },
+  { value: "tailwind", label: "TW", exportLabel: "Tailwind", usesTailwind: true, usesAssets: true },
+  { value: "raw", label: "Raw", exportLabel: "Raw JSON", usesTailwind: false, usesAssets: false },
+  { value: "react", label: "React", exportLabel: "React", usesTailwind: true, usesAssets: true }, // React components use the Tailwind classes
+  { value: "cva", label: "CVA", exportLabel: "CVA variants", usesTailwind: true, usesAssets: false }, // cva() configs hold the same Tailwind classes
+  { value: "cssModules", label: "Modules", exportLabel: "CSS Modules", usesTailwind: false, usesAssets: true }, // CSS Modules rules hold the same CSS properties
+  { value: "scss", label: "SCSS", exportLabel: "SCSS", usesTailwind: false, usesAssets: true }, // SCSS token variables are the CSS variables of the CSS output
+  { value: "styled", label: "Styled", exportLabel: "Styled components", usesTailwind: false, usesAssets: true }, // So are the theme tokens of the styled components
+  { value: "vue", label: "Vue", exportLabel: "Vue", usesTailwind: false, usesAssets: true }, // Vue scoped styles hold the same CSS properties
+  { value: "svelte", label: "Svelte", exportLabel: "Svelte", usesTailwind: false, usesAssets: true }, // Tailwind classes with the Tailwind styling (see isVariableInCurrentFormat)
+  { value: "webComponent", label: "Element", exportLabel: "Web Component", usesTailwind: false, usesAssets: true }, // Custom element stylesheets hold the same CSS properties
+  { value: "reactNative", label: "RN", exportLabel: "React Native", usesTailwind: false, usesAssets: true }, // Native tokens are the variables behind the CSS variables
+  { value: "compose", label: "Compose", exportLabel: "Jetpack Compose", usesTailwind: false, usesAssets: true }, // So are the AppTheme constants of Compose and SwiftUI
+  { value: "swiftUI", label: "SwiftUI", exportLabel: "SwiftUI", usesTailwind: false, usesAssets: true },
+  { value: "flutter", label: "Flutter", exportLabel: "Flutter", usesTailwind: false, usesAssets: true }, // And the AppTokens constants of Flutter
+  { value: "designTokens", label: "Tokens", exportLabel: "Design Tokens (DTCG)", usesTailwind: false, usesAssets: false }, // Shared by the token exports, see isTokenFormat
+  { value: "styleDictionary", label: "Style Dictionary", exportLabel: "Style Dictionary", usesTailwind: false, usesAssets: false, tokenProfile: true },
+  { value: "tokensStudio", label: "Tokens Studio", exportLabel: "Tokens Studio", usesTailwind: false, usesAssets: false, tokenProfile: true },
+];
+
+// Formats checked in the export dropdown until changed
+const DEFAULT_EXPORT_FORMATS: OutputFormat[] = ["css", "tailwind"];
+
 function App() {
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [cancelling, setCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<MultiFormatExtractionResult | null>(null);
   const [componentName, setComponentName] = useState<string>("Component name");
@@ -39,14 +110,19 @@ function App() {
   const [annotationsEnabled, setAnnotationsEnabled] = useState(true);
   const [annotationFormat, setAnnotationFormat] = useState<AnnotationFormat>("html");
   const [prettifyEnabled, setPrettifyEnabled] = useState(true);
+  const [classesEnabled, setClassesEnabled] = useState(false);
+  const [classNaming, setClassNaming] = useState<CSSOutputOptions["classNaming"]>("bem");
+  const [stylesheetTarget, setStylesheetTarget] = useState<CSSOutputOptions["stylesheetTarget"]>("style");
+  const [styledLibrary, setStyledLibrary] = useState<StyledLibrary>("styled-components");
+  const [svelteStyling, setSvelteStyling] = useState<SvelteStyling>("css");
+  const [tokenScope, setTokenScope] = useState<TokenScope>("used");
+  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false);
   
   // Export dropdown state
   const [exportDropdownOpen, setExportDropdownOpen] = useState(false);
-  const [exportFormats, setExportFormats] = useState<{ css: boolean; tailwind: boolean; raw: boolean }>({
-    css: true,
-    tailwind: true,
-    raw: false
-  });
+  const [exportFormats, setExportFormats] = useState(() => Object.fromEntries(
+    FORMAT_OPTIONS.map((format) => [format.value, DEFAULT_EXPORT_FORMATS.includes(format.value)])
+  ) as Record<OutputFormat, boolean>);
   const exportDropdownRef = useRef<HTMLDivElement>(null);
   
   // Sidebar resize state
@@ -54,6 +130,7 @@ function App() {
   const [isResizing, setIsResizing] = useState(false);
   const resizeRef = useRef<{ startX: number; startWidth: number } | null>(null);
   
+  const AUTO_REFRESH_DELAY = 300;
   const MIN_SIDEBAR_WIDTH = 240;
   const MAX_SIDEBAR_WIDTH = 400;
 
@@ -142,9 +219,8 @@ function App() {
     };
   }, [isWindowResizing]);
 
-  // Check selection on mount and update component name and type
+  // Get the selection on mount, then follow the selectionChanged events pushed by the plugin
   useEffect(() => {
-    // Get initial selection info
     const updateSelectionInfo = async () => {
       try {
         const info = await UI_CHANNEL.request(PLUGIN, "getSelectionName", []) as SelectionInfo;
@@ -159,14 +235,61 @@ function App() {
     
     updateSelectionInfo();
     
-    // Set up interval to check for selection changes
-    const interval = setInterval(() => {
-      updateSelectionInfo();
-    }, 500); // Check every 500ms
-    
-    return () => clearInterval(interval);
+    return UI_CHANNEL.subscribe("selectionChanged", (info) => {
+      setComponentName(info.name);
+      setComponentType(info.type);
+    });
   }, []);
 
+  // Follow the progress pushed by the plugin while extracting
+  useEffect(() => {
+    return UI_CHANNEL.subscribe("extractionProgress", (nextProgress) => {
+      setProgress(nextProgress);
+    });
+  }, []);
+
+  // Auto refresh: re-extract when the selection or the selected nodes change
+  // Edits fire many documentChanged events (e.g., while dragging), so extraction is debounced
+  useEffect(() => {
+    if (!autoRefreshEnabled) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRefresh = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        // Two extractions would share the plugin's cancel flag and race to set the result,
+        // so a refresh due while extracting runs once the running extraction ends
+        if (extractingRef.current) {
+          refreshPendingRef.current = true;
+          return;
+        }
+        handleGetCodeRef.current();
+      }, AUTO_REFRESH_DELAY);
+    };
+
+    const unsubscribeSelection = UI_CHANNEL.subscribe("selectionChanged", (info) => {
+      // Selecting the node of a warning must not replace the result
+      if (selectingWarningNodeRef.current) {
+        selectingWarningNodeRef.current = false;
+        return;
+      }
+      if (info.type) scheduleRefresh();
+    });
+    const unsubscribeDocument = UI_CHANNEL.subscribe("documentChanged", () => {
+      scheduleRefresh();
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      refreshPendingRef.current = false;
+      unsubscribeSelection();
+      unsubscribeDocument();
+    };
+  }, [autoRefreshEnabled]);
+
+  // The token exports share the "Tokens" format option, their profile is picked in a select
+  const isTokenFormat = outputFormat === "designTokens" || outputFormat === "styleDictionary" || outputFormat === "tokensStudio";
+
   // Get the current format's stylesheet based on selected output format
   const getCurrentStylesheet = (): string => {
     if (!result) return "";
@@ -185,6 +308,7 @@ function App() {
     usedInCss: boolean;
     usedInTailwind: boolean;
     usedInRaw: boolean;
+    library?: string; // Team library the variable comes from (undefined for local variables)
   }
 
   const getAllVariablesWithUsage = (): VariableUsage[] => {
@@ -196,12 +320,21 @@ function App() {
     
     // Get union of all variables
     const allVars = new Set([...cssVars, ...twVars, ...rawVars]);
+
+    // Library names of remote variables, keyed by CSS variable name
+    const libraries = new Map<string, string>();
+    result.variableMappings?.forEach(mapping => {
+      if (mapping.remote) {
+        libraries.set(figmaVariableToCSSVariable(mapping.name), mapping.library || mapping.collection || "Library");
+      }
+    });
     
     return Array.from(allVars).sort().map(name => ({
       name,
       usedInCss: cssVars.has(name),
       usedInTailwind: twVars.has(name),
       usedInRaw: rawVars.has(name),
+      library: libraries.get(name),
     }));
   };
 
@@ -214,10 +347,14 @@ function App() {
   };
 
   const isVariableInCurrentFormat = (v: VariableUsage): boolean => {
-    if (outputFormat === "css") return v.usedInCss;
-    if (outputFormat === "tailwind") return v.usedInTailwind;
+    // Token exports hold every used variable (or every variable of the collections)
+    if (isTokenFormat) return true;
     if (outputFormat === "raw") return v.usedInRaw;
-    return false;
+    // Svelte styles are CSS properties or Tailwind classes, depending on its styling
+    const usesTailwind = outputFormat === "svelte"
+      ? svelteStyling === "tailwind"
+      : FORMAT_OPTIONS.some((format) => format.value === outputFormat && format.usesTailwind);
+    return usesTailwind ? v.usedInTailwind : v.usedInCss;
   };
 
   // Categorize variables by purpose
@@ -295,20 +432,36 @@ function App() {
       }));
   };
 
+  // Set synchronously while an extraction runs (the loading state lags a render behind)
+  const extractingRef = useRef(false);
+  // Set when an auto refresh was due while extracting
+  const refreshPendingRef = useRef(false);
+
   const handleGetCode = async () => {
+    if (extractingRef.current) return;
+    extractingRef.current = true;
     setLoading(true);
     setError(null);
     setResult(null);
+    setProgress(null);
+    setCancelling(false);
 
     try {
       // Determine effective annotation format (none if disabled)
       const effectiveAnnotationFormat = annotationsEnabled ? annotationFormat : "none";
       
-      // Extract all formats at once with annotation and prettify settings
+      // CSS output: inline styles, or a class per node with a <style> block or .css file
+      const cssOptions: CSSOutputOptions = {
+        styleMode: classesEnabled ? "classes" : "inline",
+        classNaming,
+        stylesheetTarget,
+      };
+      
+      // Extract all formats at once with annotation, prettify, CSS, styled library, Svelte and design token settings
       const extractionResult = await UI_CHANNEL.request(
         PLUGIN,
         "extractComponent",
-        [effectiveAnnotationFormat, prettifyEnabled]
+        [effectiveAnnotationFormat, prettifyEnabled, cssOptions, styledLibrary, svelteStyling, tokenScope]
       ) as MultiFormatExtractionResult;
       
       setResult(extractionResult);
@@ -321,10 +474,46 @@ function App() {
       }
       console.error("Extraction error:", err);
     } finally {
+      extractingRef.current = false;
       setLoading(false);
+      setProgress(null);
+      setCancelling(false);
+      if (refreshPendingRef.current) {
+        refreshPendingRef.current = false;
+        // Deferred so the refresh runs with the options of the next render
+        setTimeout(() => handleGetCodeRef.current());
+      }
+    }
+  };
+
+  // Stops the running extraction: the plugin returns the outputs of the nodes extracted so far
+  const handleCancel = () => {
+    setCancelling(true);
+    UI_CHANNEL.emit(PLUGIN, "cancelExtraction", []);
+  };
+
+  // Set while selecting the node of a warning, so auto refresh ignores that selection change
+  const selectingWarningNodeRef = useRef(false);
+
+  // Selects and zooms to the node of a warning in Figma
+  const handleWarningClick = async (warning: ExtractionWarning) => {
+    selectingWarningNodeRef.current = autoRefreshEnabled;
+    try {
+      await UI_CHANNEL.request(PLUGIN, "selectNode", [warning.nodeId]);
+      // No selection change is sent when the node was already selected
+      setTimeout(() => {
+        selectingWarningNodeRef.current = false;
+      }, AUTO_REFRESH_DELAY);
+    } catch (err) {
+      selectingWarningNodeRef.current = false;
+      console.error("Failed to select node:", err);
     }
   };
 
+  // Latest handleGetCode (with the current options) for the auto refresh subscriptions
+  const handleGetCodeRef = useRef(handleGetCode);
+  handleGetCodeRef.current = handleGetCode;
+
   const handleCopy = async () => {
     if (!result) return;
     
@@ -375,6 +564,10 @@ function App() {
     
     if (exportFormats.css) {
       zip.file(`${safeName}.css.html`, result.css.stylesheet);
+      // Class-based output with a separate stylesheet, next to the HTML linking it
+      result.css.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
     }
     if (exportFormats.tailwind) {
       zip.file(`${safeName}.tailwind.html`, result.tailwind.stylesheet);
@@ -382,6 +575,101 @@ function App() {
     if (exportFormats.raw) {
       zip.file(`${safeName}.raw.json`, result.raw.stylesheet);
     }
+    if (exportFormats.react) {
+      zip.file(`${safeName}.tsx`, result.react.stylesheet);
+    }
+    if (exportFormats.cva) {
+      zip.file(`${safeName}.variants.ts`, result.cva.stylesheet);
+    }
+    // Component.tsx and the Component.module.css it imports, in a folder named after the component
+    if (exportFormats.cssModules && result.cssModules.tsxFileName) {
+      const folder = result.cssModules.tsxFileName.replace(/\.tsx$/, "");
+      zip.file(`${folder}/${result.cssModules.tsxFileName}`, result.cssModules.stylesheet);
+      result.cssModules.files?.forEach((file) => {
+        zip.file(`${folder}/${file.name}`, file.content);
+      });
+    }
+
+    // HTML plus the component stylesheet and _tokens.scss it loads
+    if (exportFormats.scss) {
+      zip.file(`${safeName}.scss.html`, result.scss.stylesheet);
+      result.scss.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+
+    // Styled components plus the theme.ts module passed to the ThemeProvider
+    if (exportFormats.styled) {
+      zip.file(`${safeName}.styled.tsx`, result.styled.stylesheet);
+      result.styled.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+
+    if (exportFormats.vue) {
+      zip.file(`${safeName}.vue`, result.vue.stylesheet);
+    }
+    if (exportFormats.svelte) {
+      zip.file(`${safeName}.svelte`, result.svelte.stylesheet);
+    }
+    if (exportFormats.webComponent) {
+      zip.file(`${safeName}.element.ts`, result.webComponent.stylesheet);
+    }
+
+    // React Native components plus the tokens.ts module they import
+    if (exportFormats.reactNative) {
+      zip.file(`${safeName}.native.tsx`, result.reactNative.stylesheet);
+      result.reactNative.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+
+    // Compose and SwiftUI views plus their AppTheme constants (images go to res/drawable or the asset catalog)
+    if (exportFormats.compose) {
+      zip.file(`${safeName}.kt`, result.compose.stylesheet);
+      result.compose.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+    if (exportFormats.swiftUI) {
+      zip.file(`${safeName}.swift`, result.swiftUI.stylesheet);
+      result.swiftUI.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+
+    // Flutter widgets plus the app_tokens.dart file they import (images stay in assets/)
+    if (exportFormats.flutter) {
+      zip.file(`${safeName}.dart`, result.flutter.stylesheet);
+      result.flutter.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+
+    // Token exports: DTCG tokens of the default modes plus one file per other mode
+    if (exportFormats.designTokens) {
+      zip.file("design-tokens.json", result.designTokens.stylesheet);
+      result.designTokens.files?.forEach((file) => {
+        zip.file(file.name, file.content);
+      });
+    }
+    // Style Dictionary sources in their own folder (their names would clash with other token files)
+    if (exportFormats.styleDictionary) {
+      zip.file("style-dictionary/tokens.json", result.styleDictionary.stylesheet);
+      result.styleDictionary.files?.forEach((file) => {
+        zip.file(`style-dictionary/${file.name}`, file.content);
+      });
+    }
+    if (exportFormats.tokensStudio) {
+      zip.file("tokens-studio.json", result.tokensStudio.stylesheet);
+    }
+
+    // Image fills referenced by the outputs (assets/<hash>.<ext>)
+    if (FORMAT_OPTIONS.some((format) => format.usesAssets && exportFormats[format.value])) {
+      result.assets?.forEach((asset) => {
+        zip.file(asset.path, asset.bytes);
+      });
+    }
     
     try {
       const content = await zip.generateAsync({ type: 'blob' });
@@ -484,9 +772,37 @@ function App() {
               Error: {error}
             </p>
           ) : result ? (
-            <pre className="code-output">
-              <code dangerouslySetInnerHTML={{ __html: highlightArbitraryValues(getCurrentStylesheet()) }} />
-            </pre>
+            <>
+              {result.cancelled && (
+                <p className="code-notice">
+                  Extraction cancelled: the output only covers the nodes extracted before cancelling.
+                </p>
+              )}
+              <pre className="code-output">
+                <code dangerouslySetInnerHTML={{ __html: highlightArbitraryValues(getCurrentStylesheet()) }} />
+              </pre>
+              {result[outputFormat].files?.map((file) => (
+                <div key={file.name}>
+                  <p className="code-file-name">{file.name}</p>
+                  <pre className="code-output">
+                    <code dangerouslySetInnerHTML={{ __html: highlightArbitraryValues(file.content) }} />
+                  </pre>
+                </div>
+              ))}
+            </>
+          ) : loading && progress ? (
+            <div className="code-progress">
+              <p className="code-placeholder">
+                {cancelling ? "Cancelling..." : `Extracting ${progress.visited} / ${progress.total} nodes`}
+              </p>
+              <div className="progress-bar">
+                <div
+                  className="progress-bar-fill"
+                  style={{ width: `${progress.total > 0 ? Math.round((progress.visited / progress.total) * 100) : 0}%` }}
+                />
+              </div>
+              <p className="progress-node-name">{progress.nodeName}</p>
+            </div>
           ) : (
             <p className="code-placeholder">
               {loading ? "Extracting..." : "Select a component in Figma and click 'Get code' to extract its DOM structure"}
@@ -512,39 +828,22 @@ function App() {
           <div className="format-toggle">
             <p className="format-toggle-label">Output Format</p>
             <div className="format-options format-options-horizontal">
-              <label className={`format-option ${outputFormat === "css" ? "format-option-checked" : ""} ${loading ? "format-option-disabled" : ""}`}>
-                <input
-                  type="radio"
-                  name="format"
-                  value="css"
-                  checked={outputFormat === "css"}
-                  onChange={() => setOutputFormat("css")}
-                  disabled={loading}
-                />
-                <span>CSS</span>
-              </label>
-              <label className={`format-option ${outputFormat === "tailwind" ? "format-option-checked" : ""} ${loading ? "format-option-disabled" : ""}`}>
-                <input
-                  type="radio"
-                  name="format"
-                  value="tailwind"
-                  checked={outputFormat === "tailwind"}
-                  onChange={() => setOutputFormat("tailwind")}
-                  disabled={loading}
-                />
-                <span>TW</span>
-              </label>
-              <label className={`format-option ${outputFormat === "raw" ? "format-option-checked" : ""} ${loading ? "format-option-disabled" : ""}`}>
-                <input
-                  type="radio"
-                  name="format"
-                  value="raw"
-                  checked={outputFormat === "raw"}
-                  onChange={() => setOutputFormat("raw")}
-                  disabled={loading}
-                />
-                <span>Raw</span>
-              </label>
+              {FORMAT_OPTIONS.filter((format) => !format.tokenProfile).map((format) => {
+                const checked = format.value === "designTokens" ? isTokenFormat : outputFormat === format.value;
+                return (
+                  <label key={format.value} className={`format-option ${checked ? "format-option-checked" : ""} ${loading ? "format-option-disabled" : ""}`}>
+                    <input
+                      type="radio"
+                      name="format"
+                      value={format.value}
+                      checked={checked}
+                      onChange={() => setOutputFormat(format.value)}
+                      disabled={loading}
+                    />
+                    <span>{format.label}</span>
+                  </label>
+                );
+              })}
             </div>
           </div>
           
@@ -584,8 +883,135 @@ function App() {
               </label>
               <span className="toggle-label">Prettify</span>
             </div>
+            <div className="option-item">
+              <label className={`toggle-switch ${loading ? "toggle-disabled" : ""}`}>
+                <input
+                  type="checkbox"
+                  checked={classesEnabled}
+                  onChange={(e) => setClassesEnabled(e.target.checked)}
+                  disabled={loading}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+              <span className="toggle-label" title="CSS output: a class per layer instead of inline styles">Classes</span>
+              {classesEnabled && (
+                <>
+                  <select
+                    value={classNaming}
+                    onChange={(e) => setClassNaming(e.target.value as CSSOutputOptions["classNaming"])}
+                    disabled={loading}
+                    className="inline-select"
+                    title="Class naming"
+                  >
+                    <option value="bem">BEM</option>
+                    <option value="type">Type</option>
+                    <option value="hash">Hash</option>
+                  </select>
+                  <select
+                    value={stylesheetTarget}
+                    onChange={(e) => setStylesheetTarget(e.target.value as CSSOutputOptions["stylesheetTarget"])}
+                    disabled={loading}
+                    className="inline-select"
+                    title="Stylesheet"
+                  >
+                    <option value="style">&lt;style&gt;</option>
+                    <option value="file">.css file</option>
+                  </select>
+                </>
+              )}
+            </div>
+            {outputFormat === "styled" && (
+              <div className="option-item">
+                <span className="toggle-label" title="Library the styled components are written for">Library</span>
+                <select
+                  value={styledLibrary}
+                  onChange={(e) => setStyledLibrary(e.target.value as StyledLibrary)}
+                  disabled={loading}
+                  className="inline-select"
+                >
+                  <option value="styled-components">styled-components</option>
+                  <option value="emotion">Emotion</option>
+                </select>
+              </div>
+            )}
+            {outputFormat === "svelte" && (
+              <div className="option-item">
+                <span className="toggle-label" title="Styling of the Svelte component">Styling</span>
+                <select
+                  value={svelteStyling}
+                  onChange={(e) => setSvelteStyling(e.target.value as SvelteStyling)}
+                  disabled={loading}
+                  className="inline-select"
+                >
+                  <option value="css">Scoped CSS</option>
+                  <option value="tailwind">Tailwind</option>
+                </select>
+              </div>
+            )}
+            {isTokenFormat && (
+              <div className="option-item">
+                <span className="toggle-label" title="Format of the exported tokens">Profile</span>
+                <select
+                  value={outputFormat}
+                  onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                  disabled={loading}
+                  className="inline-select"
+                >
+                  <option value="designTokens">DTCG</option>
+                  <option value="styleDictionary">Style Dictionary</option>
+                  <option value="tokensStudio">Tokens Studio</option>
+                </select>
+              </div>
+            )}
+            {isTokenFormat && (
+              <div className="option-item">
+                <span className="toggle-label" title="Variables exported as design tokens">Variables</span>
+                <select
+                  value={tokenScope}
+                  onChange={(e) => setTokenScope(e.target.value as TokenScope)}
+                  disabled={loading}
+                  className="inline-select"
+                >
+                  <option value="used">Used</option>
+                  <option value="all">All collections</option>
+                </select>
+              </div>
+            )}
+            <div className="option-item">
+              <label className={`toggle-switch ${loading ? "toggle-disabled" : ""}`}>
+                <input
+                  type="checkbox"
+                  checked={autoRefreshEnabled}
+                  onChange={(e) => setAutoRefreshEnabled(e.target.checked)}
+                  disabled={loading}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+              <span className="toggle-label">Auto refresh</span>
+            </div>
           </div>
           
+          {result?.warnings && result.warnings.length > 0 && (
+            <div className="warnings-list">
+              <p className="warnings-title">
+                Warnings <span className="warnings-count">({result.warnings.length})</span>
+              </p>
+              <div className="warnings-wrapper">
+                {result.warnings.map((warning, index) => (
+                  <button
+                    key={index}
+                    className={`warning-item warning-item-${warning.severity}`}
+                    onClick={() => handleWarningClick(warning)}
+                    title={`${warning.code}: select this layer in Figma`}
+                  >
+                    <p className="warning-node-name">{warning.nodeName}</p>
+                    <p className="warning-message">{warning.message}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          
           {(() => {
             const allVars = getAllVariablesWithUsage();
             const groupedVars = categorizeVariables(allVars);
@@ -608,6 +1034,7 @@ function App() {
                           >
                             <p>var({v.name})</p>
                             <span className="variable-formats">
+                              {v.library && <span className="format-badge format-badge-library" title={`From library: ${v.library}`}>L</span>}
                               {v.usedInCss && <span className={`format-badge ${outputFormat === "css" ? "format-badge-active" : ""}`} title="Used in CSS output">C</span>}
                               {v.usedInTailwind && <span className={`format-badge ${outputFormat === "tailwind" ? "format-badge-active" : ""}`} title="Used in Tailwind output">T</span>}
                               {v.usedInRaw && <span className={`format-badge ${outputFormat === "raw" ? "format-badge-active" : ""}`} title="Used in Raw JSON output">R</span>}
@@ -626,10 +1053,10 @@ function App() {
         <div className="action-buttons">
           <button
             className="button button-primary"
-            onClick={handleGetCode}
-            disabled={loading}
+            onClick={loading ? handleCancel : handleGetCode}
+            disabled={cancelling}
           >
-            <p>Get code</p>
+            <p>{loading ? "Cancel" : "Get code"}</p>
           </button>
           <button
             className="button button-secondary"
@@ -649,34 +1076,20 @@ function App() {
             {exportDropdownOpen && (
               <div className="export-dropdown">
                 <div className="export-dropdown-header">Select formats</div>
-                <label className="export-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={exportFormats.css}
-                    onChange={(e) => setExportFormats(prev => ({ ...prev, css: e.target.checked }))}
-                  />
-                  <span>CSS</span>
-                </label>
-                <label className="export-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={exportFormats.tailwind}
-                    onChange={(e) => setExportFormats(prev => ({ ...prev, tailwind: e.target.checked }))}
-                  />
-                  <span>Tailwind</span>
-                </label>
-                <label className="export-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={exportFormats.raw}
-                    onChange={(e) => setExportFormats(prev => ({ ...prev, raw: e.target.checked }))}
-                  />
-                  <span>Raw JSON</span>
-                </label>
+                {FORMAT_OPTIONS.map((format) => (
+                  <label key={format.value} className="export-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={exportFormats[format.value]}
+                      onChange={(e) => setExportFormats(prev => ({ ...prev, [format.value]: e.target.checked }))}
+                    />
+                    <span>{format.exportLabel}</span>
+                  </label>
+                ))}
                 <button
                   className="button button-primary export-btn"
                   onClick={handleExport}
-                  disabled={!exportFormats.css && !exportFormats.tailwind && !exportFormats.raw}
+                  disabled={!FORMAT_OPTIONS.some((format) => exportFormats[format.value])}
                 >
                   <p>Download ZIP</p>
                 </button>